@@ -5,7 +5,18 @@ export default defineConfig({
   dts: {
     splitting: false,
   },
-  entry: ["src/index.ts", "src/errors.ts", "src/types.ts"],
+  entry: [
+    "src/index.ts",
+    "src/arbitraries.ts",
+    "src/codecs.ts",
+    "src/errors.ts",
+    "src/http.ts",
+    "src/result.ts",
+    "src/retry.ts",
+    "src/sourcemap.ts",
+    "src/testing.ts",
+    "src/types.ts",
+  ],
   format: "esm",
   outDir: "dist",
   sourcemap: true,
@@ -1,12 +1,35 @@
+import type * as FaultierArbitrariesContract from "../src/arbitraries"
+import type * as FaultierCodecsContract from "../src/codecs"
 import type * as FaultierErrorsContract from "../src/errors"
+import type * as FaultierHttpContract from "../src/http"
 import type * as FaultierContract from "../src/index"
+import type * as FaultierResultContract from "../src/result"
+import type * as FaultierRetryContract from "../src/retry"
+import type * as FaultierSourcemapContract from "../src/sourcemap"
+import type * as FaultierTestingContract from "../src/testing"
 
 const rootSpecifier = "faultier"
+const arbitrariesSpecifier = "faultier/arbitraries"
+const codecsSpecifier = "faultier/codecs"
 const errorsSpecifier = "faultier/errors"
+const httpSpecifier = "faultier/http"
+const resultSpecifier = "faultier/result"
+const retrySpecifier = "faultier/retry"
+const sourcemapSpecifier = "faultier/sourcemap"
+const testingSpecifier = "faultier/testing"
 const typesSpecifier = "faultier/types"
 
 const Faultier = (await import(rootSpecifier)) as typeof FaultierContract
+const FaultierArbitraries = (await import(
+  arbitrariesSpecifier
+)) as typeof FaultierArbitrariesContract
+const FaultierCodecs = (await import(codecsSpecifier)) as typeof FaultierCodecsContract
 const FaultierErrors = (await import(errorsSpecifier)) as typeof FaultierErrorsContract
+const FaultierHttp = (await import(httpSpecifier)) as typeof FaultierHttpContract
+const FaultierResult = (await import(resultSpecifier)) as typeof FaultierResultContract
+const FaultierRetry = (await import(retrySpecifier)) as typeof FaultierRetryContract
+const FaultierSourcemap = (await import(sourcemapSpecifier)) as typeof FaultierSourcemapContract
+const FaultierTesting = (await import(testingSpecifier)) as typeof FaultierTestingContract
 const FaultierTypes = (await import(typesSpecifier)) as object
 
 function assertExports(namespace: object, expected: string[], entrypoint: string): void {
@@ -21,14 +44,75 @@ function assertExports(namespace: object, expected: string[], entrypoint: string
 
 assertExports(
   Faultier,
-  ["Fault", "Tagged", "fromSerializable", "isFault", "matchTag", "matchTags", "merge", "registry"],
+  [
+    "AggregateFault",
+    "Fault",
+    "Tagged",
+    "everyError",
+    "findCause",
+    "fingerprint",
+    "flattenTree",
+    "formatFault",
+    "frames",
+    "fromSerializable",
+    "getContextEntries",
+    "hasTraits",
+    "isFault",
+    "isFaultLike",
+    "match",
+    "matchCauseTags",
+    "matchTag",
+    "matchTags",
+    "merge",
+    "registry",
+    "someError",
+    "unwrapTree",
+  ],
   "faultier"
 )
+assertExports(
+  FaultierArbitraries,
+  ["arbFault", "arbSerializableFault", "arbThrown"],
+  "faultier/arbitraries"
+)
+assertExports(
+  FaultierCodecs,
+  [
+    "bigintCodec",
+    "builtinCodecs",
+    "bytesCodec",
+    "dateCodec",
+    "mapCodec",
+    "setCodec",
+    "urlCodec",
+    "useCodecs",
+  ],
+  "faultier/codecs"
+)
 assertExports(
   FaultierErrors,
-  ["RegistryMergeConflictError", "RegistryTagMismatchError", "ReservedFieldError"],
+  [
+    "FaultAssertionError",
+    "FieldValidationError",
+    "HttpTransportError",
+    "InvalidWirePayloadError",
+    "NonExhaustiveMatchError",
+    "RegistryMergeConflictError",
+    "RegistryTagMismatchError",
+    "ReservedFieldError",
+    "RetryExhaustedError",
+  ],
   "faultier/errors"
 )
+assertExports(FaultierHttp, ["FAULT_CONTENT_TYPE", "fromResponse", "toResponse"], "faultier/http")
+assertExports(
+  FaultierResult,
+  ["andThen", "err", "isErr", "isOk", "map", "mapErr", "match", "ok", "unwrapOr"],
+  "faultier/result"
+)
+assertExports(FaultierRetry, ["retry"], "faultier/retry")
+assertExports(FaultierSourcemap, ["createSourceMapper"], "faultier/sourcemap")
+assertExports(FaultierTesting, ["expectFault", "faultMatchers"], "faultier/testing")
 assertExports(FaultierTypes, [], "faultier/types")
 
 class InvalidFieldError extends Faultier.Tagged("InvalidFieldError")<{ message: string }>() {}
@@ -46,10 +130,24 @@ if (!(thrown instanceof FaultierErrors.ReservedFieldError)) {
 }
 
 const outputPaths = [
+  "dist/arbitraries.d.ts",
+  "dist/arbitraries.js",
+  "dist/codecs.d.ts",
+  "dist/codecs.js",
   "dist/errors.d.ts",
   "dist/errors.js",
+  "dist/http.d.ts",
+  "dist/http.js",
   "dist/index.d.ts",
   "dist/index.js",
+  "dist/result.d.ts",
+  "dist/result.js",
+  "dist/retry.d.ts",
+  "dist/retry.js",
+  "dist/sourcemap.d.ts",
+  "dist/sourcemap.js",
+  "dist/testing.d.ts",
+  "dist/testing.js",
   "dist/types.d.ts",
   "dist/types.js",
 ] as const
@@ -66,17 +164,35 @@ const consumerPath = "dist/node-next-consumer.ts"
 await Bun.write(
   consumerPath,
   `import { Tagged, registry } from "faultier"
+import { dateCodec } from "faultier/codecs"
 import { ReservedFieldError } from "faultier/errors"
-import type { FaultRegistry, SerializableFault } from "faultier/types"
+import * as Http from "faultier/http"
+import * as Result from "faultier/result"
+import type { FaultRegistry, Result as FaultResult, SerializableFault } from "faultier/types"
+
+declare global {
+  namespace Faultier {
+    interface CodecTypes {
+      date: Date
+    }
+  }
+}
 
 class ConsumerError extends Tagged("ConsumerError")() {}
+class DatedError extends Tagged("DatedError")<{ at: Date }>() {}
 
-const ConsumerFault = registry({ ConsumerError })
-const registryContract: FaultRegistry<{ readonly ConsumerError: typeof ConsumerError }> = ConsumerFault
+const ConsumerFault = registry({ ConsumerError, DatedError }, { codecs: [dateCodec] })
+const registryContract: FaultRegistry<{
+  readonly ConsumerError: typeof ConsumerError
+  readonly DatedError: typeof DatedError
+}> = ConsumerFault
 const serialized: SerializableFault = ConsumerFault.create("ConsumerError").toSerializable()
+const result: FaultResult<number, ConsumerError> = ConsumerFault.try(() => 1, "ConsumerError")
 
 void registryContract
 void serialized
+void Http.toResponse(ConsumerFault, ConsumerFault.create("ConsumerError"), { status: 503 })
+void Result.isOk(result)
 void ReservedFieldError
 `
 )
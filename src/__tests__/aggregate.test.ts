@@ -0,0 +1,281 @@
+import { describe, expect, it } from "bun:test"
+
+import type { SerializableCause, SerializableFault } from "../types"
+import { ReservedFieldError } from "../errors"
+import {
+  AggregateFault,
+  everyError,
+  Fault,
+  flattenTree,
+  fromSerializable,
+  registry,
+  someError,
+  Tagged,
+  unwrapTree,
+} from "../index"
+
+class BatchError extends Tagged("BatchError").aggregate<{ job: string }>() {}
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+
+const AppFault = registry({ BatchError, NotFoundError, TimeoutError })
+
+function transport(value: Fault): SerializableFault {
+  // oxlint-disable-next-line unicorn/prefer-structured-clone -- aggregates must survive a real JSON transport.
+  return JSON.parse(JSON.stringify(value.toSerializable())) as SerializableFault
+}
+
+describe("AggregateFault", () => {
+  it("creates tagged aggregates with fields and child errors", () => {
+    const timeout = new TimeoutError()
+    const batch = new BatchError({ job: "upload" }).withErrors([timeout, "oops"])
+
+    expect(batch).toBeInstanceOf(AggregateFault)
+    expect(batch).toBeInstanceOf(Fault)
+    expect(batch._tag).toBe("BatchError")
+    expect(batch.job).toBe("upload")
+    expect(batch.errors).toEqual([timeout, "oops"])
+    expect(new BatchError({ job: "empty" }).errors).toEqual([])
+  })
+
+  it("copies the children passed to withErrors", () => {
+    const children = new Set<unknown>([new TimeoutError()])
+    const batch = new BatchError({ job: "upload" }).withErrors(children)
+
+    children.clear()
+
+    expect(batch.errors).toHaveLength(1)
+  })
+
+  it("rejects fields that shadow aggregate members", () => {
+    class InvalidBatch extends Tagged("InvalidBatch").aggregate<{ errors: string }>() {}
+
+    expect(() => new InvalidBatch({ errors: "nope" })).toThrow(ReservedFieldError)
+  })
+
+  it("keeps unwrap linear and excludes children from the payload", () => {
+    const root = new Error("root")
+    const batch = new BatchError({ job: "upload" }).withErrors([new TimeoutError()]).withCause(root)
+
+    expect(batch.unwrap()).toEqual([batch, root])
+    expect(Object.keys(batch.toSerializable())).not.toContain("errors")
+  })
+
+  it("is created by registries like any other fault", () => {
+    const batch = AppFault.create("BatchError", { job: "sync" }).withErrors([new TimeoutError()])
+
+    expect(AppFault.is(batch)).toBe(true)
+    expect(batch.errors).toHaveLength(1)
+  })
+})
+
+describe("unwrapTree", () => {
+  it("branches into aggregate children and follows each child's cause", () => {
+    const driver = new Error("ECONNRESET")
+    const first = new TimeoutError().withCause(driver)
+    const second = new NotFoundError({ id: "b" })
+    const batch = new BatchError({ job: "upload" }).withErrors([first, second])
+    const head = new TimeoutError().withCause(batch)
+
+    expect(unwrapTree(head)).toEqual({
+      cause: {
+        errors: [{ cause: { value: driver }, value: first }, { value: second }],
+        value: batch,
+      },
+      value: head,
+    })
+  })
+
+  it("branches into native AggregateError children", () => {
+    const native = new AggregateError([new TimeoutError()], "many")
+    const tree = unwrapTree(new TimeoutError().withCause(native))
+
+    expect(tree.cause?.errors).toHaveLength(1)
+  })
+
+  it("does not expand an aggregate that contains itself", () => {
+    const batch = new BatchError({ job: "loop" })
+    batch.withErrors([batch])
+
+    expect(unwrapTree(batch)).toEqual({ errors: [{ value: batch }], value: batch })
+  })
+
+  it("leaves unwrapTree and flattenTree free as field names", () => {
+    class TreeError extends Tagged("TreeError")<{ flattenTree: string; unwrapTree: number }>() {}
+    const fault = new TreeError({ flattenTree: "flat", unwrapTree: 1 })
+
+    expect(fromSerializable(fault.toSerializable())).toMatchObject({
+      flattenTree: "flat",
+      unwrapTree: 1,
+    })
+  })
+})
+
+describe("flattenTree", () => {
+  it("renders one line per branch", () => {
+    const first = new TimeoutError()
+      .withMessage("Upload a failed")
+      .withCause(new Error("ECONNRESET"))
+    const second = new NotFoundError({ id: "b" }).withMessage("Upload b failed")
+    const batch = new BatchError({ job: "upload" })
+      .withMessage("Batch failed")
+      .withErrors([first, second])
+    const head = new TimeoutError().withMessage("Sync failed").withCause(batch)
+
+    expect(flattenTree(head)).toBe(
+      [
+        "Sync failed -> Batch failed",
+        "├─ Upload a failed -> ECONNRESET",
+        "└─ Upload b failed",
+      ].join("\n")
+    )
+  })
+
+  it("indents nested aggregates and lists an aggregate's cause as its last branch", () => {
+    const inner = new BatchError({ job: "inner" })
+      .withMessage("Inner batch")
+      .withErrors([new Error("a"), new Error("b")])
+    const outer = new BatchError({ job: "outer" })
+      .withMessage("Outer batch")
+      .withErrors([inner])
+      .withCause(new Error("root"))
+
+    expect(
+      flattenTree(outer, { formatter: (value) => value.toUpperCase(), separator: " | " })
+    ).toBe(["OUTER BATCH", "├─ INNER BATCH", "│  ├─ A", "│  └─ B", "└─ ROOT"].join("\n"))
+  })
+
+  it("matches flatten for a chain without aggregates", () => {
+    const head = new TimeoutError()
+      .withMessage("outer")
+      .withCause(new TimeoutError().withMessage("outer").withCause(new Error("root")))
+
+    expect(flattenTree(head)).toBe(head.flatten())
+  })
+})
+
+describe("someError and everyError", () => {
+  it("checks children by tag or constructor, including wrapped children", () => {
+    const wrapped = new TimeoutError().withCause(new NotFoundError({ id: "a" }))
+    const batch = new BatchError({ job: "upload" }).withErrors([
+      wrapped,
+      new NotFoundError({ id: "b" }),
+    ])
+
+    expect(someError(batch, "TimeoutError")).toBe(true)
+    expect(everyError(batch, "TimeoutError")).toBe(false)
+    expect(everyError(batch, NotFoundError)).toBe(true)
+    expect(someError(batch, "BatchError")).toBe(false)
+  })
+
+  it("works with native AggregateError and empty aggregates", () => {
+    const native = new AggregateError([new TimeoutError(), new Error("plain")], "many")
+    const empty = new BatchError({ job: "empty" })
+
+    expect(someError(native, TimeoutError)).toBe(true)
+    expect(everyError(native, TimeoutError)).toBe(false)
+    expect(someError(empty, "TimeoutError")).toBe(false)
+    expect(everyError(empty, "TimeoutError")).toBe(true)
+  })
+})
+
+describe("aggregate serialization", () => {
+  it("round-trips children through the registry", () => {
+    const batch = new BatchError({ job: "upload" }).withErrors([
+      new NotFoundError({ id: "a" }),
+      new Error("plain", { cause: new TimeoutError() }),
+      "thrown",
+    ])
+
+    const restored = AppFault.fromSerializable(transport(batch))
+
+    expect(restored).toBeInstanceOf(BatchError)
+    if (!(restored instanceof BatchError)) return
+    expect(restored.job).toBe("upload")
+    expect(restored.errors[0]).toBeInstanceOf(NotFoundError)
+    expect(restored.errors[1]).toBeInstanceOf(Error)
+    expect((restored.errors[1] as Error).cause).toBeInstanceOf(TimeoutError)
+    expect(restored.errors[2]).toBe("thrown")
+  })
+
+  it("restores unregistered aggregates generically", () => {
+    const batch = new BatchError({ job: "upload" }).withErrors([new TimeoutError()])
+    const restored = fromSerializable(transport(batch))
+
+    expect(restored).toBeInstanceOf(AggregateFault)
+    expect(restored._tag).toBe("BatchError")
+    expect((restored as AggregateFault).errors).toHaveLength(1)
+    expect(flattenTree(restored)).toBe(flattenTree(batch))
+  })
+
+  it("keeps a payload field named errors on aggregates", () => {
+    const json: SerializableFault = {
+      __errors: [],
+      __faultier: true,
+      _tag: "Unregistered",
+      errors: ["legacy"],
+      name: "Unregistered",
+    }
+
+    const restored = fromSerializable(json) as AggregateFault & Record<string, unknown>
+
+    expect(restored.errors).toEqual([])
+    expect(restored.__payload_errors).toEqual(["legacy"])
+  })
+
+  it("serializes native AggregateError children", () => {
+    const native = new AggregateError([new TimeoutError(), new Error("plain")], "many", {
+      cause: "root",
+    })
+    const json = transport(new TimeoutError().withCause(native))
+
+    expect(json.cause).toMatchObject({
+      cause: { kind: "thrown", value: "root" },
+      errors: [{ kind: "fault" }, { kind: "error", message: "plain" }],
+      kind: "aggregate",
+      message: "many",
+      name: "AggregateError",
+    })
+
+    const restored = AppFault.fromSerializable(json).cause
+
+    expect(restored).toBeInstanceOf(AggregateError)
+    expect((restored as AggregateError).errors[0]).toBeInstanceOf(TimeoutError)
+    expect((restored as AggregateError).cause).toBe("root")
+  })
+
+  it("serializes a self-containing aggregate without expanding it again", () => {
+    const batch = new BatchError({ job: "loop" })
+    batch.withErrors([batch])
+
+    const json = transport(batch)
+
+    expect(json.__errors).toEqual([
+      { kind: "fault", value: expect.objectContaining({ __errors: [] }) },
+    ])
+  })
+
+  it("revives native aggregate causes without errors as empty aggregates", () => {
+    const json: SerializableFault = {
+      __faultier: true,
+      _tag: "TimeoutError",
+      cause: { kind: "aggregate", message: "many", name: "AggregateError" } as SerializableCause,
+      name: "TimeoutError",
+    }
+
+    const restored = fromSerializable(json).cause
+    const versioned = registry({}, { migrations: [{ version: 1 }] }).fromSerializable(json).cause
+
+    expect(restored).toBeInstanceOf(AggregateError)
+    expect((restored as AggregateError).errors).toEqual([])
+    expect((versioned as AggregateError).errors).toEqual([])
+  })
+
+  it("rejects a non-array __errors envelope", () => {
+    const json = { __errors: "nope", __faultier: true, _tag: "X", name: "X" }
+
+    expect(() => fromSerializable(json as unknown as SerializableFault)).toThrow(
+      "Invalid Faultier payload: __errors must be an array"
+    )
+  })
+})
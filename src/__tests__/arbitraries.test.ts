@@ -0,0 +1,128 @@
+import { describe, expect, it } from "bun:test"
+import fc from "fast-check"
+
+import { arbFault, arbSerializableFault, arbThrown } from "../arbitraries"
+import { fromSerializable, registry, Tagged } from "../index"
+
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+class BatchError extends Tagged("BatchError").aggregate() {}
+
+const AppFault = registry({ BatchError, NotFoundError, TimeoutError })
+
+const RUNS = { numRuns: 50 }
+
+function depthOf(fault: { unwrap(): unknown[] }): number {
+  return fault.unwrap().length - 1
+}
+
+describe("arbFault", () => {
+  it("generates registered faults with generated fields", () => {
+    const faults = arbFault(AppFault, {
+      fields: { NotFoundError: fc.record({ id: fc.string() }) },
+    })
+
+    fc.assert(
+      fc.property(faults, (fault) => {
+        expect(AppFault.is(fault)).toBe(true)
+        if (fault instanceof NotFoundError) expect(typeof fault.id).toBe("string")
+      }),
+      RUNS
+    )
+  })
+
+  it("limits nesting to maxDepth", () => {
+    fc.assert(
+      fc.property(arbFault(AppFault, { maxDepth: 1 }), (fault) => {
+        expect(depthOf(fault)).toBeLessThanOrEqual(2)
+        for (const child of fault instanceof BatchError ? fault.errors : []) {
+          expect(child instanceof BatchError && child.errors.length > 0).toBe(false)
+        }
+      }),
+      RUNS
+    )
+    fc.assert(
+      fc.property(arbFault(AppFault, { maxDepth: 0 }), (fault) => {
+        expect(fault.cause).toBeUndefined()
+      }),
+      RUNS
+    )
+  })
+
+  it("survives the wire with its tag and meta", () => {
+    fc.assert(
+      fc.property(arbFault(AppFault), (fault) => {
+        // oxlint-disable-next-line unicorn/prefer-structured-clone -- JSON text is what crosses the wire.
+        const json = JSON.parse(JSON.stringify(fault.toSerializable())) as ReturnType<
+          typeof fault.toSerializable
+        >
+        const revived = AppFault.fromSerializable(json)
+
+        expect(revived._tag).toBe(fault._tag)
+        expect(revived.meta).toEqual(fault.meta)
+      }),
+      RUNS
+    )
+  })
+})
+
+describe("arbSerializableFault", () => {
+  it("generates payloads that both reconstruction paths accept", () => {
+    fc.assert(
+      fc.property(arbSerializableFault(), (json) => {
+        expect(fromSerializable(json)._tag).toBe(json._tag)
+        expect(AppFault.fromSerializable(json)._tag).toBe(json._tag)
+      }),
+      RUNS
+    )
+  })
+
+  it("draws tags from the given list", () => {
+    fc.assert(
+      fc.property(arbSerializableFault({ tags: AppFault.tags }), (json) => {
+        expect<readonly string[]>(AppFault.tags).toContain(json._tag)
+      }),
+      RUNS
+    )
+  })
+
+  it("includes payload keys that collide with Fault members", () => {
+    const keys = fc
+      .sample(arbSerializableFault({ maxDepth: 0 }), { numRuns: 300, seed: 1 })
+      .flatMap((json) => Object.keys(json))
+
+    expect(keys).toContain("__proto__")
+    expect(keys.some((key) => key.startsWith("__payload_"))).toBe(true)
+    expect(keys.some((key) => key in TimeoutError.prototype && key !== "__proto__")).toBe(true)
+  })
+})
+
+describe("arbThrown", () => {
+  it("generates values that serialize to JSON-safe payloads", () => {
+    fc.assert(
+      fc.property(arbThrown(), (thrown) => {
+        const json = AppFault.toSerializable(thrown)
+
+        expect(() => JSON.stringify(json)).not.toThrow()
+        expect(fromSerializable(json)._tag).toBe(json._tag)
+      }),
+      RUNS
+    )
+  })
+
+  it("covers primitives, symbols, bigints, errors, and cyclic objects", () => {
+    const samples = fc.sample(arbThrown(), { numRuns: 500, seed: 1 })
+
+    expect(samples.some((value) => typeof value === "symbol")).toBe(true)
+    expect(samples.some((value) => typeof value === "bigint")).toBe(true)
+    expect(samples.some((value) => value instanceof AggregateError)).toBe(true)
+    expect(
+      samples.some(
+        (value) =>
+          typeof value === "object" &&
+          value !== null &&
+          (value as Record<string, unknown>)["self"] === value
+      )
+    ).toBe(true)
+  })
+})
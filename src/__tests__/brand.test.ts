@@ -0,0 +1,127 @@
+import { afterAll, describe, expect, it } from "bun:test"
+import { cpSync, mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import type * as Faultier from "../index"
+import { fromSerializable, isFault, isFaultLike, registry, Tagged } from "../index"
+
+// A second copy of the sources, imported from another path, behaves like a
+// duplicate bundled copy: same code, separate Fault constructor.
+const copyDir = mkdtempSync(join(tmpdir(), "faultier-copy-"))
+cpSync(join(import.meta.dir, ".."), copyDir, {
+  filter: (source) => !source.includes("__tests__"),
+  recursive: true,
+})
+const Foreign = (await import(join(copyDir, "index.ts"))) as typeof Faultier
+
+afterAll(() => {
+  rmSync(copyDir, { force: true, recursive: true })
+})
+
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+class GatewayTimeoutError extends TimeoutError.extend("GatewayTimeoutError")() {}
+
+const AppFault = registry({ GatewayTimeoutError, NotFoundError, TimeoutError })
+
+class ForeignNotFoundError extends Foreign.Tagged("NotFoundError")<{ id: string }>() {}
+class ForeignTimeoutError extends Foreign.Tagged("TimeoutError")() {}
+class ForeignReadTimeoutError extends ForeignTimeoutError.extend("ReadTimeoutError")() {}
+class ForeignUnknownError extends Foreign.Tagged("UnknownError")() {}
+
+describe("fault brand", () => {
+  it("recognizes faults from another copy without instanceof", () => {
+    const foreign = new ForeignNotFoundError({ id: "1" })
+
+    expect(foreign instanceof NotFoundError).toBe(false)
+    expect(isFault(foreign)).toBe(false)
+    expect(isFaultLike(foreign)).toBe(true)
+    expect(Foreign.isFaultLike(new NotFoundError({ id: "1" }))).toBe(true)
+  })
+
+  it("rejects values without the brand or a string tag", () => {
+    expect(isFaultLike(new Error("plain"))).toBe(false)
+    expect(isFaultLike({ _tag: "NotFoundError" })).toBe(false)
+    expect(isFaultLike({ [Symbol.for("faultier.fault")]: 1, _tag: 1 })).toBe(false)
+    expect(isFaultLike({ [Symbol.for("faultier.fault")]: 2, _tag: "NotFoundError" })).toBe(false)
+  })
+
+  it("rejects branded objects without the Fault shape", () => {
+    const branded = { [Symbol.for("faultier.fault")]: 1, _tag: "NotFoundError" }
+
+    expect(isFaultLike(branded)).toBe(false)
+    expect(isFaultLike({ ...branded, _ancestors: [] })).toBe(false)
+    expect(AppFault.isLike(branded)).toBe(false)
+    expect(AppFault.adopt(branded)).toBeUndefined()
+    expect(isFaultLike(null)).toBe(false)
+    expect(isFaultLike("NotFoundError")).toBe(false)
+  })
+
+  it("keeps the brand out of payload fields and the wire format", () => {
+    const fault = new NotFoundError({ id: "1" })
+
+    expect(Object.getOwnPropertySymbols(fault)).toEqual([])
+    expect(Object.getOwnPropertySymbols(fault.toSerializable())).toEqual([])
+    expect(isFaultLike(fromSerializable(fault.toSerializable()))).toBe(true)
+  })
+})
+
+describe("registry.isLike", () => {
+  it("matches registered tags regardless of constructor identity", () => {
+    const foreign = new ForeignNotFoundError({ id: "1" })
+
+    expect(AppFault.is(foreign)).toBe(false)
+    expect(AppFault.isLike(foreign)).toBe(true)
+    expect(AppFault.isLike(new NotFoundError({ id: "1" }))).toBe(true)
+    expect(AppFault.isLike(new ForeignUnknownError())).toBe(false)
+  })
+
+  it("matches unregistered tags through registered parent tags", () => {
+    const foreign = new ForeignReadTimeoutError()
+
+    expect(AppFault.isLike(foreign)).toBe(true)
+    expect(AppFault.isLike(foreign, "TimeoutError")).toBe(true)
+    expect(AppFault.isLike(foreign, "GatewayTimeoutError")).toBe(false)
+    expect(AppFault.isLike(new ForeignTimeoutError(), "NotFoundError")).toBe(false)
+  })
+})
+
+describe("registry.adopt", () => {
+  it("re-creates foreign faults with the registered constructor", () => {
+    const foreign = new ForeignNotFoundError({ id: "1" })
+      .withMeta({ requestId: "r1" })
+      .withCause(new ForeignTimeoutError())
+
+    const adopted = AppFault.adopt(foreign)
+
+    expect(adopted).toBeInstanceOf(NotFoundError)
+    expect((adopted as NotFoundError).id).toBe("1")
+    expect(adopted?.meta).toEqual({ requestId: "r1" })
+    expect(adopted?.cause).toBeInstanceOf(TimeoutError)
+    expect(adopted?.stack).toBe(foreign.stack)
+  })
+
+  it("adopts unregistered tags as their nearest registered ancestor", () => {
+    const adopted = AppFault.adopt(new ForeignReadTimeoutError())
+
+    expect(adopted).toBeInstanceOf(TimeoutError)
+    expect<string | undefined>(adopted?._tag).toBe("ReadTimeoutError")
+    expect(adopted?._ancestors).toEqual(["TimeoutError"])
+    expect(
+      AppFault.match(adopted)
+        .with("TimeoutError", () => "timeout")
+        .with(["GatewayTimeoutError", "NotFoundError"], () => "other")
+        .exhaustive()
+    ).toBe("timeout")
+    expect(AppFault.matchTag(adopted, "TimeoutError", () => "timeout")).toBe("timeout")
+  })
+
+  it("returns members unchanged and rejects other values", () => {
+    const member = new NotFoundError({ id: "1" })
+
+    expect(AppFault.adopt(member)).toBe(member)
+    expect(AppFault.adopt(new ForeignUnknownError())).toBeUndefined()
+    expect(AppFault.adopt(new Error("plain"))).toBeUndefined()
+  })
+})
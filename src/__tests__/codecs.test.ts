@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it } from "bun:test"
+
+import type { Codec, SerializableFault, SerializableValue } from "../types"
+import {
+  bigintCodec,
+  builtinCodecs,
+  bytesCodec,
+  dateCodec,
+  mapCodec,
+  setCodec,
+  urlCodec,
+  useCodecs,
+} from "../codecs"
+import { fromSerializable, merge, registry, Tagged } from "../index"
+
+class Money {
+  constructor(
+    readonly amount: number,
+    readonly currency: string
+  ) {}
+}
+
+// `date` stays undeclared so the negative Date field test in types.test.ts
+// keeps covering the JSON-only default.
+declare global {
+  // oxlint-disable-next-line typescript/no-namespace -- Faultier.CodecTypes is the documented augmentation point.
+  namespace Faultier {
+    interface CodecTypes {
+      bigint: bigint
+      bytes: Uint8Array
+      map: ReadonlyMap<unknown, unknown>
+      money: Money
+      set: ReadonlySet<unknown>
+      url: URL
+    }
+  }
+}
+
+const moneyCodec: Codec<Money> = {
+  decode: (value) => {
+    const { amount, currency } = value as { amount: number; currency: string }
+    return new Money(amount, currency)
+  },
+  encode: (value) => ({ amount: value.amount, currency: value.currency }),
+  is: (value) => value instanceof Money,
+  type: "money",
+}
+
+class ChargeError extends Tagged("ChargeError")<{
+  amount: bigint
+  endpoint: URL
+  price: Money
+}>() {}
+class BlobError extends Tagged("BlobError")<{
+  bytes: Uint8Array
+  index: ReadonlyMap<string, ReadonlySet<bigint>>
+}>() {}
+class EnvelopeLikeError extends Tagged("EnvelopeLikeError")<{
+  $type: string
+  data: { $type: string; value: number }
+}>() {}
+
+const PaymentFault = registry({ ChargeError }, { codecs: [moneyCodec, ...builtinCodecs] })
+const BlobFault = registry({ BlobError, EnvelopeLikeError })
+
+function transport(wire: SerializableFault): SerializableFault {
+  // oxlint-disable-next-line unicorn/prefer-structured-clone -- codec envelopes must survive JSON, not structured cloning.
+  return JSON.parse(JSON.stringify(wire)) as SerializableFault
+}
+
+afterEach(() => {
+  useCodecs([])
+})
+
+function payload(amount: SerializableValue): SerializableFault {
+  return { __faultier: true, _tag: "ChargeError", amount, name: "ChargeError" }
+}
+
+function charge(): ChargeError {
+  return new ChargeError({
+    amount: 12_345_678_901_234_567_890n,
+    endpoint: new URL("https://pay.example.com/charges"),
+    price: new Money(42, "EUR"),
+  })
+}
+
+describe("registry codecs", () => {
+  it("encodes values into $type envelopes", () => {
+    expect(PaymentFault.toSerializable(charge())).toMatchObject({
+      amount: { $type: "bigint", value: "12345678901234567890" },
+      endpoint: { $type: "url", value: "https://pay.example.com/charges" },
+      price: { $type: "money", value: { amount: 42, currency: "EUR" } },
+    })
+  })
+
+  it("decodes envelopes back into rich values across JSON transport", () => {
+    const wire = transport(PaymentFault.toSerializable(charge()))
+    const restored = PaymentFault.fromSerializable(wire)
+
+    expect(restored).toBeInstanceOf(ChargeError)
+    expect((restored as ChargeError).amount).toBe(12_345_678_901_234_567_890n)
+    expect((restored as ChargeError).endpoint).toEqual(new URL("https://pay.example.com/charges"))
+    expect((restored as ChargeError).price).toEqual(new Money(42, "EUR"))
+  })
+
+  it("restores thrown bigints and dates instead of strings", () => {
+    const fault = PaymentFault.wrap(10n).as("ChargeError", {
+      amount: 1n,
+      endpoint: new URL("https://pay.example.com"),
+      price: new Money(1, "USD"),
+    })
+    const date = new Date("2024-01-02T03:04:05.000Z")
+
+    expect(PaymentFault.fromSerializable(PaymentFault.toSerializable(fault)).cause).toBe(10n)
+    expect(PaymentFault.fromSerializable(PaymentFault.toSerializable(date)).cause).toEqual(date)
+  })
+
+  it("leaves the wire format unchanged for registries without codecs", () => {
+    const fault = new EnvelopeLikeError({ $type: "raw", data: { $type: "money", value: 1 } })
+
+    expect(BlobFault.toSerializable(fault)).toMatchObject({
+      $type: "raw",
+      data: { $type: "money", value: 1 },
+    })
+  })
+
+  it("is carried through merge", () => {
+    const MergedFault = merge(PaymentFault, BlobFault)
+    const restored = MergedFault.fromSerializable(MergedFault.toSerializable(charge()))
+
+    expect((restored as ChargeError).price).toBeInstanceOf(Money)
+  })
+
+  it("rejects the reserved $literal codec type", () => {
+    expect(() =>
+      registry({ ChargeError }, { codecs: [{ ...moneyCodec, type: "$literal" }] })
+    ).toThrow(TypeError)
+  })
+})
+
+describe("useCodecs", () => {
+  it("enables codecs for Fault.toSerializable and fromSerializable", () => {
+    useCodecs([bytesCodec, mapCodec, setCodec, bigintCodec])
+    const fault = new BlobError({
+      bytes: new Uint8Array([0, 1, 254, 255]),
+      index: new Map([["even", new Set([0n, 2n])]]),
+    })
+
+    const restored = fromSerializable(transport(fault.toSerializable()))
+
+    expect(restored).toMatchObject({
+      bytes: new Uint8Array([0, 1, 254, 255]),
+      index: new Map([["even", new Set([0n, 2n])]]),
+    })
+  })
+
+  it("applies to registries after registry codecs", () => {
+    useCodecs([dateCodec, { ...urlCodec, encode: () => "ignored" }])
+    const date = new Date(Number.NaN)
+
+    const restored = PaymentFault.fromSerializable(
+      PaymentFault.toSerializable(charge().withCause(date))
+    )
+
+    expect((restored as ChargeError).endpoint.href).toBe("https://pay.example.com/charges")
+    expect(restored.cause).toBeInstanceOf(Date)
+    expect(Number.isNaN((restored.cause as Date).getTime())).toBe(true)
+  })
+
+  it("escapes plain objects that carry their own $type key", () => {
+    useCodecs(builtinCodecs)
+    const fault = new EnvelopeLikeError({ $type: "raw", data: { $type: "bigint", value: 1 } })
+
+    const wire = BlobFault.toSerializable(fault)
+    const restored = BlobFault.fromSerializable(wire)
+
+    expect(wire.$type).toBe("raw")
+    expect(wire.data).toEqual({ $type: "$literal", value: { $type: "bigint", value: 1 } })
+    expect(restored).toMatchObject({ $type: "raw", data: { $type: "bigint", value: 1 } })
+  })
+
+  it("keeps envelopes for disabled codecs as data", () => {
+    const wire = PaymentFault.toSerializable(charge())
+
+    expect(fromSerializable(wire)).toMatchObject({
+      price: { $type: "money", value: { amount: 42, currency: "EUR" } },
+    })
+  })
+})
+
+describe("malformed codec envelopes", () => {
+  const BuiltinFault = registry({ ChargeError }, { codecs: builtinCodecs })
+  const rejected: Array<{ $type: string; value: SerializableValue }> = [
+    { $type: "bigint", value: "x" },
+    { $type: "bytes", value: "%%%" },
+    { $type: "date", value: "nope" },
+    { $type: "map", value: [1] },
+    { $type: "set", value: 5 },
+    { $type: "url", value: "nope" },
+  ]
+
+  it("rejects values of the wrong shape in every built-in codec", () => {
+    for (const envelope of rejected) {
+      const codec = builtinCodecs.find((candidate) => candidate.type === envelope.$type)
+
+      expect(() => codec?.decode(envelope.value)).toThrow()
+    }
+  })
+
+  it("keeps envelopes their codec rejects as data", () => {
+    useCodecs(builtinCodecs)
+
+    for (const envelope of rejected) {
+      expect(BuiltinFault.fromSerializable(payload(envelope))).toMatchObject({ amount: envelope })
+      expect(fromSerializable(payload({ nested: [envelope] }))).toMatchObject({
+        amount: { nested: [envelope] },
+      })
+    }
+  })
+})
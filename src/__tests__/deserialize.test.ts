@@ -0,0 +1,236 @@
+import { describe, expect, it } from "bun:test"
+
+import type { SerializableFault } from "../types"
+import { builtinCodecs } from "../codecs"
+import { InvalidWirePayloadError } from "../errors"
+import { Fault, fromSerializable, registry, Tagged } from "../index"
+
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+class ReadTimeoutError extends TimeoutError.extend("ReadTimeoutError")() {}
+
+const AppFault = registry({ NotFoundError, TimeoutError })
+const CodecFault = registry({ NotFoundError }, { codecs: builtinCodecs })
+
+function malformed(payload: Record<string, unknown>): SerializableFault {
+  return { __faultier: true, _tag: "NotFoundError", id: "1", name: "NotFoundError", ...payload }
+}
+
+function rejection(fn: () => unknown): InvalidWirePayloadError {
+  try {
+    fn()
+  } catch (error) {
+    if (error instanceof InvalidWirePayloadError) return error
+    throw error
+  }
+  throw new Error("Expected InvalidWirePayloadError")
+}
+
+describe("strict deserialization", () => {
+  it("accepts well-formed payloads of registered tags", () => {
+    const json = AppFault.toSerializable(
+      new NotFoundError({ id: "1" }).withCause(new Error("io", { cause: new TimeoutError() }))
+    )
+
+    const fault = AppFault.fromSerializable(json, { mode: "strict" })
+
+    expect(fault).toBeInstanceOf(NotFoundError)
+    expect(fault.getDiagnostics()).toEqual([])
+  })
+
+  it("reports every problem with a JSON Pointer path", () => {
+    const json = malformed({
+      "~payload": 10n,
+      cause: { kind: "mystery", value: 1 },
+      message: 42,
+      meta: { "a/b": Number.NaN },
+    })
+
+    const error = rejection(() => AppFault.fromSerializable(json, { mode: "strict" }))
+
+    expect(error).toBeInstanceOf(Fault)
+    expect(error.getDiagnostics()).toEqual([
+      { message: "expected a string, got 42", path: "/message" },
+      { message: "expected a finite number, got NaN", path: "/meta/a~1b" },
+      { message: 'unknown cause kind "mystery"', path: "/cause/kind" },
+      { message: "expected a JSON-safe value, got a bigint", path: "/~0payload" },
+    ])
+    expect(error.message).toStartWith("Invalid Faultier payload: /message: expected a string")
+  })
+
+  it("checks native causes, aggregate children, and thrown values", () => {
+    const cyclic: Record<string, unknown> = {}
+    cyclic["self"] = cyclic
+    const json = malformed({
+      __errors: [{ kind: "thrown", value: new Date(0) }],
+      cause: {
+        cause: { kind: "fault", value: { __faultier: true, _tag: 7 } },
+        errors: "none",
+        kind: "aggregate",
+        message: "batch",
+        name: "AggregateError",
+      },
+      extra: cyclic,
+    })
+
+    const error = rejection(() => AppFault.fromSerializable(json, { mode: "strict" }))
+
+    expect(error.getDiagnostics().map((diagnostic) => diagnostic.path)).toEqual([
+      "/cause/cause/value/_tag",
+      "/cause/errors",
+      "/__errors/0/value",
+      "/extra/self",
+    ])
+  })
+
+  it("rejects tags the registry cannot resolve, at any depth", () => {
+    const json = malformed({
+      cause: { kind: "fault", value: { __faultier: true, _tag: "GoneError", name: "GoneError" } },
+    })
+
+    const error = rejection(() => AppFault.fromSerializable(json, { mode: "strict" }))
+
+    expect(error.getDiagnostics()).toEqual([
+      { message: 'unregistered tag "GoneError"', path: "/cause/value/_tag" },
+    ])
+    expect(
+      AppFault.fromSerializable(new ReadTimeoutError().toSerializable(), { mode: "strict" })
+    ).toBeInstanceOf(TimeoutError)
+  })
+
+  it("checks only the shape without a registry", () => {
+    const json = { __faultier: true, _tag: "GoneError", name: "GoneError" } as const
+
+    expect(fromSerializable(json, { mode: "strict" })._tag).toBe("GoneError")
+    expect(() => fromSerializable(malformed({ meta: [] }), { mode: "strict" })).toThrow(
+      InvalidWirePayloadError
+    )
+  })
+
+  it("rejects values that are not faults in every checked mode", () => {
+    for (const mode of ["strict", "lenient"] as const) {
+      const error = rejection(() =>
+        AppFault.fromSerializable(null as unknown as SerializableFault, { mode })
+      )
+
+      expect(error.getDiagnostics()).toEqual([
+        { message: "expected a Faultier payload, got null", path: "" },
+      ])
+    }
+  })
+})
+
+describe("lenient deserialization", () => {
+  it("revives malformed payloads and records their problems", () => {
+    const json = malformed({
+      __traits: [],
+      _ancestors: "TimeoutError",
+      cause: { kind: "mystery", value: 1 },
+      meta: "request-1",
+    })
+
+    const fault = AppFault.fromSerializable(json, { mode: "lenient" })
+
+    expect(fault).toBeInstanceOf(NotFoundError)
+    expect(fault.meta).toBeUndefined()
+    expect(fault.cause).toEqual({ kind: "mystery", value: 1 })
+    expect(fault.getDiagnostics().map((diagnostic) => diagnostic.path)).toEqual([
+      "/meta",
+      "/_ancestors",
+      "/__traits",
+      "/cause/kind",
+    ])
+  })
+
+  it("drops envelope strings of the wrong type and reports missing members", () => {
+    const json = malformed({
+      cause: { kind: "aggregate", message: "batch", name: 7 },
+      message: 42,
+      name: 5,
+    })
+
+    const fault = AppFault.fromSerializable(json, { mode: "lenient" })
+
+    expect(fault.name).toBe("NotFoundError")
+    expect(fault.message).toBe("NotFoundError")
+    expect((fault.cause as AggregateError).name).toBe("Error")
+    expect(fault.getDiagnostics()).toEqual([
+      { message: "expected a string, got 5", path: "/name" },
+      { message: "expected a string, got 42", path: "/message" },
+      { message: "expected a string, got 7", path: "/cause/name" },
+      { message: "expected an array, got undefined", path: "/cause/errors" },
+    ])
+  })
+
+  it("keeps unregistered tags as generic faults with a diagnostic", () => {
+    const json = { __faultier: true, _tag: "GoneError", name: "GoneError" } as const
+
+    const fault = AppFault.fromSerializable(json, { mode: "lenient" })
+
+    expect(fault._tag).toBe("GoneError")
+    expect(fault.getDiagnostics()).toEqual([
+      { message: 'unregistered tag "GoneError"', path: "/_tag" },
+    ])
+  })
+
+  it("keeps diagnostics apart from a diagnostics payload field", () => {
+    class LintError extends Tagged("LintError")<{ diagnostics: string[] }>() {}
+    const json = malformed({
+      ...new LintError({ diagnostics: ["unused"] }).toSerializable(),
+      meta: "m",
+    })
+
+    const fault = fromSerializable(json, { mode: "lenient" })
+
+    expect((fault as unknown as LintError).diagnostics).toEqual(["unused"])
+    expect(fault.getDiagnostics().map((diagnostic) => diagnostic.path)).toEqual(["/meta"])
+  })
+
+  it("does not mutate the input payload", () => {
+    const json = malformed({ meta: "request-1" })
+    const snapshot = structuredClone(json)
+
+    AppFault.fromSerializable(json, { mode: "lenient" })
+
+    expect(json).toEqual(snapshot)
+  })
+})
+
+describe("codec envelopes", () => {
+  const json = malformed({
+    cause: { kind: "thrown", value: { $type: "url", value: "nope" } },
+    id: { $type: "bigint", value: "x" },
+    meta: { at: { $type: "date", value: "never" } },
+  })
+
+  it("rejects envelopes the registry's codecs cannot decode in strict mode", () => {
+    const error = rejection(() => CodecFault.fromSerializable(json, { mode: "strict" }))
+
+    expect(error.getDiagnostics().map((diagnostic) => diagnostic.path)).toEqual([
+      "/cause/value",
+      "/id",
+    ])
+    expect(error.getDiagnostics()[1]?.message).toStartWith("invalid bigint value: ")
+  })
+
+  it("keeps them as data with a diagnostic in lenient mode", () => {
+    const fault = CodecFault.fromSerializable(json, { mode: "lenient" })
+
+    expect(fault).toMatchObject({ id: { $type: "bigint", value: "x" } })
+    expect(fault.cause).toEqual({ $type: "url", value: "nope" })
+    expect(fault.getDiagnostics()).toHaveLength(2)
+    expect(AppFault.fromSerializable(json, { mode: "strict" })).toBeInstanceOf(NotFoundError)
+  })
+})
+
+describe("permissive deserialization", () => {
+  it("is the default and keeps the plain errors and pass-through causes", () => {
+    const unknownKind = malformed({ cause: { kind: "mystery", value: 1 } })
+
+    expect(AppFault.fromSerializable(unknownKind, { mode: "permissive" }).cause).toBe(1)
+    expect(AppFault.fromSerializable(unknownKind).getDiagnostics()).toEqual([])
+    expect(() => AppFault.fromSerializable(malformed({ meta: "request-1" }))).toThrow(
+      "Invalid Faultier payload: meta must be an object"
+    )
+  })
+})
@@ -1,31 +1,113 @@
 import { describe, expect, it } from "bun:test"
 
+import * as FaultierArbitraries from "../arbitraries"
+import * as FaultierCodecs from "../codecs"
 import * as FaultierErrors from "../errors"
+import * as FaultierHttp from "../http"
 import * as Faultier from "../index"
+import * as FaultierResult from "../result"
+import * as FaultierRetry from "../retry"
+import * as FaultierSourcemap from "../sourcemap"
+import * as FaultierTesting from "../testing"
 import * as FaultierTypes from "../types"
 
 describe("entrypoints", () => {
   it("exposes only the core runtime API from the root", () => {
     expect(Object.keys(Faultier).toSorted()).toEqual([
+      "AggregateFault",
       "Fault",
       "Tagged",
+      "everyError",
+      "findCause",
+      "fingerprint",
+      "flattenTree",
+      "formatFault",
+      "frames",
       "fromSerializable",
+      "getContextEntries",
+      "hasTraits",
       "isFault",
+      "isFaultLike",
+      "match",
+      "matchCauseTags",
       "matchTag",
       "matchTags",
       "merge",
       "registry",
+      "someError",
+      "unwrapTree",
+    ])
+  })
+
+  it("exposes only arbitraries from the arbitraries entrypoint", () => {
+    expect(Object.keys(FaultierArbitraries).toSorted()).toEqual([
+      "arbFault",
+      "arbSerializableFault",
+      "arbThrown",
+    ])
+  })
+
+  it("exposes only codecs from the codecs entrypoint", () => {
+    expect(Object.keys(FaultierCodecs).toSorted()).toEqual([
+      "bigintCodec",
+      "builtinCodecs",
+      "bytesCodec",
+      "dateCodec",
+      "mapCodec",
+      "setCodec",
+      "urlCodec",
+      "useCodecs",
     ])
   })
 
   it("exposes only library errors from the errors entrypoint", () => {
     expect(Object.keys(FaultierErrors).toSorted()).toEqual([
+      "FaultAssertionError",
+      "FieldValidationError",
+      "HttpTransportError",
+      "InvalidWirePayloadError",
+      "NonExhaustiveMatchError",
       "RegistryMergeConflictError",
       "RegistryTagMismatchError",
       "ReservedFieldError",
+      "RetryExhaustedError",
+    ])
+  })
+
+  it("exposes only Response helpers from the http entrypoint", () => {
+    expect(Object.keys(FaultierHttp).toSorted()).toEqual([
+      "FAULT_CONTENT_TYPE",
+      "fromResponse",
+      "toResponse",
     ])
   })
 
+  it("exposes only Result helpers from the result entrypoint", () => {
+    expect(Object.keys(FaultierResult).toSorted()).toEqual([
+      "andThen",
+      "err",
+      "isErr",
+      "isOk",
+      "map",
+      "mapErr",
+      "match",
+      "ok",
+      "unwrapOr",
+    ])
+  })
+
+  it("exposes only the retry helper from the retry entrypoint", () => {
+    expect(Object.keys(FaultierRetry)).toEqual(["retry"])
+  })
+
+  it("exposes only the source mapper from the sourcemap entrypoint", () => {
+    expect(Object.keys(FaultierSourcemap)).toEqual(["createSourceMapper"])
+  })
+
+  it("exposes only test helpers from the testing entrypoint", () => {
+    expect(Object.keys(FaultierTesting).toSorted()).toEqual(["expectFault", "faultMatchers"])
+  })
+
   it("has no runtime exports from the types entrypoint", () => {
     expect(Object.keys(FaultierTypes)).toEqual([])
   })
@@ -1,7 +1,14 @@
 import { describe, expect, it } from "bun:test"
 
-import { RegistryMergeConflictError, RegistryTagMismatchError, ReservedFieldError } from "../errors"
-import { merge, registry, Tagged } from "../index"
+import {
+  HttpTransportError,
+  NonExhaustiveMatchError,
+  RegistryMergeConflictError,
+  RegistryTagMismatchError,
+  ReservedFieldError,
+} from "../errors"
+import { fromResponse } from "../http"
+import { match, merge, registry, Tagged } from "../index"
 
 describe("ReservedFieldError", () => {
   it("exposes its tag, name, field, and message", () => {
@@ -62,3 +69,47 @@ describe("RegistryMergeConflictError", () => {
     expect(() => merge(FirstFault, SecondFault)).toThrow(RegistryMergeConflictError)
   })
 })
+
+describe("NonExhaustiveMatchError", () => {
+  it("exposes its tag, name, field, and message", () => {
+    const error = new NonExhaustiveMatchError({ unmatchedTag: "TimeoutError" })
+
+    expect(error._tag).toBe("NonExhaustiveMatchError")
+    expect(error.name).toBe("NonExhaustiveMatchError")
+    expect(error.unmatchedTag).toBe("TimeoutError")
+    expect(error.message).toBe("No handler matched tag 'TimeoutError'.")
+  })
+
+  it("retains constructor identity when thrown through match", () => {
+    class HandledError extends Tagged("HandledError")() {}
+    class EscapedError extends Tagged("EscapedError")() {}
+    const error = new EscapedError() as unknown as HandledError
+
+    expect(() =>
+      match(error)
+        .with("HandledError", () => "handled")
+        .exhaustive()
+    ).toThrow(NonExhaustiveMatchError)
+  })
+})
+
+describe("HttpTransportError", () => {
+  it("exposes its tag, name, fields, and message", () => {
+    const error = new HttpTransportError({ status: 502, statusText: "Bad Gateway" })
+
+    expect(error._tag).toBe("HttpTransportError")
+    expect(error.name).toBe("HttpTransportError")
+    expect(error.status).toBe(502)
+    expect(error.statusText).toBe("Bad Gateway")
+    expect(error.message).toBe("HTTP 502 response did not contain a Faultier payload.")
+  })
+
+  it("retains constructor identity when returned from fromResponse", async () => {
+    class UpstreamError extends Tagged("UpstreamError")() {}
+    const AppFault = registry({ UpstreamError })
+
+    expect(await fromResponse(AppFault, new Response("oops", { status: 502 }))).toBeInstanceOf(
+      HttpTransportError
+    )
+  })
+})
@@ -1,7 +1,7 @@
 import { describe, expect, it } from "bun:test"
 import fc from "fast-check"
 
-import { Fault, isFault, Tagged } from "../index"
+import { Fault, fromSerializable, getContextEntries, isFault, Tagged } from "../index"
 
 class ExampleFault extends Fault {
   constructor(message?: string) {
@@ -88,6 +88,29 @@ describe("Fault", () => {
     expect(chain).toEqual([api, svc, db, root])
   })
 
+  it("follows native Error.cause links through unwrap, getTags, and flatten", () => {
+    class DatabaseError extends Tagged("DatabaseError")() {}
+    class ServiceError extends Tagged("ServiceError")() {}
+
+    const db = new DatabaseError().withMessage("db")
+    const driver = new Error("driver", { cause: db })
+    const socket = new Error("socket", { cause: "ECONNRESET" })
+    const head = new ServiceError().withMessage("svc").withCause(driver)
+    db.withCause(socket)
+
+    expect(head.unwrap()).toEqual([head, driver, db, socket, "ECONNRESET"])
+    expect(head.getTags()).toEqual(["ServiceError", "DatabaseError"])
+    expect(head.flatten()).toBe("svc -> driver -> db -> socket -> ECONNRESET")
+  })
+
+  it("bounds circular native cause chains by the max depth", () => {
+    const first = new Error("first")
+    const second = new Error("second", { cause: first })
+    first.cause = second
+
+    expect(new ExampleFault().withCause(first).unwrap()).toHaveLength(101)
+  })
+
   it("stops unwrap traversal when cause depth exceeds max", () => {
     const head = new ExampleFault("head")
     let current: ExampleFault = head
@@ -354,6 +377,75 @@ describe("Fault", () => {
   })
 })
 
+describe("context views", () => {
+  class DatabaseError extends Tagged("DatabaseError")() {}
+  class ApiError extends Tagged("ApiError")() {}
+
+  function createChain(): ApiError {
+    const db = new DatabaseError().withMeta({ db: true, shared: "db" })
+    const wrapped = new Error("query failed", { cause: db })
+    return new ApiError().withMeta({ api: true, shared: "api" }).withCause(wrapped)
+  }
+
+  it("resolves shared keys by strategy", () => {
+    const fault = createChain()
+
+    expect(fault.getContext({ strategy: "head" })).toEqual(fault.getContext())
+    expect(fault.getContext({ strategy: "leaf" })).toEqual({ api: true, db: true, shared: "db" })
+    expect(fault.getContext({ strategy: "collect" })).toEqual({
+      api: [true],
+      db: [true],
+      shared: ["api", "db"],
+    })
+  })
+
+  it("namespaces keys by layer tag", () => {
+    expect(createChain().getContext({ namespace: true })).toEqual({
+      "ApiError.api": true,
+      "ApiError.shared": "api",
+      "DatabaseError.db": true,
+      "DatabaseError.shared": "db",
+    })
+  })
+
+  it("lists entries with the tag and chain depth that set them", () => {
+    expect(getContextEntries(createChain())).toEqual([
+      { depth: 0, key: "api", tag: "ApiError", value: true },
+      { depth: 0, key: "shared", tag: "ApiError", value: "api" },
+      { depth: 2, key: "db", tag: "DatabaseError", value: true },
+      { depth: 2, key: "shared", tag: "DatabaseError", value: "db" },
+    ])
+  })
+
+  it("leaves getContextEntries free as a field name", () => {
+    class AuditError extends Tagged("AuditError")<{ getContextEntries: boolean }>() {}
+    const fault = new AuditError({ getContextEntries: true }).withMeta({ actor: "ada" })
+
+    expect(fault.getContextEntries).toBe(true)
+    expect(getContextEntries(fault)).toEqual([
+      { depth: 0, key: "actor", tag: "AuditError", value: "ada" },
+    ])
+  })
+
+  it("keeps __proto__ keys as plain data", () => {
+    const meta = JSON.parse('{"__proto__": "x"}') as Record<string, string>
+    const context = new ApiError().withMeta(meta).getContext()
+
+    expect(Object.getPrototypeOf(context)).toBe(Object.prototype)
+    expect(Object.hasOwn(context, "__proto__")).toBe(true)
+  })
+
+  it("works on faults rebuilt from the wire", () => {
+    const fault = createChain()
+    const revived = fromSerializable(fault.toSerializable())
+
+    expect(getContextEntries(revived)).toEqual(getContextEntries(fault))
+    expect(revived.getContext({ strategy: "collect" })).toEqual(
+      fault.getContext({ strategy: "collect" })
+    )
+  })
+})
+
 describe("isFault", () => {
   it("returns true for Fault instances", () => {
     expect(isFault(new ExampleFault())).toBe(true)
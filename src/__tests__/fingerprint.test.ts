@@ -0,0 +1,118 @@
+import { describe, expect, it } from "bun:test"
+
+import type { SerializableFault } from "../types"
+import { fingerprint, fromSerializable, registry, Tagged } from "../index"
+
+class NotFoundError extends Tagged("NotFoundError")<{ resource: string; id: string }>() {}
+class DatabaseError extends Tagged("DatabaseError")<{ query: string }>() {}
+
+const AppFault = registry({ DatabaseError, NotFoundError })
+
+function createNotFound(id: string): NotFoundError {
+  return new NotFoundError({ id, resource: "user" })
+}
+
+// `create` is kept out of tail position: JavaScriptCore drops tail-calling
+// frames from stacks, which would hide these call sites.
+function findUser(): NotFoundError {
+  return AppFault.create("NotFoundError", { id: "1", resource: "user" }).withMeta({ lookup: 1 })
+}
+
+function findOrder(): NotFoundError {
+  return AppFault.create("NotFoundError", { id: "1", resource: "user" }).withMeta({ lookup: 2 })
+}
+
+function transport(fault: NotFoundError): SerializableFault {
+  // oxlint-disable-next-line unicorn/prefer-structured-clone -- simulates a JSON transport boundary.
+  return JSON.parse(JSON.stringify(fault)) as SerializableFault
+}
+
+describe("fingerprint", () => {
+  it("is a 16-digit hex hash that ignores messages", () => {
+    const first = createNotFound("1").withMessage("User 1 not found")
+    const second = createNotFound("2").withMessage("User 2 not found")
+
+    expect(fingerprint(first)).toMatch(/^[\da-f]{16}$/u)
+    expect(fingerprint(first)).toBe(fingerprint(second))
+  })
+
+  it("depends on the tag chain", () => {
+    const plain = createNotFound("1")
+    const wrapped = createNotFound("1").withCause(new DatabaseError({ query: "q" }))
+
+    expect(fingerprint(plain, { frames: 0 })).not.toBe(fingerprint(wrapped, { frames: 0 }))
+  })
+
+  it("includes allowlisted payload fields", () => {
+    const first = createNotFound("1")
+    const second = createNotFound("2")
+
+    expect(fingerprint(first, { fields: ["resource"] })).toBe(
+      fingerprint(second, { fields: ["resource"] })
+    )
+    expect(fingerprint(first, { fields: ["id"] })).not.toBe(fingerprint(second, { fields: ["id"] }))
+    expect(fingerprint(first, { fields: ["missing"] })).toBe(fingerprint(first))
+  })
+
+  it("depends on where the fault was raised unless frames are disabled", () => {
+    const here = createNotFound("1")
+    const there = [1].map(() => createNotFound("1"))[0]
+
+    expect(fingerprint(here, { frames: 0 })).toBe(
+      fingerprint(new NotFoundError({ id: "1", resource: "user" }), { frames: 0 })
+    )
+    expect(fingerprint(here, { frames: 20 })).not.toBe(fingerprint(there, { frames: 20 }))
+  })
+
+  it("skips Faultier's own frames so registry call sites differ", () => {
+    const options = { frames: 2 }
+
+    expect(fingerprint(findUser(), options)).toBe(fingerprint(findUser(), options))
+    expect(fingerprint(findUser(), options)).not.toBe(fingerprint(findOrder(), options))
+  })
+
+  it("matches after a wire round trip", () => {
+    const fault = createNotFound("1")
+      .withMeta({ requestId: "r-1" })
+      .withCause(new DatabaseError({ query: "q" }))
+    const options = { fields: ["resource"] }
+
+    expect(fingerprint(fromSerializable(transport(fault)), options)).toBe(
+      fingerprint(fault, options)
+    )
+    expect(AppFault.fingerprint(AppFault.fromSerializable(transport(fault)), options)).toBe(
+      AppFault.fingerprint(fault, options)
+    )
+  })
+
+  it("is deterministic for a fixed input", () => {
+    const json: SerializableFault = {
+      __faultier: true,
+      _tag: "NotFoundError",
+      id: "1",
+      name: "NotFoundError",
+      resource: "user",
+      stack: "NotFoundError: x\n    at findUser (/srv/users.ts:1:1)",
+    }
+
+    expect(fingerprint(fromSerializable(json), { fields: ["resource"] })).toBe("3d4877fd880bdc0e")
+  })
+
+  it("leaves fingerprint free as a field name", () => {
+    class DeviceError extends Tagged("DeviceError")<{ fingerprint: string }>() {}
+    const fault = new DeviceError({ fingerprint: "ab:cd" })
+
+    expect(fromSerializable(fault.toSerializable())).toMatchObject({ fingerprint: "ab:cd" })
+    expect(fingerprint(fault, { fields: ["fingerprint"] })).not.toBe(
+      fingerprint(new DeviceError({ fingerprint: "ef:01" }), { fields: ["fingerprint"] })
+    )
+  })
+
+  it("fingerprints values that are not faults", () => {
+    const error = new Error("boom")
+
+    expect(AppFault.fingerprint(error)).toBe(AppFault.fingerprint(error))
+    expect(AppFault.fingerprint("oops")).toBe(AppFault.fingerprint(42))
+    expect(AppFault.fingerprint("oops")).not.toBe(AppFault.fingerprint(error, { frames: 0 }))
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test"
+import { inspect } from "node:util"
+
+import { formatFault, Tagged } from "../index"
+
+class BatchError extends Tagged("BatchError").aggregate<{ job: string }>() {}
+class DatabaseError extends Tagged("DatabaseError")<{ query: string }>() {}
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+
+function createChain(): NotFoundError {
+  return new NotFoundError({ id: "42" })
+    .withDescription("User 42 not found", "Query returned 0 rows")
+    .withMeta({ requestId: "r1" })
+    .withCause(new DatabaseError({ query: "SELECT 1" }).withCause(new Error("ECONNREFUSED")))
+}
+
+// ANSI sequences are stripped so assertions read like the plain rendering.
+function stripAnsi(text: string): string {
+  // oxlint-disable-next-line no-control-regex -- matches ANSI escape sequences.
+  return text.replaceAll(/\u001B\[\d+m/gu, "")
+}
+
+describe("formatFault", () => {
+  it("renders the cause chain as a tree", () => {
+    expect(formatFault(createChain(), { stack: false })).toBe(
+      [
+        "NotFoundError: User 42 not found",
+        "│  details: Query returned 0 rows",
+        '│  id: "42"',
+        '│  meta.requestId: "r1"',
+        "└─ DatabaseError",
+        '   │  query: "SELECT 1"',
+        "   └─ Error: ECONNREFUSED",
+      ].join("\n")
+    )
+  })
+
+  it("omits payload fields and meta on request", () => {
+    expect(formatFault(createChain(), { meta: false, payload: false, stack: false })).toBe(
+      [
+        "NotFoundError: User 42 not found",
+        "│  details: Query returned 0 rows",
+        "└─ DatabaseError",
+        "   └─ Error: ECONNREFUSED",
+      ].join("\n")
+    )
+  })
+
+  it("includes each layer's top stack frames", () => {
+    const fault = new TimeoutError().withCause(new Error("boom"))
+    const lines = formatFault(fault, { stack: 1 }).split("\n")
+
+    expect(lines).toHaveLength(4)
+    expect(lines[1]).toMatch(/^│ {2}at .*format\.test\.ts:\d+:\d+\)?$/u)
+    expect(lines[3]).toMatch(/^ {6}at .*format\.test\.ts:\d+:\d+\)?$/u)
+    expect(formatFault(fault, { stack: false }).split("\n")).toHaveLength(2)
+  })
+
+  it("branches at aggregates", () => {
+    const batch = new BatchError({ job: "upload" })
+      .withErrors([new TimeoutError(), "oops"])
+      .withCause(new Error("root"))
+
+    expect(formatFault(batch, { stack: false })).toBe(
+      ["BatchError", '│  job: "upload"', "├─ TimeoutError", "├─ oops", "└─ Error: root"].join("\n")
+    )
+  })
+
+  it("renders thrown non-error values", () => {
+    const fault = new TimeoutError().withCause({ count: 1 })
+
+    expect(formatFault(fault, { stack: false })).toBe('TimeoutError\n└─ {"count":1}')
+  })
+
+  it("adds ANSI colors on request", () => {
+    const colored = formatFault(createChain(), { color: true, stack: false })
+
+    expect(colored).toContain("\u001B[")
+    expect(stripAnsi(colored)).toBe(formatFault(createChain(), { stack: false }))
+  })
+})
+
+describe("inspect hook", () => {
+  it("leaves format free as a field name", () => {
+    class ExportError extends Tagged("ExportError")<{ format: string }>() {}
+    const fault = new ExportError({ format: "csv" })
+
+    expect(fault.format).toBe("csv")
+    expect(formatFault(fault, { stack: false })).toBe('ExportError\n   format: "csv"')
+  })
+
+  it("renders faults with formatFault() in util.inspect and console.log", () => {
+    const fault = createChain()
+
+    expect(inspect(fault)).toBe(formatFault(fault))
+    expect(inspect(fault, { colors: true })).toBe(formatFault(fault, { color: true }))
+  })
+})
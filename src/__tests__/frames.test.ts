@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test"
+
+import type { SerializableFault } from "../types"
+import { frames, fromSerializable, registry, Tagged } from "../index"
+
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+
+const AppFault = registry({ NotFoundError })
+
+function createNotFound(): NotFoundError {
+  return new NotFoundError({ id: "1" })
+}
+
+describe("frames", () => {
+  it("parses the fault's own stack", () => {
+    const parsed = frames(createNotFound())
+
+    expect(parsed[0]).toMatchObject({
+      file: expect.stringContaining("frames.test.ts"),
+      isInternal: false,
+      isNative: false,
+      line: expect.any(Number),
+    })
+  })
+
+  it("applies exclusions", () => {
+    const fault = createNotFound()
+    const own = frames(fault, { exclude: [(frame) => !frame.file?.includes("frames.test.ts")] })
+
+    expect(own.length).toBeGreaterThan(0)
+    expect(own.every((frame) => frame.file?.includes("frames.test.ts"))).toBe(true)
+    expect(frames(fault, { exclude: ["faultier"] })).toEqual(frames(fault))
+  })
+
+  it("parses native errors and leaves frames free as a field name", () => {
+    class RenderError extends Tagged("RenderError")<{ frames: number }>() {}
+    const fault = new RenderError({ frames: 24 })
+
+    expect(frames(new Error("boom"))[0]?.file).toContain("frames.test.ts")
+    expect(frames("boom")).toEqual([])
+    expect(fromSerializable(fault.toSerializable())).toMatchObject({ frames: 24 })
+  })
+
+  it("returns no frames without a stack", () => {
+    const fault = createNotFound()
+    fault.stack = undefined
+
+    expect(frames(fault)).toEqual([])
+  })
+})
+
+describe("stackFormat", () => {
+  it("writes only the stack string by default", () => {
+    const json = createNotFound().toSerializable()
+
+    expect(json.stack).toBeString()
+    expect(json.__frames).toBeUndefined()
+  })
+
+  it("writes frames instead of or next to the stack", () => {
+    const fault = createNotFound()
+    const framesOnly = fault.toSerializable({ stackFormat: "frames" })
+    const both = fault.toSerializable({ stackFormat: "both" })
+
+    expect(framesOnly.stack).toBeUndefined()
+    expect(framesOnly.__frames).toEqual(frames(fault))
+    expect(both.stack).toBe(fault.stack)
+    expect(both.__frames).toEqual(frames(fault))
+  })
+
+  it("filters serialized frames but never the stack string", () => {
+    const fault = createNotFound()
+    const json = AppFault.toSerializable(fault, {
+      frames: { exclude: [() => true] },
+      stackFormat: "both",
+    })
+
+    expect(json.stack).toBe(fault.stack)
+    expect(json.__frames).toBeUndefined()
+  })
+
+  it("applies stack redaction to frames", () => {
+    const fault = createNotFound()
+
+    expect(
+      AppFault.toSerializable(fault, { redact: "public", stackFormat: "frames" }).__frames
+    ).toBeUndefined()
+    expect(
+      AppFault.toSerializable(fault, { redact: { stack: { frames: 1 } }, stackFormat: "frames" })
+        .__frames
+    ).toEqual(frames(fault).slice(0, 1))
+  })
+
+  it("rebuilds a stack from frames on deserialize", () => {
+    const fault = createNotFound().withMessage("User 1 not found")
+    const restored = AppFault.fromSerializable(fault.toSerializable({ stackFormat: "frames" }))
+
+    expect(restored.stack).toStartWith("NotFoundError: User 1 not found\n    at ")
+    expect(frames(restored)).toEqual(frames(fault))
+  })
+
+  it("prefers the stack string when both are present", () => {
+    const fault = createNotFound()
+    const restored = fromSerializable(fault.toSerializable({ stackFormat: "both" }))
+
+    expect(restored.stack).toBe(fault.stack)
+  })
+
+  it("rejects payloads whose frames are not an array", () => {
+    const json = { __faultier: true, __frames: "nope", _tag: "NotFoundError", name: "X" }
+
+    expect(() => AppFault.fromSerializable(json as unknown as SerializableFault)).toThrow(
+      "Invalid Faultier payload: __frames must be an array"
+    )
+  })
+})
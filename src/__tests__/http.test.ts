@@ -0,0 +1,150 @@
+import { afterAll, describe, expect, it } from "bun:test"
+
+import { HttpTransportError } from "../errors"
+import { FAULT_CONTENT_TYPE, fromResponse, toResponse } from "../http"
+import { registry, Tagged } from "../index"
+
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+
+const AppFault = registry(
+  { NotFoundError, TimeoutError },
+  { http: { NotFoundError: { status: 404 } } }
+)
+
+const server = Bun.serve({
+  fetch: () => toResponse(AppFault, AppFault.create("NotFoundError", { id: "123" })),
+  hostname: "127.0.0.1",
+  port: 0,
+})
+
+afterAll(async () => {
+  await server.stop(true)
+})
+
+describe("toResponse", () => {
+  it("builds a Faultier response with the tag's HTTP status", async () => {
+    const fault = AppFault.create("NotFoundError", { id: "123" }).withDescription("Missing user")
+    const response = toResponse(AppFault, fault)
+
+    expect(response.status).toBe(404)
+    expect(response.headers.get("content-type")).toBe(FAULT_CONTENT_TYPE)
+    expect(await response.json()).toEqual(fault.toSerializable())
+  })
+
+  it("applies status overrides and extra headers", () => {
+    const response = toResponse(AppFault, AppFault.create("TimeoutError"), {
+      headers: { "content-type": "text/plain", "retry-after": "5" },
+      status: 503,
+    })
+
+    expect(response.status).toBe(503)
+    expect(response.headers.get("retry-after")).toBe("5")
+    expect(response.headers.get("content-type")).toBe(FAULT_CONTENT_TYPE)
+    expect(toResponse(AppFault, AppFault.create("TimeoutError")).status).toBe(500)
+  })
+
+  it("is available on the registry", async () => {
+    const fault = AppFault.create("NotFoundError", { id: "123" })
+    const response = AppFault.toResponse(fault, { status: 410 })
+
+    expect(response.status).toBe(410)
+    expect(await AppFault.fromResponse(response)).toBeInstanceOf(NotFoundError)
+    expect(AppFault.toResponse(fault).status).toBe(404)
+  })
+
+  it("serializes non-registry errors through the registry envelope", async () => {
+    const response = toResponse(AppFault, new Error("boom"))
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toMatchObject({ _tag: "UnknownError", message: "boom" })
+  })
+})
+
+describe("fromResponse", () => {
+  it("reconstructs the registered subclass", async () => {
+    const fault = AppFault.create("NotFoundError", { id: "123" }).withCause(
+      AppFault.create("TimeoutError")
+    )
+    const restored = await fromResponse(AppFault, toResponse(AppFault, fault))
+
+    expect(restored).toBeInstanceOf(NotFoundError)
+    expect((restored as NotFoundError).id).toBe("123")
+    expect(restored.cause).toBeInstanceOf(TimeoutError)
+  })
+
+  it("round-trips a fault through Bun.serve on localhost", async () => {
+    const restored = await fromResponse(AppFault, await fetch(server.url))
+
+    expect(restored).toBeInstanceOf(NotFoundError)
+    expect((restored as NotFoundError).id).toBe("123")
+  })
+
+  it("accepts content types with parameters", async () => {
+    const response = Response.json(AppFault.create("TimeoutError").toSerializable(), {
+      headers: { "content-type": `${FAULT_CONTENT_TYPE}; charset=utf-8` },
+    })
+
+    expect(await fromResponse(AppFault, response)).toBeInstanceOf(TimeoutError)
+  })
+
+  it("reconstructs problem+json bodies through the registry", async () => {
+    const problem = AppFault.toProblemDetails(AppFault.create("NotFoundError", { id: "123" }))
+    const response = Response.json(problem, {
+      headers: { "content-type": "application/problem+json" },
+      status: 404,
+    })
+
+    expect(await fromResponse(AppFault, response)).toBeInstanceOf(NotFoundError)
+  })
+
+  it("returns a transport fault for non-fault bodies", async () => {
+    const restored = await fromResponse(
+      AppFault,
+      new Response("<h1>Bad Gateway</h1>", {
+        headers: { "content-type": "text/html" },
+        status: 502,
+        statusText: "Bad Gateway",
+      })
+    )
+
+    expect(restored).toBeInstanceOf(HttpTransportError)
+    expect(restored).toMatchObject({ status: 502, statusText: "Bad Gateway" })
+    expect(restored.cause).toBe("<h1>Bad Gateway</h1>")
+  })
+
+  it("returns a transport fault for malformed Faultier payloads", async () => {
+    const invalidJson = new Response("{", { headers: { "content-type": FAULT_CONTENT_TYPE } })
+    const invalidPayload = Response.json(
+      { _tag: "NotFoundError" },
+      { headers: { "content-type": FAULT_CONTENT_TYPE } }
+    )
+
+    const fromInvalidJson = await fromResponse(AppFault, invalidJson)
+    const fromInvalidPayload = await fromResponse(AppFault, invalidPayload)
+
+    expect(fromInvalidJson).toBeInstanceOf(HttpTransportError)
+    expect(fromInvalidJson.cause).toBeInstanceOf(SyntaxError)
+    expect(fromInvalidPayload).toBeInstanceOf(HttpTransportError)
+    expect(fromInvalidPayload.cause).toBeInstanceOf(Error)
+  })
+
+  it("returns a transport fault when the body cannot be read", async () => {
+    const reset = new Error("connection reset")
+    const body = new ReadableStream({
+      start(controller) {
+        controller.error(reset)
+      },
+    })
+    const response = new Response(body, {
+      headers: { "content-type": FAULT_CONTENT_TYPE },
+      status: 500,
+    })
+
+    const restored = await AppFault.fromResponse(response)
+
+    expect(restored).toBeInstanceOf(HttpTransportError)
+    expect(restored).toMatchObject({ status: 500 })
+    expect(restored.cause).toBe(reset)
+  })
+})
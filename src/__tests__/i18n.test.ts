@@ -0,0 +1,109 @@
+import { describe, expect, it } from "bun:test"
+
+import type { CompleteMessageCatalogs } from "../types"
+import { merge, registry, Tagged } from "../index"
+
+class NotFoundError extends Tagged("NotFoundError")<{ resource: string; id: string }>() {}
+class QuotaError extends Tagged("QuotaError")<{ count: number; plan: string }>() {}
+class StorageQuotaError extends QuotaError.extend("StorageQuotaError")<{ bytes: number }>() {}
+class RateLimitError extends Tagged("RateLimitError")<{ seconds: number }>() {}
+
+const faults = { NotFoundError, QuotaError }
+
+const messages = {
+  de: {
+    NotFoundError: "{resource} {id} wurde nicht gefunden",
+    QuotaError: "Kontingent erreicht",
+  },
+  en: {
+    NotFoundError: "{resource} {id} was not found (trace {meta.traceId})",
+    QuotaError:
+      "{count, plural, =0 {No files left} one {# file left} other {# files left}} on {plan, select, pro {Pro} other {your plan}}",
+  },
+  "en-GB": {
+    NotFoundError: (fault: NotFoundError, locale: string) => `${locale}: no ${fault.resource}`,
+    QuotaError: "Quota reached",
+  },
+} satisfies CompleteMessageCatalogs<typeof faults>
+
+const AppFault = registry(faults, { fallbackLocale: "en", messages })
+
+describe("registry.localize", () => {
+  it("interpolates payload fields and meta", () => {
+    const fault = new NotFoundError({ id: "42", resource: "User" }).withMeta({ traceId: "t-1" })
+
+    expect(AppFault.localize(fault, "en")).toBe("User 42 was not found (trace t-1)")
+    expect(AppFault.localize(fault, "de")).toBe("User 42 wurde nicht gefunden")
+  })
+
+  it("formats plural and select arguments", () => {
+    expect(AppFault.localize(new QuotaError({ count: 0, plan: "pro" }), "en")).toBe(
+      "No files left on Pro"
+    )
+    expect(AppFault.localize(new QuotaError({ count: 1, plan: "free" }), "en")).toBe(
+      "1 file left on your plan"
+    )
+    expect(AppFault.localize(new QuotaError({ count: 1200, plan: "pro" }), "en")).toBe(
+      "1,200 files left on Pro"
+    )
+  })
+
+  it("walks locale fallback chains", () => {
+    const fault = new NotFoundError({ id: "42", resource: "User" })
+
+    expect(AppFault.localize(fault, "de-CH")).toBe("User 42 wurde nicht gefunden")
+    expect(AppFault.localize(fault, ["fr", "de"])).toBe("User 42 wurde nicht gefunden")
+    expect(AppFault.localize(fault, "fr")).toBe("User 42 was not found (trace {meta.traceId})")
+  })
+
+  it("passes the resolved locale to function entries", () => {
+    const fault = new NotFoundError({ id: "42", resource: "User" })
+
+    expect(AppFault.localize(fault, "en-GB-oxendict")).toBe("en-GB: no User")
+  })
+
+  it("uses the nearest ancestor's entry for extended tags", () => {
+    const fault = new StorageQuotaError({ bytes: 10, count: 2, plan: "free" })
+
+    expect(AppFault.localize(fault, "de")).toBe("Kontingent erreicht")
+  })
+
+  it("returns undefined for non-members and missing entries", () => {
+    const Partial = registry({ NotFoundError }, { messages: { en: {} } })
+    const fault = new NotFoundError({ id: "42", resource: "User" })
+
+    expect(AppFault.localize(new RateLimitError({ seconds: 1 }), "en")).toBeUndefined()
+    expect(AppFault.localize(new Error("x"), "en")).toBeUndefined()
+    expect(Partial.localize(fault, "en")).toBeUndefined()
+  })
+
+  it("keeps quoted braces and apostrophes literal", () => {
+    const Quoted = registry(
+      { NotFoundError },
+      { messages: { en: { NotFoundError: "'{id}' isn''t {id}; {constructor}" } } }
+    )
+
+    expect(Quoted.localize(new NotFoundError({ id: "1", resource: "User" }), "en")).toBe(
+      "{id} isn't 1; {constructor}"
+    )
+  })
+
+  it("merges catalogs per locale with the first entry winning", () => {
+    const Limits = registry(
+      { RateLimitError },
+      {
+        fallbackLocale: "de",
+        messages: {
+          de: { RateLimitError: "Warte {seconds} Sekunden" },
+          en: { RateLimitError: "Wait {seconds} seconds" },
+        },
+      }
+    )
+    const Merged = merge(AppFault, Limits)
+
+    expect(Merged.localize(new RateLimitError({ seconds: 3 }), "en")).toBe("Wait 3 seconds")
+    expect(Merged.localize(new NotFoundError({ id: "1", resource: "User" }), "fr")).toBe(
+      "User 1 was not found (trace {meta.traceId})"
+    )
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "bun:test"
 
-import { matchTag, matchTags, Tagged } from "../index"
+import { NonExhaustiveMatchError } from "../errors"
+import { findCause, match, matchCauseTags, matchTag, matchTags, Tagged } from "../index"
 
 class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
 class TimeoutError extends Tagged("TimeoutError")() {}
@@ -17,6 +18,16 @@ function asCoreError(error: CoreError): CoreError {
   return error
 }
 
+class DatabaseError extends Tagged("DatabaseError")<{ query: string }>() {}
+class ConnectionError extends DatabaseError.extend("ConnectionError")<{ host: string }>() {}
+class QueryTimeoutError extends DatabaseError.extend("QueryTimeoutError")() {}
+
+type DataError = ConnectionError | QueryTimeoutError | TimeoutError
+
+function asDataError(error: DataError): DataError {
+  return error
+}
+
 describe("matchTag", () => {
   it("calls handler when tag matches", () => {
     const error = new NotFoundError({ id: "123" })
@@ -136,3 +147,213 @@ describe("matchTags", () => {
     expect(result).toBe("timeout")
   })
 })
+
+describe("matchTags with extended tags", () => {
+  it("dispatches descendants to a parent tag handler", () => {
+    const result = matchTags(asDataError(new QueryTimeoutError({ query: "q" })), {
+      DatabaseError: (e) => `database: ${e._tag}`,
+      TimeoutError: () => "timeout",
+    })
+
+    expect(result).toBe("database: QueryTimeoutError")
+  })
+
+  it("prefers the most specific handler", () => {
+    const handlers = {
+      ConnectionError: (e: ConnectionError) => `connection: ${e.host}`,
+      DatabaseError: () => "database",
+    }
+
+    expect(matchTags(asDataError(new ConnectionError({ host: "h", query: "q" })), handlers)).toBe(
+      "connection: h"
+    )
+    expect(matchTags(asDataError(new QueryTimeoutError({ query: "q" })), handlers)).toBe("database")
+  })
+
+  it("keeps the fluent matcher and matchTag exact", () => {
+    const error = new ConnectionError({ host: "h", query: "q" })
+
+    expect(
+      match(asDataError(error))
+        .with("QueryTimeoutError", () => "timeout")
+        .run()
+    ).toBe(undefined)
+    expect(matchTag(asDataError(error), "QueryTimeoutError", () => "timeout")).toBeUndefined()
+  })
+})
+
+describe("match", () => {
+  it("dispatches to the handler registered for the tag", () => {
+    const error = asAppError(new NotFoundError({ id: "123" }))
+
+    const result = match(error)
+      .with("NotFoundError", (e) => e.id)
+      .with(["TimeoutError", "PaymentError"], () => "other")
+      .exhaustive()
+
+    expect(result).toBe("123")
+  })
+
+  it("dispatches tag lists to a shared handler", () => {
+    const error = asAppError(new PaymentError({ invoiceId: "inv_1" }))
+    let handlerInput: unknown
+
+    const result = match(error)
+      .with("NotFoundError", () => 404)
+      .with(["TimeoutError", "PaymentError"], (e) => {
+        handlerInput = e
+        return 503
+      })
+      .exhaustive()
+
+    expect(result).toBe(503)
+    expect(handlerInput).toBe(error)
+  })
+
+  it("calls otherwise when no handler matches", () => {
+    const error = asAppError(new TimeoutError())
+    let fallbackInput: AppError | undefined
+
+    const result = match(error)
+      .with("NotFoundError", () => "not-found")
+      .otherwise((fallbackError) => {
+        fallbackInput = fallbackError
+        return "fallback"
+      })
+
+    expect(result).toBe("fallback")
+    expect(fallbackInput).toBe(error)
+  })
+
+  it("returns undefined from run when no handler matches", () => {
+    const error = asAppError(new TimeoutError())
+
+    expect(
+      match(error)
+        .with("NotFoundError", () => "not-found")
+        .run()
+    ).toBeUndefined()
+    expect(
+      match(error)
+        .with("TimeoutError", () => "timeout")
+        .run()
+    ).toBe("timeout")
+  })
+
+  it("keeps intermediate builders independent", () => {
+    const error = asCoreError(new TimeoutError())
+    const base = match(error).with("NotFoundError", () => "not-found")
+
+    const handled = base.with("TimeoutError", () => "timeout").run()
+    const unhandled = base.run()
+
+    expect(handled).toBe("timeout")
+    expect(unhandled).toBeUndefined()
+  })
+
+  it("throws NonExhaustiveMatchError when a value escapes the union at runtime", () => {
+    const error = new PaymentError({ invoiceId: "inv_1" }) as unknown as CoreError
+
+    expect(() =>
+      match(error)
+        .with("NotFoundError", () => "not-found")
+        .with("TimeoutError", () => "timeout")
+        .exhaustive()
+    ).toThrow(NonExhaustiveMatchError)
+  })
+
+  it("ignores inherited properties when dispatching", () => {
+    class ToStringError extends Tagged("toString")() {}
+    const error = new ToStringError() as ToStringError | TimeoutError
+
+    const result = match(error)
+      .with("TimeoutError", () => "timeout")
+      .otherwise(() => "fallback")
+
+    expect(result).toBe("fallback")
+  })
+})
+
+describe("findCause", () => {
+  it("finds the first fault in the chain by constructor or tag", () => {
+    const root = new NotFoundError({ id: "root" })
+    const middle = new TimeoutError().withCause(root)
+    const head = new NotFoundError({ id: "head" }).withCause(middle)
+
+    expect(findCause(head, TimeoutError)).toBe(middle)
+    expect(findCause(head, "TimeoutError")).toBe(middle)
+    expect(findCause(head, NotFoundError)).toBe(head)
+    expect(findCause(middle, "NotFoundError")).toBe(root)
+  })
+
+  it("returns undefined when no fault in the chain matches", () => {
+    const head = new TimeoutError().withCause(new Error("native"))
+
+    expect(findCause(head, PaymentError)).toBeUndefined()
+    expect(findCause(head, "Error")).toBeUndefined()
+  })
+
+  it("searches through native Error.cause links", () => {
+    const root = new NotFoundError({ id: "root" })
+    const head = new TimeoutError().withCause(new Error("driver", { cause: root }))
+
+    expect(findCause(head, NotFoundError)).toBe(root)
+    expect(findCause(head, "NotFoundError")).toBe(root)
+  })
+})
+
+describe("matchCauseTags", () => {
+  it("dispatches on the first fault with a handled tag", () => {
+    const root = new PaymentError({ invoiceId: "inv_1" })
+    const head = new TimeoutError().withCause(new NotFoundError({ id: "123" }).withCause(root))
+    const calls: string[] = []
+
+    const result = matchCauseTags(head, {
+      NotFoundError: (fault) => {
+        calls.push(fault._tag)
+        return "not-found"
+      },
+      PaymentError: () => "payment",
+    })
+
+    expect(result).toBe("not-found")
+    expect(calls).toEqual(["NotFoundError"])
+  })
+
+  it("prefers the head when it has a handler", () => {
+    const head = new TimeoutError().withCause(new NotFoundError({ id: "123" }))
+
+    const result = matchCauseTags(head, {
+      NotFoundError: () => "not-found",
+      TimeoutError: () => "timeout",
+    })
+
+    expect(result).toBe("timeout")
+  })
+
+  it("skips undefined handlers and inherited properties", () => {
+    class ToStringError extends Tagged("toString")() {}
+    const head = new ToStringError().withCause(new TimeoutError())
+
+    const result = matchCauseTags(head, {
+      NotFoundError: undefined,
+      TimeoutError: () => "timeout",
+    })
+
+    expect(result).toBe("timeout")
+  })
+
+  it("calls fallback with the head when nothing in the chain is handled", () => {
+    const head = new TimeoutError().withCause(new Error("native"))
+    let fallbackInput: unknown
+
+    const result = matchCauseTags(head, { PaymentError: () => "payment" }, (error) => {
+      fallbackInput = error
+      return "fallback"
+    })
+
+    expect(result).toBe("fallback")
+    expect(fallbackInput).toBe(head)
+    expect(matchCauseTags(head, { PaymentError: () => "payment" })).toBeUndefined()
+  })
+})
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "bun:test"
+
+import type { SerializableFault, WireMigration } from "../types"
+import { ReservedFieldError } from "../errors"
+import { merge, registry, Tagged } from "../index"
+
+class AccountNotFoundError extends Tagged("AccountNotFoundError")<{ accountId: string }>() {}
+class LookupError extends Tagged("LookupError")<{ query: string }>() {}
+class CacheLookupError extends LookupError.extend("CacheLookupError")() {}
+
+// Version 1 renamed NotFoundError to UserNotFoundError and its `id` field to `userId`.
+// Version 2 renamed UserNotFoundError to AccountNotFoundError and `userId` to `accountId`,
+// and renamed SearchError (parent of CacheLookupError) to LookupError.
+const migrations: WireMigration[] = [
+  {
+    fields: {
+      AccountNotFoundError: ({ userId, ...fields }) => ({ ...fields, accountId: userId }),
+    },
+    tags: { SearchError: "LookupError", UserNotFoundError: "AccountNotFoundError" },
+    version: 2,
+  },
+  {
+    fields: { UserNotFoundError: ({ id, ...fields }) => ({ ...fields, userId: id }) },
+    tags: { NotFoundError: "UserNotFoundError" },
+    version: 1,
+  },
+]
+
+// Payloads stored before the registry was versioned have no `__v`.
+const AppFault = registry(
+  { AccountNotFoundError, CacheLookupError, LookupError },
+  { migrations, unversionedAs: 0 }
+)
+
+function payload(tag: string, fields: Record<string, string>, v?: number): SerializableFault {
+  return {
+    __faultier: true,
+    _tag: tag,
+    message: `${tag} message`,
+    name: tag,
+    ...fields,
+    ...(v !== undefined && { __v: v }),
+  }
+}
+
+describe("wire versioning", () => {
+  it("writes the registry version as __v", () => {
+    const fault = new AccountNotFoundError({ accountId: "a1" })
+    const unversioned = registry({ AccountNotFoundError })
+
+    expect(AppFault.toSerializable(fault).__v).toBe(2)
+    expect(registry({ AccountNotFoundError }, { version: 5 }).toSerializable(fault).__v).toBe(5)
+    expect(unversioned.toSerializable(fault)).not.toHaveProperty("__v")
+    expect(fault.toSerializable()).not.toHaveProperty("__v")
+  })
+
+  it("upgrades unversioned payloads through every migration in order", () => {
+    const fault = AppFault.fromSerializable(payload("NotFoundError", { id: "42" }))
+
+    expect(fault).toBeInstanceOf(AccountNotFoundError)
+    expect(fault.name).toBe("AccountNotFoundError")
+    expect(fault.message).toBe("NotFoundError message")
+    expect((fault as AccountNotFoundError).accountId).toBe("42")
+    expect(fault).not.toHaveProperty("id")
+    expect(fault).not.toHaveProperty("userId")
+  })
+
+  it("treats payloads without __v as current by default", () => {
+    const Current = registry({ AccountNotFoundError }, { migrations })
+    const fault = new AccountNotFoundError({ accountId: "a1" })
+    const text = JSON.stringify(fault)
+    const json = JSON.parse(text) as SerializableFault
+
+    expect(json).not.toHaveProperty("__v")
+    expect((Current.fromSerializable(json) as AccountNotFoundError).accountId).toBe("a1")
+    expect((AppFault.fromSerializable(json) as AccountNotFoundError).accountId).toBeUndefined()
+  })
+
+  it("runs only the migrations newer than the payload's version", () => {
+    const fromV1 = AppFault.fromSerializable(payload("UserNotFoundError", { userId: "7" }, 1))
+    const current = AppFault.fromSerializable(
+      payload("AccountNotFoundError", { accountId: "9" }, 2)
+    )
+
+    expect((fromV1 as AccountNotFoundError).accountId).toBe("7")
+    expect((current as AccountNotFoundError).accountId).toBe("9")
+  })
+
+  it("round-trips payloads written by the current version unchanged", () => {
+    const fault = new AccountNotFoundError({ accountId: "a1" }).withMeta({ requestId: "r1" })
+    const revived = AppFault.fromSerializable(AppFault.toSerializable(fault))
+
+    expect(revived).toBeInstanceOf(AccountNotFoundError)
+    expect(AppFault.toSerializable(revived)).toEqual(AppFault.toSerializable(fault))
+  })
+
+  it("treats problem details as current-version payloads", () => {
+    const fault = new AccountNotFoundError({ accountId: "a1" })
+    const revived = AppFault.fromProblemDetails(AppFault.toProblemDetails(fault))
+
+    expect((revived as AccountNotFoundError).accountId).toBe("a1")
+  })
+
+  it("renames parent tags so extended tags keep their lineage", () => {
+    const json = { ...payload("CacheLookupError", { query: "q" }), _ancestors: ["SearchError"] }
+    const fault = AppFault.fromSerializable(json)
+
+    expect(fault).toBeInstanceOf(CacheLookupError)
+    expect(fault._ancestors).toEqual(["LookupError"])
+  })
+
+  it("migrates faults in causes and aggregate children with the head's version", () => {
+    const json: SerializableFault = {
+      ...payload("SearchError", { query: "q" }, 0),
+      __errors: [{ kind: "fault", value: payload("NotFoundError", { id: "2" }) }],
+      cause: {
+        cause: { kind: "fault", value: payload("UserNotFoundError", { userId: "1" }, 1) },
+        kind: "error",
+        message: "wrapped",
+        name: "Error",
+      },
+    }
+
+    const fault = AppFault.fromSerializable(json)
+    const nested = (fault.cause as Error).cause
+
+    expect(fault).toBeInstanceOf(LookupError)
+    expect(nested).toBeInstanceOf(AccountNotFoundError)
+    expect((nested as AccountNotFoundError).accountId).toBe("1")
+  })
+
+  it("does not mutate the input payload", () => {
+    const json = payload("NotFoundError", { id: "42" })
+    const snapshot = structuredClone(json)
+
+    AppFault.fromSerializable(json)
+
+    expect(json).toEqual(snapshot)
+  })
+
+  it("leaves payloads from newer versions to the regular fallbacks", () => {
+    const fault = AppFault.fromSerializable(payload("AccountMissingError", { accountId: "3" }, 3))
+
+    expect(fault).not.toBeInstanceOf(AccountNotFoundError)
+    expect(fault._tag).toBe("AccountMissingError")
+  })
+
+  it("rejects invalid versions", () => {
+    expect(() => AppFault.fromSerializable(payload("LookupError", {}, -1))).toThrow(
+      "Invalid Faultier payload: __v must be a non-negative integer"
+    )
+    expect(() => registry({ LookupError }, { version: 1.5 })).toThrow(RangeError)
+    expect(() => registry({ LookupError }, { migrations: [{ version: 0 }] })).toThrow(RangeError)
+    expect(() =>
+      registry({ LookupError }, { migrations: [{ version: 1 }, { version: 1 }] })
+    ).toThrow("Duplicate migration for version 1")
+    expect(() => registry({ LookupError }, { migrations, version: 1 })).toThrow(
+      "Migration version 2 is newer than the registry version 1"
+    )
+    expect(() => registry({ LookupError }, { migrations, unversionedAs: 3 })).toThrow(
+      "Unversioned payload version 3 is newer than the registry version 2"
+    )
+    expect(() => registry({ LookupError }, { unversionedAs: -1 })).toThrow(RangeError)
+  })
+
+  it("reserves __v but not v as a field name", () => {
+    class VersionedError extends Tagged("VersionedError")<{ __v: number }>() {}
+    class VectorError extends Tagged("VectorError")<{ v: number }>() {}
+
+    expect(() => new VersionedError({ __v: 1 })).toThrow(ReservedFieldError)
+    expect(AppFault.fromSerializable(new VectorError({ v: 1.5 }).toSerializable())).toMatchObject({
+      v: 1.5,
+    })
+  })
+
+  it("keeps the first versioned registry's version and migrations when merging", () => {
+    class TimeoutError extends Tagged("TimeoutError")() {}
+    const merged = merge(registry({ TimeoutError }), AppFault, registry({}, { version: 9 }))
+
+    expect(merged.toSerializable(new TimeoutError()).__v).toBe(2)
+    expect(merged.fromSerializable(payload("NotFoundError", { id: "42" }))).toBeInstanceOf(
+      AccountNotFoundError
+    )
+  })
+
+  it("drops later registries' versions, migrations, and unversionedAs when merging", () => {
+    class RenamedError extends Tagged("RenamedError")() {}
+    const LaterFault = registry(
+      { RenamedError },
+      {
+        migrations: [{ tags: { OriginalError: "RenamedError" }, version: 5 }],
+        unversionedAs: 4,
+      }
+    )
+    const merged = merge(AppFault, LaterFault)
+
+    expect(merged.toSerializable(new RenamedError()).__v).toBe(2)
+    // AppFault's unversionedAs (0) applies, and LaterFault's rename never runs.
+    expect(merged.fromSerializable(payload("NotFoundError", { id: "42" }))).toBeInstanceOf(
+      AccountNotFoundError
+    )
+    expect(merged.fromSerializable(payload("OriginalError", {}, 4))._tag).toBe("OriginalError")
+    expect(LaterFault.fromSerializable(payload("OriginalError", {}, 4))).toBeInstanceOf(
+      RenamedError
+    )
+  })
+})
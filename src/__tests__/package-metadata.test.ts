@@ -1,7 +1,7 @@
 import { describe, expect, it } from "bun:test"
 
 describe("package metadata", () => {
-  it("publishes the root, errors, and types entrypoints", async () => {
+  it("publishes the root, arbitraries, codecs, errors, http, result, retry, sourcemap, testing, and types entrypoints", async () => {
     const packageJson: unknown = await Bun.file(
       new URL("../../package.json", import.meta.url)
     ).json()
@@ -11,10 +11,38 @@ describe("package metadata", () => {
         import: "./dist/index.js",
         types: "./dist/index.d.ts",
       },
+      "./arbitraries": {
+        import: "./dist/arbitraries.js",
+        types: "./dist/arbitraries.d.ts",
+      },
+      "./codecs": {
+        import: "./dist/codecs.js",
+        types: "./dist/codecs.d.ts",
+      },
       "./errors": {
         import: "./dist/errors.js",
         types: "./dist/errors.d.ts",
       },
+      "./http": {
+        import: "./dist/http.js",
+        types: "./dist/http.d.ts",
+      },
+      "./result": {
+        import: "./dist/result.js",
+        types: "./dist/result.d.ts",
+      },
+      "./retry": {
+        import: "./dist/retry.js",
+        types: "./dist/retry.d.ts",
+      },
+      "./sourcemap": {
+        import: "./dist/sourcemap.js",
+        types: "./dist/sourcemap.d.ts",
+      },
+      "./testing": {
+        import: "./dist/testing.js",
+        types: "./dist/testing.d.ts",
+      },
       "./types": {
         import: "./dist/types.js",
         types: "./dist/types.d.ts",
@@ -22,4 +50,14 @@ describe("package metadata", () => {
     })
     expect(packageJson).toHaveProperty("files", ["dist"])
   })
+
+  it("declares fast-check as an optional peer dependency for the arbitraries", async () => {
+    const packageJson: unknown = await Bun.file(
+      new URL("../../package.json", import.meta.url)
+    ).json()
+
+    expect(packageJson).not.toHaveProperty("dependencies")
+    expect(packageJson).toHaveProperty("peerDependencies", { "fast-check": "^4.0.0" })
+    expect(packageJson).toHaveProperty("peerDependenciesMeta", { "fast-check": { optional: true } })
+  })
 })
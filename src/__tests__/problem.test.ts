@@ -0,0 +1,186 @@
+import { describe, expect, it } from "bun:test"
+
+import { Fault, merge, registry, Tagged } from "../index"
+
+class NotFoundError extends Tagged("NotFoundError")<{ resource: string; id: string }>() {}
+class ValidationError extends Tagged("ValidationError")<{ type: string; status: number }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+
+const AppFault = registry(
+  { NotFoundError, TimeoutError, ValidationError },
+  {
+    http: {
+      NotFoundError: {
+        status: 404,
+        title: "Resource not found",
+        type: "https://errors.example.com/not-found",
+      },
+      ValidationError: { status: 422 },
+    },
+  }
+)
+
+describe("registry.toProblemDetails", () => {
+  it("builds problem details from per-tag HTTP metadata", () => {
+    const fault = AppFault.create("NotFoundError", { id: "123", resource: "user" })
+      .withDescription("User not found", "No row for id 123")
+      .withMeta({ traceId: "trace-1" })
+
+    expect(AppFault.toProblemDetails(fault, { instance: "/users/123" })).toEqual({
+      detail: "No row for id 123",
+      id: "123",
+      instance: "/users/123",
+      resource: "user",
+      status: 404,
+      tag: "NotFoundError",
+      title: "Resource not found",
+      type: "https://errors.example.com/not-found",
+    })
+  })
+
+  it("includes meta only when requested", () => {
+    const fault = AppFault.create("TimeoutError").withMeta({ traceId: "trace-1" })
+
+    expect(AppFault.toProblemDetails(fault)).not.toHaveProperty("meta")
+    expect(AppFault.toProblemDetails(fault, { meta: true }).meta).toEqual({ traceId: "trace-1" })
+  })
+
+  it("defaults unmapped tags to about:blank and status 500", () => {
+    const problem = AppFault.toProblemDetails(AppFault.create("TimeoutError"))
+
+    expect(problem).toEqual({
+      status: 500,
+      tag: "TimeoutError",
+      title: "TimeoutError",
+      type: "about:blank",
+    })
+    expect(AppFault.toProblemDetails(AppFault.create("TimeoutError"), { status: 504 }).status).toBe(
+      504
+    )
+  })
+
+  it("does not apply metadata to foreign faults or unknown values", () => {
+    class ForeignNotFoundError extends Tagged("NotFoundError")() {}
+
+    expect(AppFault.toProblemDetails(new ForeignNotFoundError()).status).toBe(500)
+    expect(AppFault.toProblemDetails(new Error("secret"))).toEqual({
+      status: 500,
+      tag: "UnknownError",
+      title: "UnknownError",
+      type: "about:blank",
+    })
+  })
+
+  it("escapes payload fields that collide with problem members", () => {
+    const fault = AppFault.create("ValidationError", { status: 3, type: "email" })
+
+    const problem = AppFault.toProblemDetails(fault)
+
+    expect(problem.type).toBe("about:blank")
+    expect(problem.status).toBe(422)
+    expect(problem.__payload_type).toBe("email")
+    expect(problem.__payload_status).toBe(3)
+  })
+})
+
+describe("registry.fromProblemDetails", () => {
+  it("round-trips registered faults through problem details", () => {
+    const fault = AppFault.create("NotFoundError", { id: "123", resource: "user" })
+      .withDetails("No row for id 123")
+      .withMeta({ traceId: "trace-1" })
+
+    const restored = AppFault.fromProblemDetails(
+      // oxlint-disable-next-line unicorn/prefer-structured-clone -- the body crosses a JSON transport.
+      JSON.parse(JSON.stringify(AppFault.toProblemDetails(fault, { meta: true })))
+    )
+
+    expect(restored).toBeInstanceOf(NotFoundError)
+    expect((restored as NotFoundError).id).toBe("123")
+    expect((restored as NotFoundError).resource).toBe("user")
+    expect(restored.details).toBe("No row for id 123")
+    expect(restored.message).toBe("Resource not found")
+    expect(restored.meta).toEqual({ traceId: "trace-1" })
+  })
+
+  it("replaces the message with the title, since problem bodies leave it out", () => {
+    const fault = AppFault.create("NotFoundError", { id: "42", resource: "user" }).withMessage(
+      "User 42 not found"
+    )
+
+    const problem = AppFault.toProblemDetails(fault)
+    const restored = AppFault.fromProblemDetails(
+      // oxlint-disable-next-line unicorn/prefer-structured-clone -- the body crosses a JSON transport.
+      JSON.parse(JSON.stringify(problem))
+    )
+
+    expect(Object.values(problem)).not.toContain("User 42 not found")
+    expect(restored).toBeInstanceOf(NotFoundError)
+    expect(restored.message).toBe("Resource not found")
+    expect(AppFault.fromSerializable(AppFault.toSerializable(fault)).message).toBe(
+      "User 42 not found"
+    )
+  })
+
+  it("restores escaped payload fields under their original names", () => {
+    const fault = AppFault.create("ValidationError", { status: 3, type: "email" })
+
+    const restored = AppFault.fromProblemDetails(AppFault.toProblemDetails(fault))
+
+    expect(restored).toBeInstanceOf(ValidationError)
+    expect((restored as ValidationError).type).toBe("email")
+    expect((restored as ValidationError).status).toBe(3)
+  })
+
+  it("resolves the tag from the problem type when no tag member is present", () => {
+    const restored = AppFault.fromProblemDetails({
+      status: 404,
+      title: "Resource not found",
+      type: "https://errors.example.com/not-found",
+    })
+
+    expect(restored).toBeInstanceOf(NotFoundError)
+  })
+
+  it("rebuilds unregistered problems as generic faults", () => {
+    const restored = AppFault.fromProblemDetails({
+      message: "extension",
+      status: 400,
+      tag: "OtherError",
+      title: "Other",
+      type: "https://errors.example.com/other",
+    })
+    const untagged = AppFault.fromProblemDetails({ status: 400, title: "Bad Request" })
+
+    expect(restored).toBeInstanceOf(Fault)
+    expect(restored._tag).toBe("OtherError")
+    expect(restored.message).toBe("Other")
+    expect((restored as unknown as Record<string, unknown>).__payload_message).toBe("extension")
+    expect(untagged._tag).toBe("ProblemDetails")
+  })
+
+  it("rejects non-object bodies", () => {
+    expect(() => AppFault.fromProblemDetails("oops")).toThrow(
+      "Invalid problem details: expected an object"
+    )
+    expect(() => AppFault.fromProblemDetails([])).toThrow("Invalid problem details")
+  })
+
+  it("keeps HTTP metadata across merge", () => {
+    class PaymentError extends Tagged("PaymentError")() {}
+    const BillingFault = registry({ PaymentError }, { http: { PaymentError: { status: 402 } } })
+    const Merged = merge(AppFault, BillingFault)
+
+    expect(Merged.toProblemDetails(Merged.create("PaymentError")).status).toBe(402)
+    expect(Merged.toProblemDetails(AppFault.create("TimeoutError")).status).toBe(500)
+    expect(
+      Merged.toProblemDetails(Merged.create("NotFoundError", { id: "1", resource: "user" })).status
+    ).toBe(404)
+  })
+
+  it("ignores inherited metadata for tags named like prototype members", () => {
+    class ConstructorError extends Tagged("constructor")() {}
+    const Faults = registry({ constructor: ConstructorError }, { http: {} })
+
+    expect(Faults.toProblemDetails(Faults.create("constructor")).status).toBe(500)
+  })
+})
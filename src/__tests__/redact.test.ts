@@ -0,0 +1,164 @@
+import { describe, expect, it } from "bun:test"
+
+import { toResponse } from "../http"
+import { merge, registry, Tagged } from "../index"
+
+class LoginError extends Tagged("LoginError", { sensitive: ["password", "token"] })<{
+  password: string
+  token: string
+  user: string
+}>() {}
+class AdminLoginError extends LoginError {}
+class UpstreamError extends Tagged("UpstreamError")<{ apiKey: string; host: string }>() {}
+
+function login(): LoginError {
+  return new LoginError({ password: "hunter2", token: "tok_123", user: "ada" })
+}
+
+const STACK = [
+  "Error: boom",
+  "    at one (a.ts:1:1)",
+  "    at two (b.ts:2:2)",
+  "    at three (c.ts:3:3)",
+]
+
+describe("toSerializable redaction", () => {
+  it("redacts sensitive fields by default, including through JSON.stringify", () => {
+    const fault = login().withMeta({ traceId: "t-1" })
+    const redacted = { password: "[REDACTED]", token: "[REDACTED]", user: "ada" }
+    const text = JSON.stringify(fault)
+
+    expect(fault.toSerializable()).toMatchObject({ ...redacted, meta: { traceId: "t-1" } })
+    expect(fault.toJSON()).toMatchObject(redacted)
+    expect(JSON.parse(text)).toMatchObject(redacted)
+    expect(text).not.toContain("hunter2")
+  })
+
+  it("keeps every field when redaction is disabled", () => {
+    expect(login().toSerializable({ redact: false })).toMatchObject({
+      password: "hunter2",
+      token: "tok_123",
+    })
+  })
+
+  it("replaces sensitive Tagged fields, including on subclasses", () => {
+    const subclass = new AdminLoginError({ password: "p", token: "t", user: "root" })
+
+    expect(login().toSerializable({ redact: "internal" })).toMatchObject({
+      password: "[REDACTED]",
+      token: "[REDACTED]",
+      user: "ada",
+    })
+    expect(subclass.toSerializable({ redact: {} })).toMatchObject({ password: "[REDACTED]" })
+  })
+
+  it("combines sensitive fields across extended tags", () => {
+    class SsoLoginError extends LoginError.extend("SsoLoginError", { sensitive: ["assertion"] })<{
+      assertion: string
+    }>() {}
+    const fault = new SsoLoginError({ assertion: "saml", password: "p", token: "t", user: "ada" })
+
+    expect(fault.toSerializable({ redact: "internal" })).toMatchObject({
+      assertion: "[REDACTED]",
+      password: "[REDACTED]",
+      token: "[REDACTED]",
+      user: "ada",
+    })
+  })
+
+  it("redacts extra fields and meta keys matching glob patterns", () => {
+    const fault = new UpstreamError({ apiKey: "key", host: "api.example.com" }).withMeta({
+      authToken: "secret",
+      requestId: "req-1",
+      "user.email": "ada@example.com",
+    })
+
+    const json = fault.toSerializable({
+      redact: { fields: ["apiKey"], meta: ["*Token", "user.*"], replacement: "***" },
+    })
+
+    expect(json).toMatchObject({ apiKey: "***", host: "api.example.com" })
+    expect(json.meta).toEqual({ authToken: "***", requestId: "req-1", "user.email": "***" })
+  })
+
+  it("strips or truncates stacks", () => {
+    const fault = login()
+    fault.stack = STACK.join("\n")
+
+    expect(fault.toSerializable({ redact: { stack: "strip" } })).not.toHaveProperty("stack")
+    expect(fault.toSerializable({ redact: { stack: { frames: 1 } } }).stack).toBe(
+      "Error: boom\n    at one (a.ts:1:1)"
+    )
+  })
+
+  it("applies recursively through fault and error causes", () => {
+    const error = new Error("boom")
+    error.stack = STACK.join("\n")
+    const fault = new UpstreamError({ apiKey: "key", host: "h" }).withCause(
+      login().withMeta({ secret: "s" }).withCause(error)
+    )
+
+    const json = fault.toSerializable({ redact: { meta: ["secret"], stack: "strip" } })
+    const inner = json.cause?.kind === "fault" ? json.cause.value : undefined
+
+    expect(inner).toMatchObject({ meta: { secret: "[REDACTED]" }, password: "[REDACTED]" })
+    expect(inner).not.toHaveProperty("stack")
+    expect(inner?.cause).toEqual({ kind: "error", message: "boom", name: "Error" })
+  })
+
+  it("drops meta and stacks with the built-in public profile", () => {
+    const json = login().withMeta({ traceId: "t-1" }).toSerializable({ redact: "public" })
+
+    expect(json).toMatchObject({ meta: { traceId: "[REDACTED]" }, password: "[REDACTED]" })
+    expect(json).not.toHaveProperty("stack")
+  })
+})
+
+describe("registry redaction", () => {
+  const AuthFault = registry(
+    { LoginError },
+    {
+      redact: "internal",
+      redactionProfiles: { public: { meta: ["*"], replacement: null, stack: "strip" } },
+    }
+  )
+
+  it("applies the registry default unless the call overrides it", () => {
+    expect(AuthFault.toSerializable(login())).toMatchObject({ password: "[REDACTED]" })
+    expect(AuthFault.toSerializable(login(), { redact: false })).toMatchObject({
+      password: "hunter2",
+    })
+    expect(registry({ LoginError }).toSerializable(login())).toMatchObject({
+      password: "[REDACTED]",
+    })
+  })
+
+  it("uses the registry's profile overrides", () => {
+    expect(AuthFault.toSerializable(login(), { redact: "public" })).toMatchObject({
+      password: null,
+      token: null,
+    })
+  })
+
+  it("redacts stacks of non-Fault errors in unknown envelopes", () => {
+    const error = new Error("boom")
+    error.stack = STACK.join("\n")
+
+    expect(AuthFault.toSerializable(error, { redact: "public" }).cause).toEqual({
+      kind: "error",
+      message: "boom",
+      name: "Error",
+    })
+  })
+
+  it("applies to Problem Details, Responses, and merged registries", async () => {
+    const MergedFault = merge(AuthFault, registry({ UpstreamError }))
+    const response = toResponse(AuthFault, login(), { redact: "public" })
+
+    expect(AuthFault.toProblemDetails(login())).toMatchObject({ password: "[REDACTED]" })
+    expect(await response.json()).toMatchObject({ password: null })
+    expect(MergedFault.toSerializable(login(), { redact: "public" })).toMatchObject({
+      password: null,
+    })
+  })
+})
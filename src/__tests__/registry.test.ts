@@ -1,12 +1,17 @@
 import { describe, expect, it } from "bun:test"
 
 import type { SerializableFault } from "../types"
-import { RegistryTagMismatchError } from "../errors"
+import { NonExhaustiveMatchError, RegistryTagMismatchError } from "../errors"
 import { Fault, registry, Tagged } from "../index"
 
 class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
 class TimeoutError extends Tagged("TimeoutError")() {}
 
+function transport(value: Fault): SerializableFault {
+  // oxlint-disable-next-line unicorn/prefer-structured-clone -- the wire is JSON.
+  return JSON.parse(JSON.stringify(value.toSerializable())) as SerializableFault
+}
+
 describe("registry", () => {
   it("throws when registry key does not match constructor tag", () => {
     class TimeoutErrorAlias extends Tagged("TimeoutError")() {}
@@ -365,6 +370,104 @@ describe("registry", () => {
     expect(value).toBe("fallback")
   })
 
+  it("dispatches registry.match builders for members", () => {
+    const Faults = registry({ NotFoundError, TimeoutError })
+    const fault = Faults.create("NotFoundError", { id: "123" })
+
+    const value = Faults.match(fault)
+      .with("NotFoundError", (e) => e.id)
+      .with("TimeoutError", () => "timeout")
+      .exhaustive()
+
+    expect(value).toBe("123")
+  })
+
+  it("routes non-members to otherwise and run in registry.match", () => {
+    const Faults = registry({ NotFoundError, TimeoutError })
+    class ForeignTimeoutError extends Tagged("TimeoutError")() {}
+    const foreign = new ForeignTimeoutError()
+    let fallbackInput: unknown
+
+    const value = Faults.match(foreign)
+      .with("TimeoutError", () => "timeout")
+      .otherwise((error) => {
+        fallbackInput = error
+        return "fallback"
+      })
+
+    expect(value).toBe("fallback")
+    expect(fallbackInput).toBe(foreign)
+    expect(
+      Faults.match("oops")
+        .with("TimeoutError", () => "timeout")
+        .run()
+    ).toBeUndefined()
+  })
+
+  it("throws from registry.match exhaustive for non-members", () => {
+    const Faults = registry({ NotFoundError, TimeoutError })
+
+    const run = () =>
+      Faults.match(new Error("plain"))
+        .with(["NotFoundError", "TimeoutError"], () => "handled")
+        .exhaustive()
+
+    expect(run).toThrow(NonExhaustiveMatchError)
+    expect(run).toThrow("No handler matched a value outside the registry.")
+  })
+
+  it("finds registered causes with registry.findCause", () => {
+    const Faults = registry({ NotFoundError, TimeoutError })
+    const timeout = Faults.create("TimeoutError")
+    const head = new Error("outer", { cause: "ignored" })
+    const wrapped = Faults.wrap(timeout).as("NotFoundError", { id: "123" })
+
+    expect(Faults.findCause(wrapped, "TimeoutError")).toBe(timeout)
+    expect(Faults.findCause(wrapped, "NotFoundError")).toBe(wrapped)
+    expect(Faults.findCause(head, "TimeoutError")).toBeUndefined()
+    expect(Faults.findCause("oops", "TimeoutError")).toBeUndefined()
+  })
+
+  it("follows native Error.cause links from a native head", () => {
+    const Faults = registry({ NotFoundError, TimeoutError })
+    const timeout = Faults.create("TimeoutError")
+    const head = new Error("outer", { cause: new Error("driver", { cause: timeout }) })
+
+    expect(Faults.findCause(head, "TimeoutError")).toBe(timeout)
+  })
+
+  it("skips foreign constructors that reuse a registered tag in the chain", () => {
+    const Faults = registry({ NotFoundError, TimeoutError })
+    class ForeignTimeoutError extends Tagged("TimeoutError")() {}
+    const registered = Faults.create("TimeoutError")
+    const head = Faults.wrap(new ForeignTimeoutError().withCause(registered)).as("NotFoundError", {
+      id: "123",
+    })
+    const { findCause } = Faults
+
+    expect(findCause(head, "TimeoutError")).toBe(registered)
+  })
+
+  it("dispatches registry.matchCauseTags on the first registered handled cause", () => {
+    const Faults = registry({ NotFoundError, TimeoutError })
+    class ForeignNotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+    const root = Faults.create("NotFoundError", { id: "root" })
+    const head = new ForeignNotFoundError({ id: "foreign" }).withCause(root)
+    const { matchCauseTags } = Faults
+
+    const value = matchCauseTags(head, { NotFoundError: (fault) => fault.id })
+
+    expect(value).toBe("root")
+  })
+
+  it("uses fallback in registry.matchCauseTags when nothing is handled", () => {
+    const Faults = registry({ NotFoundError, TimeoutError })
+    const head = Faults.wrap(new Error("root")).as("TimeoutError")
+
+    expect(Faults.matchCauseTags(head, { NotFoundError: () => "not-found" })).toBeUndefined()
+    expect(Faults.matchCauseTags("oops", { TimeoutError: () => "timeout" }, (e) => e)).toBe("oops")
+  })
+
   it("falls back to base fromSerializable for unknown tag", () => {
     const Faults = registry({ NotFoundError, TimeoutError })
 
@@ -424,3 +527,82 @@ describe("registry", () => {
     ).toThrow("Invalid Fault constructor")
   })
 })
+
+describe("registry with extended tags", () => {
+  class DatabaseError extends Tagged("DatabaseError")<{ query: string }>() {}
+  class ConnectionError extends DatabaseError.extend("ConnectionError")<{ host: string }>() {}
+  class UniqueViolationError extends DatabaseError.extend("UniqueViolationError")<{
+    constraint: string
+  }>() {}
+
+  const DbFault = registry({ ConnectionError, TimeoutError, UniqueViolationError })
+
+  it("narrows membership to a parent tag with is(err, tag)", () => {
+    const connection = DbFault.create("ConnectionError", { host: "h", query: "q" })
+    const timeout = DbFault.create("TimeoutError")
+
+    expect(DbFault.is(connection, "DatabaseError")).toBe(true)
+    expect(DbFault.is(connection, "ConnectionError")).toBe(true)
+    expect(DbFault.is(connection, "UniqueViolationError")).toBe(false)
+    expect(DbFault.is(timeout, "DatabaseError")).toBe(false)
+    expect(DbFault.is(new DatabaseError({ query: "q" }), "DatabaseError")).toBe(false)
+  })
+
+  it("dispatches registry.matchTags to parent tag handlers", () => {
+    const violation = DbFault.create("UniqueViolationError", { constraint: "pk", query: "q" })
+
+    const result = DbFault.matchTags(violation, {
+      DatabaseError: (fault) => fault._tag,
+      TimeoutError: () => "timeout",
+    })
+
+    expect(result).toBe("UniqueViolationError")
+  })
+
+  it("falls back to the nearest registered ancestor when deserializing", () => {
+    class PoolExhaustedError extends ConnectionError.extend("PoolExhaustedError")<{
+      size: number
+    }>() {}
+    const json = transport(new PoolExhaustedError({ host: "h", query: "q", size: 10 }))
+
+    expect(json._ancestors).toEqual(["ConnectionError", "DatabaseError"])
+
+    const restored = DbFault.fromSerializable(json)
+
+    expect(restored).toBeInstanceOf(ConnectionError)
+    expect(restored._tag).toBe("PoolExhaustedError")
+    expect(restored._ancestors).toEqual(["ConnectionError", "DatabaseError"])
+    expect((restored as ConnectionError & { size: number }).size).toBe(10)
+    expect(DbFault.is(restored, "ConnectionError")).toBe(true)
+    expect(DbFault.matchTags(restored, { ConnectionError: () => "connection" })).toBe("connection")
+  })
+
+  it("dispatches faults revived through an ancestor as that ancestor", () => {
+    class PoolExhaustedError extends ConnectionError.extend("PoolExhaustedError")() {}
+    const restored = DbFault.fromSerializable(
+      transport(new TimeoutError().withCause(new PoolExhaustedError({ host: "h", query: "q" })))
+    )
+    const revived = restored.cause as Fault
+
+    expect(
+      DbFault.match(revived)
+        .with("ConnectionError", (fault) => fault.host)
+        .with(["TimeoutError", "UniqueViolationError"], () => "other")
+        .exhaustive()
+    ).toBe("h")
+    expect(DbFault.matchTag(revived, "ConnectionError", () => "connection")).toBe("connection")
+    expect<string | undefined>(DbFault.findCause(restored, "ConnectionError")?._tag).toBe(
+      "PoolExhaustedError"
+    )
+    expect(DbFault.matchCauseTags(restored, { ConnectionError: (fault) => fault.host })).toBe("h")
+  })
+
+  it("restores registered extended tags exactly", () => {
+    const restored = DbFault.fromSerializable(
+      transport(new UniqueViolationError({ constraint: "pk", query: "q" }))
+    )
+
+    expect(restored).toBeInstanceOf(UniqueViolationError)
+    expect(restored._ancestors).toEqual(["DatabaseError"])
+  })
+})
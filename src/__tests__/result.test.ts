@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test"
+
+import type { Result } from "../types"
+import { matchTags, registry, Tagged } from "../index"
+import { andThen, err, isErr, isOk, map, mapErr, match, ok, unwrapOr } from "../result"
+
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+
+const AppFault = registry({ NotFoundError, TimeoutError })
+
+function toStatus(result: Result<string, NotFoundError>): number {
+  return match(result, {
+    err: (fault) => matchTags(fault, { NotFoundError: () => 404 }),
+    ok: () => 200,
+  })
+}
+
+describe("Result", () => {
+  it("creates ok and err results", () => {
+    const fault = new TimeoutError()
+
+    expect(ok(1)).toEqual({ ok: true, value: 1 })
+    expect(err(fault)).toEqual({ error: fault, ok: false })
+    expect(isOk(ok(1))).toBe(true)
+    expect(isErr(ok(1))).toBe(false)
+    expect(isErr(err(fault))).toBe(true)
+  })
+
+  it("maps only the success side with map", () => {
+    const fault = new TimeoutError()
+    const failed = err(fault)
+
+    expect(map(ok(2), (value) => value * 2)).toEqual(ok(4))
+    expect(map(failed, () => "unreachable")).toBe(failed)
+  })
+
+  it("maps only the error side with mapErr", () => {
+    const success = ok("value")
+    const mapped = mapErr(err(new TimeoutError()), (cause) =>
+      AppFault.wrap(cause).as("NotFoundError", { id: "123" })
+    )
+
+    expect(mapErr(success, () => new TimeoutError())).toBe(success)
+    expect(isErr(mapped) && mapped.error).toBeInstanceOf(NotFoundError)
+    expect(isErr(mapped) && mapped.error.cause).toBeInstanceOf(TimeoutError)
+  })
+
+  it("chains results with andThen", () => {
+    const fault = new TimeoutError()
+    const failed = err(fault)
+
+    expect(andThen(ok(2), (value) => ok(`${value}`))).toEqual(ok("2"))
+    expect(andThen(ok(2), () => failed)).toBe(failed)
+    expect(andThen(failed, () => ok("unreachable"))).toBe(failed)
+  })
+
+  it("folds results with match and composes with matchTags", () => {
+    expect(toStatus(ok("user"))).toBe(200)
+    expect(toStatus(err(new NotFoundError({ id: "123" })))).toBe(404)
+  })
+
+  it("unwraps with a fallback", () => {
+    expect(unwrapOr(ok(1), 0)).toBe(1)
+    expect(unwrapOr(err(new TimeoutError()), 0)).toBe(0)
+  })
+})
+
+describe("registry.try", () => {
+  it("returns ok with the function result", () => {
+    const result = AppFault.try(() => 42, "TimeoutError")
+
+    expect(result).toEqual(ok(42))
+  })
+
+  it("wraps thrown values as the requested fault", () => {
+    const cause = new Error("boom")
+
+    const result = AppFault.try(
+      () => {
+        throw cause
+      },
+      "NotFoundError",
+      { id: "123" }
+    )
+
+    expect(isErr(result)).toBe(true)
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(NotFoundError)
+      expect(result.error.id).toBe("123")
+      expect(result.error.cause).toBe(cause)
+      expect(result.error.stack).toContain("Caused by: Error: boom")
+    }
+  })
+})
+
+describe("registry.tryAsync", () => {
+  it("resolves ok with the awaited function result", async () => {
+    const result = await AppFault.tryAsync(async () => {
+      await Promise.resolve()
+      return "done"
+    }, "TimeoutError")
+
+    expect(result).toEqual(ok("done"))
+  })
+
+  it("wraps rejections and synchronous throws as the requested fault", async () => {
+    const rejected = await AppFault.tryAsync(
+      () => Promise.reject(new Error("late")),
+      "TimeoutError"
+    )
+    const thrown = await AppFault.tryAsync(() => {
+      throw "early"
+    }, "TimeoutError")
+
+    expect(isErr(rejected) && rejected.error).toBeInstanceOf(TimeoutError)
+    expect(isErr(rejected) && (rejected.error.cause as Error).message).toBe("late")
+    expect(isErr(thrown) && thrown.error.cause).toBe("early")
+  })
+})
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "bun:test"
+
+import type { RetryClock, RetryContext } from "../types"
+import { RetryExhaustedError } from "../errors"
+import { registry, Tagged } from "../index"
+import { retry } from "../retry"
+
+class TimeoutError extends Tagged("TimeoutError", { traits: { retryable: true } })() {}
+class GatewayTimeoutError extends TimeoutError.extend("GatewayTimeoutError")() {}
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class UpstreamError extends Tagged("UpstreamError")() {}
+
+const AppFault = registry({ GatewayTimeoutError, NotFoundError, TimeoutError })
+
+function createClock(random = 0.5) {
+  const delays: number[] = []
+  const clock: RetryClock = {
+    random: () => random,
+    sleep: (ms) => {
+      delays.push(ms)
+      return Promise.resolve()
+    },
+  }
+  return { clock, delays }
+}
+
+// Fails with the given errors in order, then resolves with the attempt number.
+function failing(...errors: unknown[]) {
+  const attempts: RetryContext[] = []
+  const fn = (context: RetryContext) => {
+    attempts.push(context)
+    const error = errors[attempts.length - 1]
+    if (error !== undefined) throw error
+    return context.attempt
+  }
+  return { attempts, fn }
+}
+
+describe("retry", () => {
+  it("retries failures with a matching tag until one succeeds", async () => {
+    const { clock, delays } = createClock()
+    const { attempts, fn } = failing(new TimeoutError(), new TimeoutError())
+
+    expect(await retry(fn, { clock, registry: AppFault, retryOn: ["TimeoutError"] })).toBe(3)
+    expect(attempts.map((context) => context.attempt)).toEqual([1, 2, 3])
+    expect(delays).toEqual([50, 100])
+  })
+
+  it("matches tags anywhere in the cause chain, including parent tags", async () => {
+    const { clock } = createClock()
+    const wrapped = new UpstreamError().withCause(
+      new Error("io", { cause: new GatewayTimeoutError() })
+    )
+    const { fn } = failing(wrapped)
+
+    expect(await retry(fn, { clock, retryOn: ["TimeoutError"] })).toBe(2)
+  })
+
+  it("rethrows failures that do not match without retrying", async () => {
+    const { clock, delays } = createClock()
+    const notFound = new NotFoundError({ id: "1" })
+    const { attempts, fn } = failing(notFound)
+
+    const error = await retry(fn, { clock, retryOn: ["TimeoutError"] }).catch(
+      (error: unknown) => error
+    )
+
+    expect(error).toBe(notFound)
+    expect(attempts).toHaveLength(1)
+    expect(delays).toEqual([])
+  })
+
+  it("retries faults with the retryable trait by default", async () => {
+    const { clock } = createClock()
+
+    const opted = new TimeoutError().withRetryable(false)
+
+    expect(await retry(failing(new GatewayTimeoutError()).fn, { clock })).toBe(2)
+    expect(await retry(failing(opted).fn, { clock }).catch((error: unknown) => error)).toBe(opted)
+  })
+
+  it("only matches registry members when a registry is given", async () => {
+    const { clock } = createClock()
+    class ForeignTimeoutError extends Tagged("TimeoutError", { traits: { retryable: true } })() {}
+    const foreign = new ForeignTimeoutError()
+
+    const error = await retry(failing(foreign).fn, { clock, registry: AppFault }).catch(
+      (error: unknown) => error
+    )
+
+    expect(error).toBe(foreign)
+  })
+
+  it("retries values accepted by a predicate", async () => {
+    const { clock } = createClock()
+    const { fn } = failing(new Error("ECONNRESET"), new Error("ECONNRESET"))
+
+    const result = await retry(fn, {
+      clock,
+      retryOn: (error) => error instanceof Error && error.message === "ECONNRESET",
+    })
+
+    expect(result).toBe(3)
+  })
+
+  it("throws RetryExhaustedError with every attempt's error once attempts run out", async () => {
+    const { clock } = createClock()
+    const errors = [new TimeoutError(), new TimeoutError()]
+    const { fn } = failing(...errors)
+
+    const error = await retry(fn, { clock, maxAttempts: 2 }).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(RetryExhaustedError)
+    expect((error as RetryExhaustedError).attempts).toBe(2)
+    expect((error as RetryExhaustedError).message).toBe("Operation failed after 2 attempts.")
+    expect((error as RetryExhaustedError).cause).toBeInstanceOf(AggregateError)
+    expect(((error as RetryExhaustedError).cause as AggregateError).errors).toEqual(errors)
+  })
+
+  it("grows delays exponentially up to the maximum", async () => {
+    const { clock, delays } = createClock()
+    const { fn } = failing(...Array.from({ length: 5 }, () => new TimeoutError()))
+
+    await retry(fn, {
+      backoff: { factor: 3, initial: 10, jitter: false, max: 200 },
+      clock,
+      maxAttempts: 6,
+    })
+
+    expect(delays).toEqual([10, 30, 90, 200, 200])
+  })
+
+  it("applies full jitter and custom backoff functions", async () => {
+    const jittered = createClock(0.25)
+    await retry(failing(new TimeoutError(), new TimeoutError()).fn, { clock: jittered.clock })
+
+    const custom = createClock()
+    await retry(failing(new TimeoutError(), new TimeoutError()).fn, {
+      backoff: (attempt) => attempt * 1000,
+      clock: custom.clock,
+    })
+
+    expect(jittered.delays).toEqual([25, 50])
+    expect(custom.delays).toEqual([1000, 2000])
+  })
+
+  it("stops with the signal's reason once aborted", async () => {
+    const controller = new AbortController()
+    const { clock } = createClock()
+    const { attempts, fn } = failing(new TimeoutError(), new TimeoutError())
+    const reason = new Error("cancelled")
+    const abortingClock: RetryClock = {
+      ...clock,
+      sleep: (ms, signal) => {
+        controller.abort(reason)
+        return clock.sleep(ms, signal)
+      },
+    }
+
+    const error = await retry(fn, { clock: abortingClock, signal: controller.signal }).catch(
+      (error: unknown) => error
+    )
+
+    expect(error).toBe(reason)
+    expect(attempts).toHaveLength(1)
+    expect(attempts[0]?.signal).toBe(controller.signal)
+  })
+
+  it("does not call fn when the signal is already aborted", async () => {
+    const reason = new Error("cancelled")
+    const { attempts, fn } = failing()
+
+    const error = await retry(fn, { signal: AbortSignal.abort(reason) }).catch(
+      (error: unknown) => error
+    )
+
+    expect(error).toBe(reason)
+    expect(attempts).toHaveLength(0)
+  })
+
+  it("interrupts the default sleep when the signal aborts", async () => {
+    const controller = new AbortController()
+    const { fn } = failing(new TimeoutError())
+    const pending = retry(fn, {
+      backoff: { initial: 60_000, jitter: false },
+      signal: controller.signal,
+    }).catch((error: unknown) => error)
+
+    await Promise.resolve()
+    controller.abort(new Error("cancelled"))
+
+    expect(await pending).toEqual(new Error("cancelled"))
+  })
+
+  it("rejects invalid maxAttempts", async () => {
+    const error = await retry(failing().fn, { maxAttempts: 0 }).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(RangeError)
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "bun:test"
+
+import type { FieldSchema } from "../types"
+import { FieldValidationError } from "../errors"
+import { Fault, fromSerializable, registry, Tagged } from "../index"
+
+type UserFields = { id: string; attempts: number }
+
+// Minimal Standard Schema validator: coerces numeric strings and strips
+// unknown keys, like most schema libraries do by default.
+const userSchema: FieldSchema & {
+  readonly "~standard": {
+    readonly types?: { input: { id: string; attempts: number | string }; output: UserFields }
+  }
+} = {
+  "~standard": {
+    validate(value) {
+      const input = value as Record<string, unknown>
+      const attempts = typeof input.attempts === "string" ? Number(input.attempts) : input.attempts
+      const issues = []
+
+      if (typeof input.id !== "string") issues.push({ message: "Expected string", path: ["id"] })
+      if (typeof attempts !== "number" || Number.isNaN(attempts)) {
+        issues.push({ message: "Expected number", path: [{ key: "attempts" }] })
+      }
+
+      if (issues.length > 0) return { issues }
+      return { value: { attempts, id: input.id } as UserFields }
+    },
+    vendor: "test",
+    version: 1,
+  },
+}
+
+const asyncSchema: FieldSchema = {
+  "~standard": {
+    validate: (value) => Promise.resolve({ value: value as Record<string, string> }),
+    vendor: "test",
+    version: 1,
+  },
+}
+
+class UserError extends Tagged("UserError", { schema: userSchema })() {}
+class AdminError extends UserError.extend("AdminError")<{ scope: string }>() {}
+class BatchUserError extends Tagged("BatchUserError", { schema: userSchema }).aggregate() {}
+class AsyncError extends Tagged("AsyncError", { schema: asyncSchema })() {}
+
+const AppFault = registry({ AdminError, BatchUserError, UserError })
+
+describe("Tagged schemas", () => {
+  it("assigns the schema's output on construction", () => {
+    const fault = new UserError({ attempts: "3", id: "u1" })
+
+    expect(fault.attempts).toBe(3)
+    expect(fault.id).toBe("u1")
+    expect(Object.hasOwn(fault, "extra")).toBe(false)
+  })
+
+  it("throws FieldValidationError with normalized issues", () => {
+    const attempt = () => new UserError({ attempts: "many", id: 1 as unknown as string })
+
+    expect(attempt).toThrow(FieldValidationError)
+    try {
+      attempt()
+    } catch (error) {
+      expect(error).toBeInstanceOf(Fault)
+      expect((error as FieldValidationError).tag).toBe("UserError")
+      expect((error as FieldValidationError).issues).toEqual([
+        { message: "Expected string", path: ["id"] },
+        { message: "Expected number", path: ["attempts"] },
+      ])
+      expect((error as FieldValidationError).message).toBe(
+        "Invalid fields for 'UserError': id: Expected string; attempts: Expected number"
+      )
+    }
+  })
+
+  it("validates aggregates", () => {
+    expect(new BatchUserError({ attempts: 1, id: "u1" }).attempts).toBe(1)
+    expect(() => new BatchUserError({ attempts: 1, id: 2 as unknown as string })).toThrow(
+      FieldValidationError
+    )
+  })
+
+  it("applies an inherited schema to extended tags and keeps the child's own fields", () => {
+    const fault = new AdminError({ attempts: "2", id: "u1", scope: "billing" })
+
+    expect(fault.attempts).toBe(2)
+    expect(fault.scope).toBe("billing")
+    expect(() => new AdminError({ attempts: 1, id: 2 as unknown as string, scope: "x" })).toThrow(
+      FieldValidationError
+    )
+  })
+
+  it("rejects asynchronous schemas", () => {
+    expect(() => new AsyncError({})).toThrow("Tagged field schemas must validate synchronously")
+  })
+})
+
+describe("registry deserialization with schemas", () => {
+  it("validates payloads for registered tags", () => {
+    const json = new UserError({ attempts: 3, id: "u1" }).toSerializable()
+    const restored = AppFault.fromSerializable({ ...json, attempts: "4" })
+
+    expect(restored).toBeInstanceOf(UserError)
+    expect((restored as UserError).attempts).toBe(4)
+  })
+
+  it("returns FieldValidationError with the generic fault as cause for invalid payloads", () => {
+    const json = new UserError({ attempts: 3, id: "u1" }).toSerializable()
+    const restored = AppFault.fromSerializable({ ...json, id: 42 })
+
+    expect(restored).toBeInstanceOf(FieldValidationError)
+    expect(AppFault.is(restored)).toBe(false)
+    expect((restored as FieldValidationError).issues).toEqual([
+      { message: "Expected string", path: ["id"] },
+    ])
+
+    const original = restored.cause as Fault & Record<string, unknown>
+    expect(original).not.toBeInstanceOf(UserError)
+    expect(original._tag).toBe("UserError")
+    expect(original.id).toBe(42)
+    expect(original.stack).toBe(json.stack)
+  })
+
+  it("reports invalid nested causes without failing the whole payload", () => {
+    const json = new UserError({ attempts: 3, id: "u1" }).toSerializable()
+    const outer = AppFault.fromSerializable({
+      ...new UserError({ attempts: 1, id: "outer" }).toSerializable(),
+      cause: { kind: "fault", value: { ...json, attempts: "x" } },
+    })
+
+    expect(outer).toBeInstanceOf(UserError)
+    expect(outer.cause).toBeInstanceOf(FieldValidationError)
+  })
+
+  it("keeps an extended tag's own fields when falling back to a schema-backed ancestor", () => {
+    const ParentOnly = registry({ UserError })
+    const json = new AdminError({ attempts: 1, id: "u1", scope: "billing" }).toSerializable()
+    const restored = ParentOnly.fromSerializable(json) as Fault & { scope?: string }
+
+    expect(restored).toBeInstanceOf(UserError)
+    expect(restored._ancestors).toEqual(["UserError"])
+    expect(restored.scope).toBe("billing")
+  })
+
+  it("leaves generic deserialization unvalidated", () => {
+    const json = new UserError({ attempts: 3, id: "u1" }).toSerializable()
+    const restored = fromSerializable({ ...json, id: 42 }) as Fault & { id?: unknown }
+
+    expect(restored.id).toBe(42)
+  })
+})
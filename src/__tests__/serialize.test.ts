@@ -1,8 +1,8 @@
 import { describe, expect, it } from "bun:test"
 import fc from "fast-check"
 
-import type { SerializableFault, SerializableValue } from "../types"
-import { Fault, fromSerializable, Tagged } from "../index"
+import type { SerializableCause, SerializableFault, SerializableValue } from "../types"
+import { Fault, fromSerializable, registry, Tagged } from "../index"
 
 // Test-side mirror of the internal isReservedKey rule: wire envelope keys
 // (documented in CONTEXT.md) plus anything reachable through Fault's
@@ -10,7 +10,12 @@ import { Fault, fromSerializable, Tagged } from "../index"
 // if the library's rule drifts, they fail.
 const WIRE_ENVELOPE_KEYS = new Set([
   "__faultier",
+  "__errors",
+  "__frames",
+  "__traits",
   "_tag",
+  "_ancestors",
+  "__v",
   "cause",
   "name",
   "message",
@@ -55,14 +60,18 @@ type FaultSpec = {
 
 type CauseSpec =
   | { kind: "fault"; value: FaultSpec }
-  | { kind: "error"; message: string }
+  | { kind: "error"; message: string; cause: CauseSpec | undefined }
   | { kind: "thrown"; value: SerializableValue }
 
 const { faultSpecArb } = fc.letrec<{ faultSpecArb: FaultSpec; causeSpecArb: CauseSpec }>((tie) => ({
   causeSpecArb: fc.oneof(
     { depthSize: "small" },
     fc.record({ kind: fc.constant("thrown" as const), value: jsonValueArb }),
-    fc.record({ kind: fc.constant("error" as const), message: fc.string() }),
+    fc.record({
+      cause: fc.option(tie("causeSpecArb"), { nil: undefined }),
+      kind: fc.constant("error" as const),
+      message: fc.string(),
+    }),
     fc.record({ kind: fc.constant("fault" as const), value: tie("faultSpecArb") })
   ),
   faultSpecArb: fc.record({
@@ -83,15 +92,18 @@ function buildFault(spec: FaultSpec): Fault {
   if (spec.details !== undefined) fault.withDetails(spec.details)
   if (spec.meta !== undefined) fault.withMeta(spec.meta)
 
-  if (spec.cause !== undefined) {
-    if (spec.cause.kind === "fault") fault.withCause(buildFault(spec.cause.value))
-    else if (spec.cause.kind === "error") fault.withCause(new Error(spec.cause.message))
-    else fault.withCause(spec.cause.value)
-  }
+  if (spec.cause !== undefined) fault.withCause(buildCause(spec.cause))
 
   return fault
 }
 
+function buildCause(spec: CauseSpec): unknown {
+  if (spec.kind === "fault") return buildFault(spec.value)
+  if (spec.kind === "thrown") return spec.value
+  if (spec.cause === undefined) return new Error(spec.message)
+  return new Error(spec.message, { cause: buildCause(spec.cause) })
+}
+
 function transport(value: Fault | SerializableFault): SerializableFault {
   // Intentionally a JSON round-trip: the properties under test cover transport
   // over a real wire, not structuredClone semantics.
@@ -326,6 +338,57 @@ describe("fromSerializable", () => {
     expect(Object.hasOwn(deserialized, "__proto__")).toBe(false)
   })
 
+  it("round-trips native Error.cause chains", () => {
+    class QueryError extends Tagged("QueryError")<{ table: string }>() {}
+    class ServiceError extends Tagged("ServiceError")() {}
+
+    const query = new QueryError({ table: "users" })
+    const driver = new Error("driver", { cause: new Error("socket", { cause: query }) })
+    const head = new ServiceError().withCause(driver)
+
+    const json = head.toSerializable()
+    const restored = fromSerializable(transport(json))
+
+    expect(json.cause).toMatchObject({
+      cause: { cause: { kind: "fault", value: { _tag: "QueryError" } }, kind: "error" },
+      kind: "error",
+      message: "driver",
+    })
+    expect(restored.getTags()).toEqual(["ServiceError", "QueryError"])
+    expect(restored.flatten()).toBe(head.flatten())
+    expect(restored.unwrap().at(-1)).toMatchObject({ table: "users" })
+  })
+
+  it("revives malformed native causes as thrown values", () => {
+    const json: SerializableFault = {
+      __faultier: true,
+      _tag: "WrapperError",
+      cause: {
+        cause: null as unknown as SerializableCause,
+        kind: "error",
+        message: "x",
+        name: "E",
+      },
+      name: "WrapperError",
+    }
+
+    const restored = fromSerializable(json)
+    const versioned = registry({}, { migrations: [{ version: 1 }] }).fromSerializable(json)
+
+    expect((restored.cause as Error).cause).toBeNull()
+    expect((versioned.cause as Error).cause).toBeNull()
+  })
+
+  it("caps serialized native cause chains at the documented depth", () => {
+    class LoopError extends Tagged("LoopError")() {}
+    const first = new Error("first")
+    first.cause = new Error("second", { cause: first })
+
+    const restored = fromSerializable(new LoopError().withCause(first).toSerializable())
+
+    expect(restored.unwrap()).toHaveLength(101)
+  })
+
   it("deserializes thrown causes", () => {
     const deserialized = fromSerializable({
       __faultier: true,
@@ -407,6 +470,31 @@ describe("fromSerializable", () => {
     ).toThrow("meta must be an object")
   })
 
+  it("restores extended tag lineage on generic faults", () => {
+    class DatabaseError extends Tagged("DatabaseError")<{ query: string }>() {}
+    class ConnectionError extends DatabaseError.extend("ConnectionError")() {}
+
+    const wire = transport(new ConnectionError({ query: "q" }))
+    const revived = fromSerializable(wire)
+
+    expect(wire._ancestors).toEqual(["DatabaseError"])
+    expect(revived._tag).toBe("ConnectionError")
+    expect(revived._ancestors).toEqual(["DatabaseError"])
+    expect(transport(revived)).toEqual(wire)
+    expect("_ancestors" in transport(new DatabaseError({ query: "q" }))).toBe(false)
+  })
+
+  it("throws when _ancestors is not an array of strings", () => {
+    expect(() =>
+      fromSerializable({
+        __faultier: true,
+        _ancestors: ["DatabaseError", 1],
+        _tag: "TestError",
+        name: "TestError",
+      } as unknown as SerializableFault)
+    ).toThrow("_ancestors must be an array of strings")
+  })
+
   it("preserves tag, message, details, meta, and payload across any JSON transport round trip", () => {
     fc.assert(
       fc.property(faultSpecArb, (spec) => {
@@ -0,0 +1,250 @@
+import { describe, expect, it } from "bun:test"
+
+import type { RawSourceMap, SerializableFault } from "../types"
+import { createSourceMapper } from "../sourcemap"
+
+// Line 1: column 15 maps to users.ts 12:7 (`findUser`), column 41 to routes.ts
+// 5:3 (`handle`), and column 61 is unmapped. Line 2: column 3 maps to routes.ts 21:1.
+const appMap: RawSourceMap = {
+  mappings: "AAAA,cAWMA,0BCPJC,oB;EAgBF",
+  names: ["findUser", "handle"],
+  sources: ["../src/users.ts", "../src/routes.ts"],
+  version: 3,
+}
+
+function createLoader(maps: Record<string, RawSourceMap | string>) {
+  const calls: string[] = []
+  const load = (file: string) => {
+    calls.push(file)
+    return Promise.resolve(maps[file])
+  }
+  return { calls, load }
+}
+
+function fault(overrides: Partial<SerializableFault> = {}): SerializableFault {
+  return { __faultier: true, _tag: "NotFoundError", name: "NotFoundError", ...overrides }
+}
+
+describe("createSourceMapper", () => {
+  it("remaps stack frames to original positions and names", async () => {
+    const { load } = createLoader({ "/srv/dist/app.js": appMap })
+    const mapper = createSourceMapper(load)
+
+    const remapped = await mapper.remap(
+      fault({
+        stack: [
+          "NotFoundError: User 42 not found",
+          "    at a (/srv/dist/app.js:1:15)",
+          "    at /srv/dist/app.js:1:45",
+          "    at b (/srv/dist/app.js:1:61)",
+          "    at c (/srv/dist/app.js:2:3)",
+          "    at d (/srv/dist/vendor.js:1:1)",
+          "    at Array.map (native)",
+        ].join("\n"),
+      })
+    )
+
+    expect(remapped.stack).toBe(
+      [
+        "NotFoundError: User 42 not found",
+        "    at findUser (/srv/src/users.ts:12:7)",
+        "    at handle (/srv/src/routes.ts:5:3)",
+        "    at b (/srv/dist/app.js:1:61)",
+        "    at c (/srv/src/routes.ts:21:1)",
+        "    at d (/srv/dist/vendor.js:1:1)",
+        "    at Array.map (native)",
+      ].join("\n")
+    )
+  })
+
+  it("remaps Caused by blocks, causes, and aggregate children", async () => {
+    const { load } = createLoader({ "/srv/dist/app.js": appMap })
+    const mapper = createSourceMapper(load)
+    const stack = "Error: boom\n    at a (/srv/dist/app.js:1:15)"
+    const expected = "Error: boom\n    at findUser (/srv/src/users.ts:12:7)"
+
+    const remapped = await mapper.remap(
+      fault({
+        __errors: [{ kind: "error", message: "boom", name: "Error", stack }],
+        cause: {
+          errors: [{ kind: "fault", value: fault({ stack }) }],
+          kind: "aggregate",
+          message: "boom",
+          name: "AggregateError",
+          stack,
+        },
+        stack: `${stack}\nCaused by: ${stack}`,
+      })
+    )
+
+    expect(remapped.stack).toBe(`${expected}\nCaused by: ${expected}`)
+    expect(remapped.__errors).toEqual([
+      { kind: "error", message: "boom", name: "Error", stack: expected },
+    ])
+    expect(remapped.cause).toEqual({
+      errors: [{ kind: "fault", value: fault({ stack: expected }) }],
+      kind: "aggregate",
+      message: "boom",
+      name: "AggregateError",
+      stack: expected,
+    })
+  })
+
+  it("remaps structured frames", async () => {
+    const { load } = createLoader({ "/srv/dist/app.js": appMap })
+    const mapper = createSourceMapper(load)
+
+    const remapped = await mapper.remap(
+      fault({
+        __frames: [
+          {
+            column: 15,
+            file: "/srv/dist/app.js",
+            fn: "a",
+            isInternal: false,
+            isNative: false,
+            line: 1,
+          },
+          { fn: "Array.map", isInternal: false, isNative: true },
+        ],
+      })
+    )
+
+    expect(remapped.__frames).toEqual([
+      {
+        column: 7,
+        file: "/srv/src/users.ts",
+        fn: "findUser",
+        isInternal: false,
+        isNative: false,
+        line: 12,
+      },
+      { fn: "Array.map", isInternal: false, isNative: true },
+    ])
+  })
+
+  it("leaves the input unchanged", async () => {
+    const { load } = createLoader({ "/srv/dist/app.js": appMap })
+    const input = fault({ stack: "Error: boom\n    at a (/srv/dist/app.js:1:15)" })
+
+    await createSourceMapper(load).remap(input)
+
+    expect(input.stack).toBe("Error: boom\n    at a (/srv/dist/app.js:1:15)")
+  })
+
+  it("keeps each line's indentation and stack format", async () => {
+    const { load } = createLoader({ "/srv/dist/app.js": appMap })
+
+    const remapped = await createSourceMapper(load).remap(
+      fault({
+        stack: [
+          "NotFoundError: User 42 not found",
+          "    at async a (/srv/dist/app.js:1:15)",
+          "  Caused by: Error: boom",
+          "        at /srv/dist/app.js:1:41",
+          "a@/srv/dist/app.js:1:15",
+          "@/srv/dist/app.js:1:41",
+        ].join("\n"),
+      })
+    )
+
+    expect(remapped.stack).toBe(
+      [
+        "NotFoundError: User 42 not found",
+        "    at async findUser (/srv/src/users.ts:12:7)",
+        "  Caused by: Error: boom",
+        "        at handle (/srv/src/routes.ts:5:3)",
+        "findUser@/srv/src/users.ts:12:7",
+        "handle@/srv/src/routes.ts:5:3",
+      ].join("\n")
+    )
+  })
+
+  it("leaves frames unchanged when their map fails to load", async () => {
+    const mapper = createSourceMapper((file) =>
+      file === "/srv/dist/app.js" ? appMap : Promise.reject(new Error(`ENOENT: ${file}`))
+    )
+
+    const remapped = await mapper.remap(
+      fault({
+        __frames: [
+          { column: 1, file: "/srv/dist/vendor.js", isInternal: false, isNative: false, line: 1 },
+        ],
+        stack: [
+          "Error: boom",
+          "    at a (/srv/dist/app.js:1:15)",
+          "    at b (/srv/dist/vendor.js:1:1)",
+        ].join("\n"),
+      })
+    )
+
+    expect(remapped.stack).toBe(
+      [
+        "Error: boom",
+        "    at findUser (/srv/src/users.ts:12:7)",
+        "    at b (/srv/dist/vendor.js:1:1)",
+      ].join("\n")
+    )
+    expect(remapped.__frames).toEqual([
+      { column: 1, file: "/srv/dist/vendor.js", isInternal: false, isNative: false, line: 1 },
+    ])
+  })
+
+  it("resolves sources against sourceRoot and keeps absolute source URLs", async () => {
+    const { load } = createLoader({
+      "https://cdn.example.com/app.js": JSON.stringify({
+        ...appMap,
+        sourceRoot: "src",
+        sources: ["users.ts", "webpack://app/src/routes.ts"],
+      }),
+    })
+
+    const remapped = await createSourceMapper(load).remap(
+      fault({
+        stack: [
+          "a@https://cdn.example.com/app.js:1:15",
+          "b@https://cdn.example.com/app.js:1:41",
+        ].join("\n"),
+      })
+    )
+
+    expect(remapped.stack).toBe(
+      [
+        "findUser@https://cdn.example.com/src/users.ts:12:7",
+        "handle@webpack://app/src/routes.ts:5:3",
+      ].join("\n")
+    )
+  })
+
+  it("caches parsed maps until cleared", async () => {
+    const { calls, load } = createLoader({ "/srv/dist/app.js": appMap })
+    const mapper = createSourceMapper(load)
+    const input = fault({
+      stack: "Error: boom\n    at a (/srv/dist/app.js:1:15)\n    at b (/srv/dist/app.js:2:3)",
+    })
+
+    await mapper.remap(input)
+    await mapper.remap(input)
+    expect(calls).toEqual(["/srv/dist/app.js"])
+
+    mapper.clear()
+    await mapper.remap(input)
+    expect(calls).toEqual(["/srv/dist/app.js", "/srv/dist/app.js"])
+  })
+
+  it("leaves frames of invalid maps unchanged and retries them on the next call", async () => {
+    let attempts = 0
+    const mapper = createSourceMapper(() => {
+      attempts += 1
+      return attempts === 1 ? '{"version":2}' : appMap
+    })
+    const input = fault({ stack: "Error: boom\n    at a (/srv/dist/app.js:1:15)" })
+
+    const first = await mapper.remap(input)
+    const retried = await mapper.remap(input)
+
+    expect(first.stack).toBe(input.stack)
+    expect(attempts).toBe(2)
+    expect(retried.stack).toContain("findUser")
+  })
+})
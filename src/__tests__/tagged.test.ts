@@ -2,7 +2,7 @@ import { describe, expect, it } from "bun:test"
 import fc from "fast-check"
 
 import { ReservedFieldError } from "../errors"
-import { Fault, Tagged } from "../index"
+import { Fault, registry, Tagged } from "../index"
 
 describe("Tagged", () => {
   it("creates class with matching _tag and name", () => {
@@ -70,7 +70,11 @@ describe("Tagged", () => {
     // rule ever drifts from this, the property fails.
     const wireEnvelopeKeys = new Set([
       "__faultier",
+      "__errors",
+      "__frames",
+      "__traits",
       "_tag",
+      "_ancestors",
       "cause",
       "name",
       "message",
@@ -109,3 +113,156 @@ describe("Tagged", () => {
     )
   })
 })
+
+describe("Tagged.extend", () => {
+  class DatabaseError extends Tagged("DatabaseError")<{ query: string }>() {}
+  class ConnectionError extends DatabaseError.extend("ConnectionError")<{ host: string }>() {}
+  class PoolExhaustedError extends ConnectionError.extend("PoolExhaustedError")() {}
+
+  it("creates a child tag that inherits the parent's fields", () => {
+    const fault = new ConnectionError({ host: "db-1", query: "select 1" })
+
+    expect(fault).toBeInstanceOf(DatabaseError)
+    expect(fault._tag).toBe("ConnectionError")
+    expect(fault.name).toBe("ConnectionError")
+    expect(fault.host).toBe("db-1")
+    expect(fault.query).toBe("select 1")
+  })
+
+  it("records parent tags nearest first", () => {
+    expect(new DatabaseError({ query: "q" })._ancestors).toEqual([])
+    expect(new ConnectionError({ host: "h", query: "q" })._ancestors).toEqual(["DatabaseError"])
+    expect(new PoolExhaustedError({ host: "h", query: "q" })._ancestors).toEqual([
+      "ConnectionError",
+      "DatabaseError",
+    ])
+  })
+
+  it("keeps the parent's tag for plain subclasses", () => {
+    class CustomDatabaseError extends DatabaseError {}
+
+    const fault = new CustomDatabaseError({ query: "q" })
+
+    expect(fault._tag).toBe("DatabaseError")
+    expect(fault._ancestors).toEqual([])
+  })
+
+  it("rejects reserved keys in child fields", () => {
+    class InvalidChild extends DatabaseError.extend("InvalidChild")<{ _ancestors: string }>() {}
+
+    expect(() => new InvalidChild({ _ancestors: "nope", query: "q" })).toThrow(ReservedFieldError)
+  })
+
+  it("extends aggregates into child aggregates", () => {
+    class BatchError extends Tagged("BatchError").aggregate() {}
+    class ImportError extends BatchError.extend("ImportError")<{ file: string }>() {}
+
+    const fault = new ImportError({ file: "a.csv" }).withErrors([new Error("row 1")])
+
+    expect(fault).toBeInstanceOf(BatchError)
+    expect(fault._ancestors).toEqual(["BatchError"])
+    expect(fault.errors).toHaveLength(1)
+  })
+})
+
+describe("Tagged message templates", () => {
+  class NotFoundError extends Tagged("NotFoundError")<{ id: string; resource: string }>({
+    details: "Lookup by id {id}",
+    message: ({ id, resource }) => `${resource} ${id} not found`,
+  }) {}
+  class UserNotFoundError extends NotFoundError.extend("UserNotFoundError")<{ email: string }>({
+    message: ({ email }) => `No user with email ${email}`,
+  }) {}
+
+  const AppFault = registry({ NotFoundError, UserNotFoundError })
+
+  it("computes message and details from fields at construction", () => {
+    const fault = new NotFoundError({ id: "42", resource: "User" })
+
+    expect(fault.message).toBe("User 42 not found")
+    expect(fault.details).toBe("Lookup by id 42")
+    expect(fault.stack).toContain("User 42 not found")
+  })
+
+  it("keeps unknown placeholders and defaults to the tag without templates", () => {
+    class PlainError extends Tagged("PlainError")<{ id: string }>({ message: "{id} vs {other}" }) {}
+    class UntemplatedError extends Tagged("UntemplatedError")() {}
+
+    expect(new PlainError({ id: "1" }).message).toBe("1 vs {other}")
+    expect(new UntemplatedError().message).toBe("UntemplatedError")
+  })
+
+  it("renders object and array fields in placeholders as JSON", () => {
+    class QueryError extends Tagged("QueryError")<{
+      filter: { status: string }
+      ids: number[]
+      missing: null
+    }>({ message: "{filter} {ids} {missing}" }) {}
+
+    expect(new QueryError({ filter: { status: "open" }, ids: [1, 2], missing: null }).message).toBe(
+      '{"status":"open"} [1,2] null'
+    )
+  })
+
+  it("lets withMessage and withDetails override templates", () => {
+    const fault = new NotFoundError({ id: "42", resource: "User" })
+      .withMessage("custom")
+      .withDetails("more")
+
+    expect(fault.message).toBe("custom")
+    expect(fault.details).toBe("more")
+  })
+
+  it("inherits templates per key along extended tags", () => {
+    const fault = new UserNotFoundError({ email: "a@b.c", id: "42", resource: "User" })
+
+    expect(fault.message).toBe("No user with email a@b.c")
+    expect(fault.details).toBe("Lookup by id 42")
+  })
+
+  it("accepts templates with the first call's options", () => {
+    class MissingError extends Tagged("MissingError", {
+      details: "Lookup by id {id}",
+      message: ({ id, resource }) => `${resource as string} ${id as string} not found`,
+    })<{ id: string; resource: string }>({ details: "Lookup by {resource}" }) {}
+    class MissingTeamError extends MissingError.extend("MissingTeamError", {
+      message: "No team {id}",
+    })() {}
+
+    const fault = new MissingError({ id: "42", resource: "User" })
+    const { message: _message, ...withoutMessage } = fault.toSerializable()
+
+    expect(fault.message).toBe("User 42 not found")
+    expect(fault.details).toBe("Lookup by User")
+    expect(new MissingTeamError({ id: "7", resource: "Team" }).message).toBe("No team 7")
+    expect(registry({ MissingError }).fromSerializable(withoutMessage).message).toBe(
+      "User 42 not found"
+    )
+  })
+
+  it("applies templates to aggregates", () => {
+    class BatchError extends Tagged("BatchError").aggregate<{ job: string }>({
+      message: "Job {job} failed",
+    }) {}
+
+    expect(new BatchError({ job: "import" }).message).toBe("Job import failed")
+  })
+
+  it("restores templated and overridden messages from the wire", () => {
+    const templated = AppFault.fromSerializable(
+      new NotFoundError({ id: "42", resource: "User" }).toSerializable()
+    )
+    const overridden = AppFault.fromSerializable(
+      new NotFoundError({ id: "42", resource: "User" }).withMessage("custom").toSerializable()
+    )
+    const { message: _message, ...withoutMessage } = new NotFoundError({
+      id: "7",
+      resource: "Team",
+    }).toSerializable()
+
+    expect(templated.message).toBe("User 42 not found")
+    expect(templated.details).toBe("Lookup by id 42")
+    expect(overridden.message).toBe("custom")
+    expect(AppFault.fromSerializable(withoutMessage).message).toBe("Team 7 not found")
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "bun:test"
+
+import type { FaultMatchers } from "../types"
+import { FaultAssertionError } from "../errors"
+import { registry, Tagged } from "../index"
+import { expectFault, faultMatchers } from "../testing"
+
+declare module "bun:test" {
+  // oxlint-disable-next-line typescript/no-empty-interface, typescript/no-empty-object-type -- declaration merging adds the fault matchers.
+  interface Matchers<T> extends FaultMatchers<void> {}
+}
+
+expect.extend(faultMatchers)
+
+class DatabaseError extends Tagged("DatabaseError")<{ query: string }>() {}
+class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
+class TimeoutError extends Tagged("TimeoutError")() {}
+class GatewayTimeoutError extends TimeoutError.extend("GatewayTimeoutError")() {}
+
+const AppFault = registry({ DatabaseError, GatewayTimeoutError, NotFoundError, TimeoutError })
+
+function createChain(): NotFoundError {
+  return new NotFoundError({ id: "42" }).withMeta({ requestId: "r1" }).withCause(
+    new Error("lookup failed", {
+      cause: new DatabaseError({ query: "SELECT 1" }).withMeta({ shard: 2 }),
+    })
+  )
+}
+
+// Runs a matcher and returns its failure message, or undefined when it passes.
+// bun:test pads custom matcher messages with blank lines.
+function failureOf(assertion: () => void): string | undefined {
+  try {
+    assertion()
+  } catch (error) {
+    return (error as Error).message.trim()
+  }
+  return undefined
+}
+
+describe("fault matchers", () => {
+  it("checks faults and their tags", () => {
+    expect(new GatewayTimeoutError()).toBeFault()
+    expect(new GatewayTimeoutError()).toBeFault("TimeoutError")
+    expect(new GatewayTimeoutError()).toHaveFaultTag("GatewayTimeoutError")
+    expect(new GatewayTimeoutError()).not.toHaveFaultTag("TimeoutError")
+    expect(new Error("boom")).not.toBeFault()
+  })
+
+  it("finds tags anywhere in the cause chain", () => {
+    expect(createChain()).toHaveCauseTag("NotFoundError")
+    expect(createChain()).toHaveCauseTag("DatabaseError")
+    expect(new Error("wrapped", { cause: createChain() })).toHaveCauseTag("DatabaseError")
+    expect(createChain()).not.toHaveCauseTag("TimeoutError")
+  })
+
+  it("matches merged meta across the chain", () => {
+    expect(createChain()).toHaveMeta({ requestId: "r1", shard: 2 })
+    expect(createChain()).not.toHaveMeta({ shard: 3 })
+    expect(createChain()).not.toHaveMeta({ missing: undefined })
+  })
+
+  it("checks wire round trips through a registry", () => {
+    class UnregisteredError extends Tagged("UnregisteredError")() {}
+
+    expect(createChain()).toRoundTripThroughWire(AppFault)
+    expect(new GatewayTimeoutError().withMeta({ attempt: 1 })).toRoundTripThroughWire(AppFault)
+    expect(new UnregisteredError()).not.toRoundTripThroughWire(AppFault)
+    expect("oops").not.toRoundTripThroughWire(AppFault)
+  })
+
+  it("renders the received cause chain in failure messages", () => {
+    const message = failureOf(() => {
+      expect(createChain()).toHaveCauseTag("TimeoutError")
+    })
+
+    expect(message).toBe(
+      [
+        "Expected a cause chain containing 'TimeoutError', received:",
+        "",
+        "NotFoundError",
+        '│  id: "42"',
+        '│  meta.requestId: "r1"',
+        "└─ Error: lookup failed",
+        "   └─ DatabaseError",
+        '         query: "SELECT 1"',
+        "         meta.shard: 2",
+      ].join("\n")
+    )
+    expect(
+      failureOf(() => {
+        expect(new TimeoutError()).not.toBeFault("TimeoutError")
+      })
+    ).toStartWith("Expected not a fault tagged 'TimeoutError', received:\n\nTimeoutError")
+  })
+})
+
+describe("expectFault", () => {
+  it("returns a synchronously thrown fault with the expected tag", () => {
+    const fault = expectFault(() => {
+      throw new NotFoundError({ id: "1" })
+    }).throws.withTag("NotFoundError")
+
+    expect(fault).toBeInstanceOf(NotFoundError)
+    expect(fault._tag).toBe("NotFoundError")
+  })
+
+  it("resolves rejected and synchronously thrown faults", async () => {
+    const rejected = await expectFault(() => Promise.reject(new TimeoutError())).rejects.withTag(
+      "TimeoutError"
+    )
+    const thrown = await expectFault(() => {
+      throw new TimeoutError()
+    }).rejects.withTag("TimeoutError")
+
+    expect(rejected).toBeInstanceOf(TimeoutError)
+    expect(thrown).toBeInstanceOf(TimeoutError)
+  })
+
+  it("throws FaultAssertionError with the received chain on a mismatch", async () => {
+    const pending = expectFault(() => Promise.reject(createChain())).rejects.withTag(
+      "DatabaseError"
+    )
+    const error = await pending.catch((error_: unknown) => error_)
+
+    expect(error).toBeInstanceOf(FaultAssertionError)
+    expect((error as FaultAssertionError).expectedTag).toBe("DatabaseError")
+    expect((error as FaultAssertionError).message).toStartWith(
+      "Expected a fault tagged 'DatabaseError', received:\n\nNotFoundError\n"
+    )
+    expect((error as FaultAssertionError).cause).toBeInstanceOf(NotFoundError)
+  })
+
+  it("fails when nothing is thrown", () => {
+    expect(() => expectFault(() => 1).throws.withTag("TimeoutError")).toThrow(
+      "Expected a fault tagged 'TimeoutError', received:\n\nnothing; the function did not throw"
+    )
+  })
+
+  it("points async functions at rejects", () => {
+    expect(() =>
+      expectFault(() => Promise.reject(new TimeoutError())).throws.withTag("TimeoutError")
+    ).toThrow("The function returned a promise; use expectFault(fn).rejects")
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test"
+
+import type { SerializableFault } from "../types"
+import { ReservedFieldError } from "../errors"
+import { fromSerializable, hasTraits, merge, registry, Tagged } from "../index"
+
+class TimeoutError extends Tagged("TimeoutError", {
+  traits: { category: "system", retryable: true, severity: "warning" },
+})() {}
+class NotFoundError extends Tagged("NotFoundError", {
+  traits: { category: "user", expose: true, severity: "info" },
+})<{ id: string }>() {}
+class GatewayTimeoutError extends TimeoutError.extend("GatewayTimeoutError", {
+  traits: { severity: "error" },
+})() {}
+class UnknownError extends Tagged("UnknownError")() {}
+
+const AppFault = registry({ GatewayTimeoutError, NotFoundError, TimeoutError, UnknownError })
+
+describe("traits", () => {
+  it("resolves class traits with defaults", () => {
+    expect(new TimeoutError().getTraits()).toEqual({
+      category: "system",
+      expose: false,
+      retryable: true,
+      severity: "warning",
+    })
+    expect(new UnknownError().getTraits()).toEqual({
+      expose: false,
+      retryable: false,
+      severity: "error",
+    })
+    expect(new NotFoundError({ id: "1" }).getTraits().severity).toBe("info")
+    expect(new TimeoutError().getTraits().retryable).toBe(true)
+  })
+
+  it("inherits each trait unless an extended tag redeclares it", () => {
+    const fault = new GatewayTimeoutError()
+
+    expect(fault.getTraits().severity).toBe("error")
+    expect(fault.getTraits().retryable).toBe(true)
+    expect(fault.getTraits().category).toBe("system")
+  })
+
+  it("overrides traits per instance", () => {
+    const fault = new TimeoutError().withSeverity("fatal").withRetryable(false)
+
+    expect(fault.getTraits().severity).toBe("fatal")
+    expect(fault.getTraits().retryable).toBe(false)
+    expect(new TimeoutError().getTraits().severity).toBe("warning")
+    expect(new UnknownError().withRetryable().getTraits().retryable).toBe(true)
+  })
+
+  it("matches traits on a fault or anywhere in its chain", () => {
+    const fault = new NotFoundError({ id: "1" }).withCause(
+      new Error("wrapped", { cause: new TimeoutError() })
+    )
+
+    expect(hasTraits(fault, { retryable: true })).toBe(false)
+    expect(hasTraits(fault, { retryable: true }, { chain: true })).toBe(true)
+    expect(hasTraits(fault, { category: "user", expose: true })).toBe(true)
+    expect(hasTraits(fault, (traits) => traits.severity === "fatal", { chain: true })).toBe(false)
+  })
+
+  it("filters registry tags by class traits", () => {
+    expect(AppFault.tagsWhere({ retryable: true })).toEqual(["GatewayTimeoutError", "TimeoutError"])
+    expect(AppFault.tagsWhere({ severity: "error" })).toEqual([
+      "GatewayTimeoutError",
+      "UnknownError",
+    ])
+    expect(AppFault.tagsWhere((traits) => traits.expose)).toEqual(["NotFoundError"])
+    class ValidationError extends Tagged("ValidationError", { traits: { category: "user" } })() {}
+    const merged = merge(AppFault, registry({ ValidationError }))
+
+    expect(merged.tagsWhere({ category: "user" })).toEqual(["NotFoundError", "ValidationError"])
+  })
+
+  it("round-trips traits through the wire format", () => {
+    const fault = new TimeoutError().withSeverity("fatal")
+    const json = fault.toSerializable()
+
+    expect(json.__traits).toEqual({ category: "system", retryable: true, severity: "fatal" })
+    expect(new UnknownError().toSerializable().__traits).toBeUndefined()
+    expect(fromSerializable(json).getTraits()).toEqual(fault.getTraits())
+    expect(AppFault.fromSerializable(json).getTraits()).toEqual(fault.getTraits())
+  })
+
+  it("ignores unknown or mistyped wire traits", () => {
+    const json: SerializableFault = {
+      __faultier: true,
+      __traits: { expose: true, retryable: "yes" as unknown as boolean, severity: "loud" },
+      _tag: "UnknownError",
+      name: "UnknownError",
+    }
+
+    expect(fromSerializable(json).getTraits()).toEqual({
+      expose: true,
+      retryable: false,
+      severity: "error",
+    })
+  })
+
+  it("rejects payloads whose traits are not an object", () => {
+    const json = { __faultier: true, __traits: [], _tag: "UnknownError", name: "UnknownError" }
+
+    expect(() => fromSerializable(json as unknown as SerializableFault)).toThrow(
+      "Invalid Faultier payload: __traits must be an object"
+    )
+  })
+
+  it("leaves trait names free as field names", () => {
+    class RetryError extends Tagged("RetryError")<{
+      hasTraits: boolean
+      retryable: boolean
+      severity: string
+    }>() {}
+    class TraitsError extends Tagged("TraitsError")<{ getTraits: string }>() {}
+    const fault = new RetryError({ hasTraits: true, retryable: true, severity: "high" })
+
+    expect(fault.severity).toBe("high")
+    expect(fault.hasTraits).toBe(true)
+    expect(hasTraits(fault, { retryable: true })).toBe(false)
+    expect(fault.getTraits().retryable).toBe(false)
+    expect(() => new TraitsError({ getTraits: "x" })).toThrow(ReservedFieldError)
+  })
+})
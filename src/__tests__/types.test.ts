@@ -1,25 +1,85 @@
 // Type assertions are enforced by `bun run check` and `bun run typecheck`, not `bun test`.
 import { describe, it } from "bun:test"
+import fc from "fast-check"
 
 import type {
   ByTag,
+  CauseOfTag,
+  CauseTree,
+  Codec,
+  CodecTypes,
+  CompleteMessageCatalogs,
+  ContextEntry,
+  ContextOptions,
+  DeserializeMode,
+  DeserializeOptions,
+  Err,
+  FaultExpectation,
+  FaultMatchers,
   FaultRegistry,
+  FaultSeverity,
+  FaultTraits,
+  FieldIssue,
+  FieldSchema,
+  FieldValue,
   FlattenField,
   FlattenOptions,
+  FormatOptions,
+  FramesOptions,
+  Matcher,
+  Ok,
+  ProblemDetails,
+  RedactionPolicy,
+  RedactionProfile,
+  RawSourceMap,
+  RegistryOptions,
+  Result,
+  RetryContext,
+  RetryOptions,
   SerializableCause,
   SerializableFault,
   SerializableValue,
+  SerializeOptions,
+  SourceMapLoader,
+  SourceMapper,
+  StackFormat,
+  StackFrame,
+  TaggedOptions,
   TagOf,
+  ToResponseOptions,
+  TraitFilter,
+  UnhandledTags,
+  WireDiagnostic,
+  WireMigration,
 } from "../types"
+import { arbFault, arbSerializableFault } from "../arbitraries"
+import { builtinCodecs, dateCodec } from "../codecs"
+import { FieldValidationError, InvalidWirePayloadError } from "../errors"
+import { fromResponse, toResponse } from "../http"
 import {
+  type AggregateFault,
+  everyError,
   type Fault,
+  findCause,
+  formatFault,
+  frames,
   fromSerializable,
+  getContextEntries,
+  isFaultLike,
+  match as matchFault,
+  matchCauseTags,
   matchTag,
   matchTags,
   merge,
   registry,
+  someError,
   Tagged,
+  unwrapTree,
 } from "../index"
+import { andThen, err, map, mapErr, match, ok } from "../result"
+import { retry } from "../retry"
+import { createSourceMapper } from "../sourcemap"
+import { expectFault } from "../testing"
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 type Equal<A, B> =
@@ -36,6 +96,22 @@ type JsonValue =
   | readonly JsonValue[]
   | { readonly [key: string]: JsonValue }
 
+// Shapes a validator the way schema libraries type theirs: input and output
+// types live on the optional `types` property.
+function fieldSchema<
+  Input extends Record<string, unknown>,
+  Output extends Record<string, FieldValue>,
+>(parse: (value: unknown) => Output) {
+  return {
+    "~standard": {
+      types: undefined as { input: Input; output: Output } | undefined,
+      validate: (value: unknown) => ({ value: parse(value) }),
+      vendor: "test",
+      version: 1 as const,
+    },
+  }
+}
+
 // ── Test fixtures ────────────────────────────────────────────────────────────
 class NotFoundError extends Tagged("NotFoundError")<{ id: string }>() {}
 class TimeoutError extends Tagged("TimeoutError")() {}
@@ -81,7 +157,9 @@ describe("type-level inference", () => {
     type _Tags = Expect<Equal<TagOf<AppError>, "NotFoundError" | "PaymentError" | "TimeoutError">>
     type _ByTag = Expect<Equal<ByTag<AppError, "PaymentError">, PaymentError>>
     type _SerializableMarker = Expect<Equal<SerializableFault["__faultier"], true>>
-    type _CauseKinds = Expect<Equal<SerializableCause["kind"], "error" | "fault" | "thrown">>
+    type _CauseKinds = Expect<
+      Equal<SerializableCause["kind"], "aggregate" | "error" | "fault" | "thrown">
+    >
     type _SerializableFaultIsJsonValue = Expect<SerializableFault extends JsonValue ? true : false>
     type _ThrownValueIsSerializable = Expect<
       Equal<Extract<SerializableCause, { kind: "thrown" }>["value"], SerializableValue>
@@ -125,6 +203,23 @@ describe("type-level inference", () => {
     type _Restored = Expect<Equal<typeof restored, Fault | NotFoundError | TimeoutError>>
   })
 
+  it("types brand-based recognition and adoption", () => {
+    const value: unknown = AppFault.create("TimeoutError")
+    const adopted = AppFault.adopt(value)
+
+    if (isFaultLike(value)) {
+      type _Fault = Expect<Equal<typeof value, Fault>>
+    }
+    if (AppFault.isLike(value)) {
+      type _Narrowed = Expect<Equal<typeof value, NotFoundError | TimeoutError>>
+    }
+    if (AppFault.isLike(value, "NotFoundError")) {
+      type _Tagged = Expect<Equal<typeof value, NotFoundError>>
+    }
+
+    type _Adopted = Expect<Equal<typeof adopted, NotFoundError | TimeoutError | undefined>>
+  })
+
   it("types the registry.matchTag handler instance", () => {
     const fault = AppFault.create("NotFoundError", { id: "123" })
 
@@ -310,6 +405,473 @@ describe("type-level inference", () => {
     type _WithFallback = Expect<Equal<typeof withFallback, "not-found" | false>>
   })
 
+  it("narrows match builder handlers and accumulates results", () => {
+    const err = new TimeoutError() as AppError
+
+    const exhaustive = matchFault(err)
+      .with("NotFoundError", (e) => {
+        type _IsNotFound = Expect<Equal<typeof e, NotFoundError>>
+        return e.id
+      })
+      .with(["TimeoutError", "PaymentError"], (e) => {
+        type _IsRest = Expect<Equal<typeof e, TimeoutError | PaymentError>>
+        return 503 as const
+      })
+      .exhaustive()
+
+    const partial = matchFault(err).with("TimeoutError", () => 408 as const)
+    const withRun = partial.run()
+    const withOtherwise = partial.otherwise((e) => {
+      type _IsRemaining = Expect<Equal<typeof e, NotFoundError | PaymentError>>
+      return false as const
+    })
+
+    type _Exhaustive = Expect<Equal<typeof exhaustive, string | 503>>
+    type _Partial = Expect<
+      Equal<typeof partial, Matcher<AppError, NotFoundError | PaymentError, 408>>
+    >
+    type _PartialExhaustive = Expect<
+      Equal<(typeof partial)["exhaustive"], UnhandledTags<"NotFoundError" | "PaymentError">>
+    >
+    type _WithRun = Expect<Equal<typeof withRun, 408 | undefined>>
+    type _WithOtherwise = Expect<Equal<typeof withOtherwise, 408 | false>>
+  })
+
+  it("types registry.match builders", () => {
+    const value: unknown = AppFault.create("TimeoutError")
+
+    const exhaustive = AppFault.match(value)
+      .with("NotFoundError", (e) => {
+        type _IsNotFound = Expect<Equal<typeof e, NotFoundError>>
+        return e.id
+      })
+      .with("TimeoutError", () => 408 as const)
+      .exhaustive()
+    const withOtherwise = AppFault.match(value)
+      .with("TimeoutError", () => 408 as const)
+      .otherwise((e) => {
+        type _IsUnknown = Expect<Equal<typeof e, unknown>>
+        return false as const
+      })
+
+    type _Exhaustive = Expect<Equal<typeof exhaustive, string | 408>>
+    type _WithOtherwise = Expect<Equal<typeof withOtherwise, 408 | false>>
+  })
+
+  it("types findCause by constructor and tag", () => {
+    const err = new TimeoutError() as AppError
+
+    const byCtor = findCause(err, NotFoundError)
+    const byTag = findCause(err, "DatabaseError")
+    const registryCause = AppFault.findCause(err, "NotFoundError")
+
+    type _ByCtor = Expect<Equal<typeof byCtor, NotFoundError | undefined>>
+    type _ByTag = Expect<Equal<typeof byTag, CauseOfTag<"DatabaseError"> | undefined>>
+    type _ByTagName = Expect<Equal<NonNullable<typeof byTag>["_tag"], "DatabaseError">>
+    type _RegistryCause = Expect<Equal<typeof registryCause, NotFoundError | undefined>>
+  })
+
+  it("types extended tags, parent handlers, and registry.is narrowing", () => {
+    class DbError extends Tagged("DbError")<{ query: string }>() {}
+    class ConnectionError extends DbError.extend("ConnectionError")<{ host: string }>() {}
+    class PoolError extends ConnectionError.extend("PoolError")() {}
+    type DataError = ConnectionError | PoolError | TimeoutError
+
+    const connection = new ConnectionError({ host: "h", query: "q" })
+    const pool = new PoolError({ host: "h", query: "q" }).withMeta({ size: 1 })
+    const error = connection as DataError
+    const Faults = registry({ ConnectionError, PoolError, TimeoutError })
+
+    type _ChildTag = Expect<Equal<typeof connection._tag, "ConnectionError">>
+    type _InheritedField = Expect<Equal<typeof connection.query, string>>
+    type _OwnField = Expect<Equal<typeof connection.host, string>>
+    type _Ancestors = Expect<Equal<(typeof pool._ancestors)[number], "ConnectionError" | "DbError">>
+    type _FluentChild = Expect<Equal<typeof pool, PoolError>>
+
+    const exhaustive = matchTags(error, {
+      DbError: (e) => {
+        type _Family = Expect<Equal<typeof e, ConnectionError | PoolError>>
+        return e.query
+      },
+      TimeoutError: () => "timeout",
+    })
+    type _Exhaustive = Expect<Equal<typeof exhaustive, string>>
+
+    const partial = matchTags(error, { ConnectionError: (e) => e.host })
+    type _Partial = Expect<Equal<typeof partial, string | undefined>>
+
+    const value: unknown = connection
+    if (Faults.is(value, "DbError")) {
+      type _Narrowed = Expect<Equal<typeof value, ConnectionError | PoolError>>
+    }
+
+    Faults.matchTags(value, { DbError: (e) => e.query })
+  })
+
+  it("types aggregate faults, cause trees, and child matching", () => {
+    class BatchError extends Tagged("BatchError").aggregate<{ job: string }>() {}
+
+    const batch = new BatchError({ job: "upload" }).withErrors([new TimeoutError()])
+    const tree = unwrapTree(batch)
+
+    type _BatchTag = Expect<Equal<typeof batch._tag, "BatchError">>
+    type _BatchJob = Expect<Equal<typeof batch.job, string>>
+    type _BatchIsAggregate = Expect<typeof batch extends AggregateFault ? true : false>
+    type _Errors = Expect<Equal<typeof batch.errors, readonly unknown[]>>
+    type _Tree = Expect<Equal<typeof tree, CauseTree>>
+    type _Some = Expect<Equal<ReturnType<typeof someError>, boolean>>
+    type _Every = Expect<Equal<ReturnType<typeof everyError>, boolean>>
+
+    void [
+      someError(new AggregateError([], "none"), TimeoutError),
+      everyError(batch, "TimeoutError"),
+    ]
+  })
+
+  it("types matchCauseTags handlers and results", () => {
+    const err = new TimeoutError() as AppError
+
+    const standalone = matchCauseTags(err, {
+      DatabaseError: (fault) => {
+        type _IsTagged = Expect<Equal<typeof fault, CauseOfTag<"DatabaseError">>>
+        return 503 as const
+      },
+    })
+    const withFallback = matchCauseTags(err, { DatabaseError: () => 503 as const }, (head) => {
+      type _IsFault = Expect<Equal<typeof head, Fault>>
+      return 500 as const
+    })
+    const registryResult = AppFault.matchCauseTags(err, {
+      NotFoundError: (fault) => {
+        type _IsNotFound = Expect<Equal<typeof fault, NotFoundError>>
+        return fault.id
+      },
+    })
+
+    type _Standalone = Expect<Equal<typeof standalone, 503 | undefined>>
+    type _WithFallback = Expect<Equal<typeof withFallback, 503 | 500>>
+    type _RegistryResult = Expect<Equal<typeof registryResult, string | undefined>>
+  })
+
+  it("types registry HTTP metadata and problem details", () => {
+    const HttpFault = registry(
+      { NotFoundError, TimeoutError },
+      { http: { NotFoundError: { status: 404, title: "Not Found" } } }
+    )
+    const problem = HttpFault.toProblemDetails(new Error("boom"), { meta: true })
+    const restored = HttpFault.fromProblemDetails(problem)
+
+    type _SameRegistry = Expect<Equal<typeof HttpFault, typeof AppFault>>
+    type _Problem = Expect<Equal<typeof problem, ProblemDetails>>
+    type _Status = Expect<Equal<typeof problem.status, number>>
+    type _Restored = Expect<Equal<typeof restored, Fault | NotFoundError | TimeoutError>>
+    type _HttpKeys = Expect<
+      Equal<
+        keyof NonNullable<RegistryOptions<{ NotFoundError: typeof NotFoundError }>["http"]>,
+        "NotFoundError"
+      >
+    >
+  })
+
+  it("types wire migrations", () => {
+    const migration: WireMigration = {
+      fields: { NotFoundError: ({ key, ...fields }) => ({ ...fields, id: key }) },
+      tags: { MissingError: "NotFoundError" },
+      version: 1,
+    }
+    const versioned = registry(
+      { NotFoundError },
+      { migrations: [migration], unversionedAs: 0, version: 2 }
+    )
+    const json = versioned.toSerializable(new NotFoundError({ id: "1" }))
+
+    type _Version = Expect<Equal<typeof json.__v, number | undefined>>
+    type _Upgraded = Expect<
+      Equal<
+        ReturnType<NonNullable<WireMigration["fields"]>[string]>,
+        Record<string, SerializableValue>
+      >
+    >
+  })
+
+  it("types deserialization modes and diagnostics", () => {
+    const options: DeserializeOptions = { mode: "strict" }
+    const json = AppFault.toSerializable(AppFault.create("TimeoutError"))
+    const strict = AppFault.fromSerializable(json, options)
+    const lenient = fromSerializable(json, { mode: "lenient" })
+    const error = new InvalidWirePayloadError({ diagnostics: [{ message: "bad", path: "/__v" }] })
+
+    type _Mode = Expect<Equal<DeserializeMode, "strict" | "lenient" | "permissive">>
+    type _Strict = Expect<Equal<typeof strict, Fault | NotFoundError | TimeoutError>>
+    type _Lenient = Expect<Equal<typeof lenient, Fault>>
+    const diagnostics = lenient.getDiagnostics()
+    const rejected = error.getDiagnostics()
+
+    type _Diagnostics = Expect<Equal<typeof diagnostics, readonly WireDiagnostic[]>>
+    type _Rejected = Expect<Equal<typeof rejected, readonly WireDiagnostic[]>>
+  })
+
+  it("types Response helpers", async () => {
+    const options: ToResponseOptions = { headers: { "retry-after": "5" }, status: 503 }
+    const response = toResponse(AppFault, new Error("boom"), options)
+    const restored = await fromResponse(AppFault, response)
+
+    type _Response = Expect<Equal<typeof response, Response>>
+    type _Restored = Expect<Equal<typeof restored, Fault | NotFoundError | TimeoutError>>
+
+    const viaRegistry = await AppFault.fromResponse(AppFault.toResponse(new Error("boom"), options))
+
+    type _ViaRegistry = Expect<Equal<typeof viaRegistry, Fault | NotFoundError | TimeoutError>>
+  })
+
+  it("types source mappers", async () => {
+    const map: RawSourceMap = { mappings: "", sources: [], version: 3 }
+    const load: SourceMapLoader = (file) => (file.endsWith(".js") ? map : undefined)
+    const mapper = createSourceMapper(load)
+    const remapped = await mapper.remap(new TimeoutError().toSerializable())
+
+    type _Mapper = Expect<Equal<typeof mapper, SourceMapper>>
+    type _Remapped = Expect<Equal<typeof remapped, SerializableFault>>
+  })
+
+  it("types retries", async () => {
+    const options: RetryOptions = { backoff: { jitter: false }, maxAttempts: 5 }
+    const user = await retry((context) => ({ attempt: context.attempt }), options)
+    const count = await retry(() => Promise.resolve(1), {
+      registry: AppFault,
+      retryOn: ["TimeoutError"],
+    })
+    const predicate = await retry(() => "ok", { retryOn: (error) => error instanceof Error })
+
+    type _Context = Expect<Equal<Parameters<Parameters<typeof retry>[0]>[0], RetryContext>>
+    type _User = Expect<Equal<typeof user, { attempt: number }>>
+    type _Count = Expect<Equal<typeof count, number>>
+    type _Predicate = Expect<Equal<typeof predicate, string>>
+  })
+
+  it("types test helpers", async () => {
+    const expectation = expectFault(() => {
+      throw AppFault.create("TimeoutError")
+    })
+    const thrown = expectation.throws.withTag("TimeoutError")
+    const rejected = await expectation.rejects.withTag("TimeoutError")
+
+    type _Expectation = Expect<Equal<typeof expectation, FaultExpectation>>
+    type _Thrown = Expect<Equal<typeof thrown, CauseOfTag<"TimeoutError">>>
+    type _Rejected = Expect<Equal<typeof rejected, CauseOfTag<"TimeoutError">>>
+    type _Matcher = Expect<Equal<ReturnType<FaultMatchers<void>["toHaveCauseTag"]>, void>>
+  })
+
+  it("types arbitraries", () => {
+    const faults = arbFault(AppFault, { fields: { NotFoundError: fc.record({ id: fc.string() }) } })
+    const payloads = arbSerializableFault({ maxDepth: 5, tags: AppFault.tags })
+
+    type _Faults = Expect<Equal<typeof faults, fc.Arbitrary<NotFoundError | TimeoutError>>>
+    type _Payloads = Expect<Equal<typeof payloads, fc.Arbitrary<SerializableFault>>>
+  })
+
+  it("types codecs and codec-widened field values", () => {
+    const CodecFault = registry({ TimeoutError }, { codecs: [dateCodec, ...builtinCodecs] })
+
+    type _CodecList = Expect<Equal<typeof builtinCodecs, readonly Codec[]>>
+    type _DateCodec = Expect<Equal<Parameters<typeof dateCodec.encode>[0], Date>>
+    type _CodecValues = Expect<CodecTypes[keyof CodecTypes] extends FieldValue ? true : false>
+    type _JsonValues = Expect<SerializableValue extends FieldValue ? true : false>
+
+    void CodecFault
+  })
+
+  it("types redaction options", () => {
+    const options: TaggedOptions = { sensitive: ["token"] }
+    class TokenError extends Tagged("TokenError", options)<{ token: string }>() {}
+    const policy: RedactionPolicy = { meta: ["auth*"], replacement: null, stack: { frames: 3 } }
+    const TokenFault = registry(
+      { TokenError },
+      { redact: "public", redactionProfiles: { internal: policy } }
+    )
+    const json = TokenFault.toSerializable(new TokenError({ token: "t" }), { redact: false })
+
+    type _Profiles = Expect<Equal<RedactionProfile, "internal" | "public">>
+    type _Redact = Expect<
+      Equal<SerializeOptions["redact"], RedactionProfile | RedactionPolicy | false | undefined>
+    >
+    type _Json = Expect<Equal<typeof json, SerializableFault>>
+  })
+
+  it("types context strategies and entries", () => {
+    const options: ContextOptions = { namespace: true, strategy: "leaf" }
+    const merged = new TimeoutError().getContext(options)
+    const collected = new TimeoutError().getContext({ strategy: "collect" })
+    const entries = getContextEntries(new TimeoutError())
+
+    type _Merged = Expect<Equal<typeof merged, Record<string, unknown>>>
+    type _Collected = Expect<Equal<typeof collected, Record<string, unknown[]>>>
+    type _Entries = Expect<Equal<typeof entries, ContextEntry[]>>
+  })
+
+  it("types traits and trait filters", () => {
+    class RetryableError extends Tagged("RetryableError", {
+      traits: { category: "network", retryable: true, severity: "warning" },
+    })() {}
+    const TraitFault = registry({ RetryableError, TimeoutError })
+    const filter: TraitFilter = { retryable: true }
+    const fault = new RetryableError().withSeverity("fatal")
+    const tags = TraitFault.tagsWhere(filter)
+
+    const traits = fault.getTraits()
+
+    type _Traits = Expect<Equal<typeof traits, FaultTraits>>
+    type _Severity = Expect<Equal<typeof traits.severity, FaultSeverity>>
+    type _Fluent = Expect<Equal<typeof fault, RetryableError>>
+    type _Tags = Expect<Equal<typeof tags, Array<"RetryableError" | "TimeoutError">>>
+  })
+
+  it("types fault formatting", () => {
+    const options: FormatOptions = { color: true, meta: false, payload: true, stack: 3 }
+    const text = formatFault(new TimeoutError(), options)
+
+    type _Text = Expect<Equal<typeof text, string>>
+  })
+
+  it("types stack frames and stack formats", () => {
+    const options: FramesOptions = { exclude: ["node_modules", (frame) => frame.isNative] }
+    const parsed = frames(new TimeoutError(), options)
+    const json = new TimeoutError().toSerializable({ frames: options, stackFormat: "both" })
+
+    type _Frames = Expect<Equal<typeof parsed, StackFrame[]>>
+    type _Wire = Expect<Equal<typeof json.__frames, StackFrame[] | undefined>>
+    type _Format = Expect<Equal<StackFormat, "string" | "frames" | "both">>
+  })
+
+  it("infers Tagged fields from a schema", () => {
+    const schema = fieldSchema<{ id: string; retries?: number }, { id: string; retries: number }>(
+      (value) => ({ retries: 0, ...(value as { id: string }) })
+    )
+    class RetryError extends Tagged("RetryError", { schema })() {}
+    class BatchRetryError extends Tagged("BatchRetryError", { schema }).aggregate() {}
+    const fault = new RetryError({ id: "1" })
+    const issues = new FieldValidationError({ issues: [], tag: "RetryError" }).issues
+
+    type _Schema = Expect<typeof schema extends FieldSchema ? true : false>
+    type _Tag = Expect<Equal<typeof fault._tag, "RetryError">>
+    type _Output = Expect<Equal<typeof fault.retries, number>>
+    type _Input = Expect<
+      Equal<ConstructorParameters<typeof RetryError>, [fields: { id: string; retries?: number }]>
+    >
+    type _Aggregate = Expect<Equal<InstanceType<typeof BatchRetryError>["retries"], number>>
+    type _Issues = Expect<Equal<typeof issues, FieldIssue[]>>
+  })
+
+  it("types first-call templates loosely unless a schema supplies the fields", () => {
+    const schema = fieldSchema<{ at: string }, { at: number }>((value) => ({
+      at: Number((value as { at: string }).at),
+    }))
+
+    Tagged("LooseError", {
+      message: ({ id }) => {
+        type _Id = Expect<Equal<typeof id, FieldValue>>
+        return "loose"
+      },
+    })
+    Tagged("SchemaTemplateError", {
+      message: ({ at }) => {
+        type _At = Expect<Equal<typeof at, number>>
+        return `At ${at}`
+      },
+      schema,
+    })
+  })
+
+  it("types message templates from the declared fields", () => {
+    class QuotaError extends Tagged("QuotaError")<{ limit: number }>({
+      message: ({ limit }) => {
+        type _Limit = Expect<Equal<typeof limit, number>>
+        return `Limit ${limit} reached`
+      },
+    }) {}
+    class TeamQuotaError extends QuotaError.extend("TeamQuotaError")<{ team: string }>({
+      details: ({ limit, team }) => `${team}: ${limit}`,
+    }) {}
+    const schema = fieldSchema<{ at: string }, { at: number }>((value) => ({
+      at: Number((value as { at: string }).at),
+    }))
+    class ScheduledError extends Tagged("ScheduledError", { schema })({
+      message: ({ at }) => {
+        type _Output = Expect<Equal<typeof at, number>>
+        return `At ${at}`
+      },
+    }) {}
+
+    void new TeamQuotaError({ limit: 1, team: "a" })
+    void new ScheduledError({ at: "1" })
+  })
+
+  it("types message catalogs and localize", () => {
+    const LocalizedFault = registry(
+      { NotFoundError, TimeoutError },
+      {
+        messages: {
+          en: {
+            NotFoundError: (fault, locale) => {
+              type _Fault = Expect<Equal<typeof fault, NotFoundError>>
+              type _Locale = Expect<Equal<typeof locale, string>>
+              return `${fault.id} missing`
+            },
+          },
+        },
+      }
+    )
+    const complete = {
+      en: { NotFoundError: "Missing {id}", TimeoutError: "Timed out" },
+    } satisfies CompleteMessageCatalogs<typeof LocalizedFault>
+    const message = LocalizedFault.localize(new TimeoutError(), ["en-US", "en"])
+
+    type _Message = Expect<Equal<typeof message, string | undefined>>
+    void complete
+  })
+
+  it("types registry.try and registry.tryAsync results", async () => {
+    const result = AppFault.try(() => 42, "NotFoundError", { id: "123" })
+    const asyncResult = await AppFault.tryAsync(() => Promise.resolve("done"), "TimeoutError")
+
+    type _Result = Expect<Equal<typeof result, Result<number, NotFoundError>>>
+    type _AsyncResult = Expect<Equal<typeof asyncResult, Result<string, TimeoutError>>>
+
+    if (!result.ok) {
+      type _Error = Expect<Equal<typeof result.error, NotFoundError>>
+    }
+  })
+
+  it("types Result combinators", () => {
+    const success = ok(1)
+    const failure = err(new TimeoutError())
+    const mapped = map(success as Result<number, TimeoutError>, (value) => `${value}`)
+    const remapped = mapErr(
+      failure as Result<number, TimeoutError>,
+      () => new PaymentError({ invoiceId: "inv_1" })
+    )
+    const chained = andThen(success as Result<number, TimeoutError>, (value) =>
+      value > 0 ? ok(value) : err(new NotFoundError({ id: `${value}` }))
+    )
+    const folded = match(chained, {
+      err: (fault) => {
+        type _Fault = Expect<Equal<typeof fault, TimeoutError | NotFoundError>>
+        return matchTags(fault, {
+          NotFoundError: () => 404 as const,
+          TimeoutError: () => 408 as const,
+        })
+      },
+      ok: () => 200 as const,
+    })
+
+    type _Success = Expect<Equal<typeof success, Ok<number>>>
+    type _Failure = Expect<Equal<typeof failure, Err<TimeoutError>>>
+    type _Mapped = Expect<Equal<typeof mapped, Result<string, TimeoutError>>>
+    type _Remapped = Expect<Equal<typeof remapped, Result<number, PaymentError>>>
+    type _Chained = Expect<Equal<typeof chained, Result<number, TimeoutError | NotFoundError>>>
+    type _Folded = Expect<Equal<typeof folded, 200 | 404 | 408>>
+  })
+
   it("preserves merge type inference across three or more modules", () => {
     const MergedFault = merge(AppFault, DbFault, BillingFault)
 
@@ -342,6 +904,30 @@ describe("type-level inference", () => {
 // The function bodies never execute — only the type checker matters.
 
 function _negativeTypeTests() {
+  // @ts-expect-error -- "loud" is not a severity
+  new TimeoutError().withSeverity("loud")
+
+  // @ts-expect-error -- retryable is a boolean trait
+  AppFault.tagsWhere({ retryable: "yes" })
+
+  // @ts-expect-error -- "tail" is not a context strategy
+  new TimeoutError().getContext({ strategy: "tail" })
+
+  // @ts-expect-error -- stack takes a boolean or a frame count
+  formatFault(new TimeoutError(), { stack: "all" })
+
+  // @ts-expect-error -- "BadTag" is not a tag of the retry registry
+  void retry(() => 1, { registry: AppFault, retryOn: ["BadTag"] })
+
+  // @ts-expect-error -- NotFoundError's id is a string
+  arbFault(AppFault, { fields: { NotFoundError: fc.record({ id: fc.integer() }) } })
+
+  // @ts-expect-error -- source maps must be version 3
+  void ({ mappings: "", sources: [], version: 2 } satisfies RawSourceMap)
+
+  // @ts-expect-error -- "vendor" is not a frame exclusion
+  frames(new TimeoutError(), { exclude: ["vendor"] })
+
   // @ts-expect-error -- registry state is internal
   void AppFault.__faultier
 
@@ -360,9 +946,56 @@ function _negativeTypeTests() {
   // @ts-expect-error -- "BadTag" is not a registered tag
   AppFault.matchTag({}, "BadTag", () => "nope")
 
+  // @ts-expect-error -- "BadTag" is not a registered tag
+  AppFault.try(() => 1, "BadTag")
+
+  // @ts-expect-error -- NotFoundError requires { id: string }
+  void AppFault.tryAsync(() => 1, "NotFoundError")
+
+  // @ts-expect-error -- Result errors must be Faults
+  err(new Error("plain"))
+
+  matchFault(new TimeoutError() as AppError)
+    .with("NotFoundError", () => 404)
+    // @ts-expect-error -- UnhandledTags<"PaymentError" | "TimeoutError"> has no call signatures
+    .exhaustive()
+
+  AppFault.match({})
+    .with("NotFoundError", () => 404)
+    // @ts-expect-error -- UnhandledTags<"TimeoutError"> has no call signatures
+    .exhaustive()
+
+  matchFault(new TimeoutError() as AppError)
+    .with("TimeoutError", () => 408)
+    // @ts-expect-error -- "TimeoutError" already has a handler
+    .with("TimeoutError", () => 503)
+
+  // @ts-expect-error -- "BadTag" is not in AppError union
+  matchFault(new TimeoutError() as AppError).with(["BadTag"], () => "nope")
+
   // @ts-expect-error -- "BadTag" is not in AppError union
   matchTag(new TimeoutError() as AppError, "BadTag", () => "nope")
 
+  // @ts-expect-error -- "BadTag" is not a registered tag
+  AppFault.findCause({}, "BadTag")
+
+  // @ts-expect-error -- HTTP metadata keys must be registered tags
+  registry({ NotFoundError }, { http: { BadTag: { status: 400 } } })
+
+  // @ts-expect-error -- HTTP metadata requires a status
+  registry({ NotFoundError }, { http: { NotFoundError: { title: "Not Found" } } })
+
+  AppFault.matchCauseTags(
+    {},
+    {
+      // @ts-expect-error -- "BadTag" is not a registered tag
+      BadTag: () => "nope",
+    }
+  )
+
+  // @ts-expect-error -- findCause requires a Fault constructor or tag
+  findCause(new TimeoutError(), Error)
+
   AppFault.matchTags(
     {},
     {
@@ -395,6 +1028,56 @@ function _negativeTypeTests() {
   }>() {}
 
   void NonSerializableFieldsError
+
+  // @ts-expect-error -- codecs must implement the Codec contract
+  registry({ TimeoutError }, { codecs: [{ type: "date" }] })
+
+  // @ts-expect-error -- only the built-in "internal" and "public" profiles exist
+  fault.toSerializable({ redact: "secret" })
+
+  class DbError extends Tagged("DbError")<{ query: string }>() {}
+  class ConnectionError extends DbError.extend("ConnectionError")<{ host: string }>() {}
+
+  // @ts-expect-error -- extended children still require the parent's fields
+  void new ConnectionError({ host: "h" })
+
+  // @ts-expect-error -- "DbError" is not a tag or ancestor of registry members
+  AppFault.is(fault, "DbError")
+
+  // @ts-expect-error -- wire versions are numbers
+  registry({ NotFoundError }, { version: "2" })
+
+  // @ts-expect-error -- isLike accepts the same tags as is
+  AppFault.isLike(fault, "DbError")
+
+  // @ts-expect-error -- someError only accepts aggregates
+  someError(fault, "TimeoutError")
+
+  const schema = fieldSchema<{ id: string }, { id: string }>((value) => value as { id: string })
+  class SchemaError extends Tagged("SchemaError", { schema })() {}
+
+  // @ts-expect-error -- schema-backed constructors take the schema's input type
+  void new SchemaError({ id: 1 })
+
+  // @ts-expect-error -- schema outputs must be field records
+  Tagged("BadSchema", { schema: fieldSchema(() => ({ fn: () => 1 })) })
+
+  // @ts-expect-error -- templates only see declared fields
+  Tagged("TemplateError")<{ id: string }>({ message: ({ missing }) => `${missing}` })
+
+  const _incomplete = {
+    // @ts-expect-error -- every registered tag needs an entry in each catalog
+    en: { NotFoundError: "Missing {id}" },
+  } satisfies CompleteMessageCatalogs<typeof AppFault>
+
+  // @ts-expect-error -- catalogs only accept registered tags
+  registry({ TimeoutError }, { messages: { en: { NotFoundError: "nope" } } })
+
+  // @ts-expect-error -- deserialization modes are a closed set
+  fromSerializable(fault.toSerializable(), { mode: "loose" })
+
+  // @ts-expect-error -- toResponse status must be a number
+  toResponse(AppFault, fault, { status: "503" })
 }
 
 // Suppress unused function warning — this exists only for type checking
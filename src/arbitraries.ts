@@ -0,0 +1,71 @@
+/**
+ * An arbitrary of registered faults with random details, `meta`, nested causes, and
+ * aggregate children, down to `maxDepth` levels (default 3).
+ *
+ * Tags come from `registry.tags`. Each tag is constructed with the fields generated by its
+ * `fields` entry, or with no fields. Causes mix nested registered faults with `arbThrown()`
+ * values. Requires the optional `fast-check` peer dependency.
+ *
+ * @example
+ * ```ts
+ * import fc from "fast-check"
+ * import * as FaultierArbitraries from "faultier/arbitraries"
+ *
+ * fc.assert(
+ *   fc.property(
+ *     FaultierArbitraries.arbFault(AppFault, {
+ *       fields: { NotFoundError: fc.record({ id: fc.string() }) },
+ *     }),
+ *     (fault) => toHttpStatus(fault) >= 400
+ *   )
+ * )
+ * ```
+ */
+export { arbFault } from "./lib/arbitraries"
+
+/**
+ * An arbitrary of valid `SerializableFault` payloads, down to `maxDepth` levels of causes
+ * and `__errors` children (default 3).
+ *
+ * Payloads include keys that collide with Fault members, keys already carrying the
+ * `__payload_` prefix, `_ancestors`, and every cause kind. Tags are arbitrary strings
+ * unless `tags` (such as `registry.tags`) is given.
+ *
+ * @example
+ * ```ts
+ * import fc from "fast-check"
+ * import * as FaultierArbitraries from "faultier/arbitraries"
+ *
+ * fc.assert(
+ *   fc.property(FaultierArbitraries.arbSerializableFault(), (json) => {
+ *     AppFault.fromSerializable(json)
+ *   })
+ * )
+ * ```
+ */
+export { arbSerializableFault } from "./lib/arbitraries"
+
+/**
+ * An arbitrary of values code may throw: strings, numbers (including `NaN` and `-0`),
+ * bigints, symbols, `null`/`undefined`, dates, plain and cyclic objects, objects whose
+ * `toJSON` throws, error-like records, and native errors with causes or aggregate children.
+ *
+ * @example
+ * ```ts
+ * import fc from "fast-check"
+ * import * as FaultierArbitraries from "faultier/arbitraries"
+ *
+ * fc.assert(
+ *   fc.property(FaultierArbitraries.arbThrown(), (thrown) => {
+ *     logger.error(AppFault.toSerializable(thrown))
+ *   })
+ * )
+ * ```
+ */
+export { arbThrown } from "./lib/arbitraries"
+
+/**
+ * Options for `arbFault` and `arbSerializableFault`. They live here rather than in
+ * `faultier/types` so that only this entrypoint's declarations reference `fast-check`.
+ */
+export type { ArbFaultOptions, ArbSerializableFaultOptions } from "./lib/arbitraries"
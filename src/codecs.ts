@@ -0,0 +1,56 @@
+/**
+ * Replaces the global codec list used by `fault.toSerializable()`, `fromSerializable`, and every
+ * registry. Registry codecs passed as `registry(ctors, { codecs })` take precedence.
+ *
+ * Enabling a codec changes the wire format only; declare its runtime type on the global
+ * `Faultier.CodecTypes` interface to allow it in `Tagged` fields.
+ *
+ * @example
+ * ```ts
+ * import * as FaultierCodecs from "faultier/codecs"
+ *
+ * FaultierCodecs.useCodecs(FaultierCodecs.builtinCodecs)
+ *
+ * declare global {
+ *   namespace Faultier {
+ *     interface CodecTypes extends BuiltinCodecTypes {}
+ *   }
+ * }
+ * ```
+ */
+export { useCodecs } from "./lib/codec"
+
+/**
+ * All built-in codecs: `bigint`, `bytes` (`Uint8Array`), `date`, `map`, `set`, and `url`.
+ */
+export { builtinCodecs } from "./lib/codec"
+
+/**
+ * Encodes `bigint` values as decimal strings.
+ */
+export { bigintCodec } from "./lib/codec"
+
+/**
+ * Encodes `Uint8Array` values as base64 strings.
+ */
+export { bytesCodec } from "./lib/codec"
+
+/**
+ * Encodes `Date` values as ISO strings. Invalid dates encode as `null`.
+ */
+export { dateCodec } from "./lib/codec"
+
+/**
+ * Encodes `Map` values as arrays of `[key, value]` entries.
+ */
+export { mapCodec } from "./lib/codec"
+
+/**
+ * Encodes `Set` values as arrays.
+ */
+export { setCodec } from "./lib/codec"
+
+/**
+ * Encodes `URL` values as their `href`.
+ */
+export { urlCodec } from "./lib/codec"
@@ -2,7 +2,13 @@
  * Library-defined errors thrown by Faultier APIs.
  */
 export {
+  FaultAssertionError,
+  FieldValidationError,
+  HttpTransportError,
+  InvalidWirePayloadError,
+  NonExhaustiveMatchError,
   RegistryMergeConflictError,
   RegistryTagMismatchError,
   ReservedFieldError,
+  RetryExhaustedError,
 } from "./lib/errors"
@@ -0,0 +1,35 @@
+/**
+ * Media type marking a response body as a Faultier wire payload.
+ */
+export { FAULT_CONTENT_TYPE } from "./lib/http"
+
+/**
+ * Builds a `Response` carrying `registry.toSerializable(err)` with the Faultier content type.
+ *
+ * The status comes from the `status` option, then the tag's HTTP metadata, then 500.
+ *
+ * @example
+ * ```ts
+ * import * as FaultierHttp from "faultier/http"
+ *
+ * return FaultierHttp.toResponse(AppFault, err)
+ * ```
+ */
+export { toResponse } from "./lib/http"
+
+/**
+ * Decodes a fault from a `Response`.
+ *
+ * Faultier payloads are validated and restored through the registry, and problem+json
+ * bodies go through `registry.fromProblemDetails`. Any other body resolves to an
+ * `HttpTransportError` from `faultier/errors`.
+ *
+ * @example
+ * ```ts
+ * import * as FaultierHttp from "faultier/http"
+ *
+ * const res = await fetch("/api/users/123")
+ * if (!res.ok) throw await FaultierHttp.fromResponse(AppFault, res)
+ * ```
+ */
+export { fromResponse } from "./lib/http"
@@ -9,14 +9,47 @@ export { Fault } from "./lib/fault"
  * Type guard for Fault instances.
  *
  * Uses `instanceof Fault` and therefore is not cross-realm safe.
- * Use serialization/deserialization when crossing process/realm boundaries.
+ * Use {@link isFaultLike} across bundled copies and realms, and
+ * serialization/deserialization when crossing process boundaries.
  */
 export { isFault } from "./lib/fault"
 
+/**
+ * Type guard for faults from any copy of Faultier.
+ *
+ * Recognizes the `Symbol.for("faultier.fault")` brand plus a string `_tag`, so it also
+ * accepts faults created by another bundled copy or in another realm (iframe, `vm`).
+ * Use `registry.isLike` and `registry.adopt` to check and re-home registered tags.
+ */
+export { isFaultLike } from "./lib/fault"
+
+/**
+ * Base class for faults that hold several child errors.
+ *
+ * Define tagged aggregates with `Tagged(tag).aggregate()` and attach children with `withErrors`.
+ *
+ * @example
+ * ```ts
+ * class BatchError extends Faultier.Tagged("BatchError").aggregate<{ job: string }>() {}
+ *
+ * const results = await Promise.allSettled(uploads)
+ * const failures = results.filter((result) => result.status === "rejected")
+ * const error = new BatchError({ job: "upload" }).withErrors(failures.map((f) => f.reason))
+ * ```
+ */
+export { AggregateFault } from "./lib/fault"
+
 /**
  * Factory for creating tagged Fault subclasses.
  *
  * The two calls allow the tag and field types to be inferred independently.
+ * Pass `{ sensitive }` to name fields that redaction policies replace.
+ * Pass `{ schema }` (any Standard Schema validator) to validate fields at
+ * construction and on registry deserialization; field types are then inferred
+ * from the schema.
+ * The second call optionally takes `{ message, details }` templates computed
+ * from the fields at construction.
+ * `Tagged(tag).aggregate<Fields>()` creates an {@link AggregateFault} subclass instead.
  *
  * @example
  * ```ts
@@ -54,6 +87,21 @@ export { registry } from "./lib/registry"
  */
 export { merge } from "./lib/merge"
 
+/**
+ * Fluent union-driven matcher.
+ *
+ * `.exhaustive()` is a type error naming the unhandled tags until every tag has a handler.
+ *
+ * @example
+ * ```ts
+ * const status = Faultier.match(error)
+ *   .with("NotFoundError", () => 404)
+ *   .with(["TimeoutError", "DatabaseError"], () => 503)
+ *   .exhaustive()
+ * ```
+ */
+export { match } from "./lib/match"
+
 /**
  * Standalone union-driven tag matcher for a single tag.
  */
@@ -64,9 +112,110 @@ export { matchTag } from "./lib/match"
  */
 export { matchTags } from "./lib/match"
 
+/**
+ * Finds the first fault in a cause chain (head to leaf) matching a constructor or tag.
+ *
+ * @example
+ * ```ts
+ * const db = Faultier.findCause(error, DatabaseError) // DatabaseError | undefined
+ * ```
+ */
+export { findCause } from "./lib/match"
+
+/**
+ * Cause-chain aware tag matcher. Dispatches on the first fault, from head to leaf,
+ * whose tag has a handler.
+ */
+export { matchCauseTags } from "./lib/match"
+
+/**
+ * Checks whether any child of an `AggregateFault` or native `AggregateError` matches a
+ * constructor or tag. A child matches when its cause chain contains a matching fault.
+ */
+export { someError } from "./lib/match"
+
+/**
+ * Checks whether every child of an `AggregateFault` or native `AggregateError` matches a
+ * constructor or tag. Returns `true` for an aggregate without children.
+ */
+export { everyError } from "./lib/match"
+
+/**
+ * Stable grouping hash of any error: a fault's tag chain, its normalized top stack frames,
+ * and allowlisted payload fields. Messages never contribute.
+ *
+ * @example
+ * ```ts
+ * Faultier.fingerprint(error, { fields: ["resource"], frames: 3 })
+ * ```
+ */
+export { fingerprint } from "./lib/fault"
+
+/**
+ * Renders any error's cause tree as a multi-line box-drawing tree for terminals: each layer's
+ * tag and message, then its details, payload fields, meta, and top stack frames. Faults also
+ * render this way through `console.log` and `util.inspect`.
+ *
+ * @example
+ * ```ts
+ * console.log(Faultier.formatFault(error, { stack: 1 }))
+ * ```
+ */
+export { formatFault } from "./lib/fault"
+
+/**
+ * Parses an error's own stack (V8, Bun, SpiderMonkey, and JavaScriptCore formats) into
+ * `StackFrame` objects, optionally excluding dependency, runtime-internal, or Faultier frames.
+ *
+ * @example
+ * ```ts
+ * Faultier.frames(error, { exclude: ["node_modules", "internal"] })
+ * ```
+ */
+export { frames } from "./lib/frames"
+
+/**
+ * Checks a fault's resolved traits against a filter object or predicate. With
+ * `{ chain: true }`, checks every fault in the cause chain.
+ *
+ * @example
+ * ```ts
+ * if (Faultier.hasTraits(error, { retryable: true }, { chain: true })) retry()
+ * ```
+ */
+export { hasTraits } from "./lib/fault"
+
+/**
+ * Lists every `meta` entry in an error's cause chain as `{ tag, depth, key, value }`, head
+ * first, showing which layer set what before `fault.getContext()` merges them.
+ */
+export { getContextEntries } from "./lib/fault"
+
+/**
+ * The cause chain of any error as a `CauseTree`: like `fault.unwrap()`, but aggregates
+ * along the way (including native `AggregateError`) branch into their child errors.
+ */
+export { unwrapTree } from "./lib/fault"
+
+/**
+ * Renders `unwrapTree(error)` with one line per branch, joining and deduplicating linear
+ * runs like `fault.flatten()`.
+ *
+ * @example
+ * ```ts
+ * Faultier.flattenTree(batch)
+ * // Batch failed
+ * // ├─ Upload a failed -> ECONNRESET
+ * // └─ Upload b failed
+ * ```
+ */
+export { flattenTree } from "./lib/fault"
+
 /**
  * Deserializes a generic fault from the wire format.
  *
  * Use `registry.fromSerializable` when you want subclass reconstruction for registered tags.
+ * Pass `{ mode: "strict" }` to reject malformed payloads with `InvalidWirePayloadError`, or
+ * `{ mode: "lenient" }` to revive them and record their problems in `fault.getDiagnostics()`.
  */
 export { fromSerializable } from "./lib/reviver"
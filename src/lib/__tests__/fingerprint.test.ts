@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test"
+
+import { normalizeFrames } from "../fingerprint"
+
+describe("normalizeFrames", () => {
+  it("keeps function and file names without positions, queries, or directories", () => {
+    const stack = [
+      "NotFoundError: User 42 not found",
+      "    at findUser (/srv/app/src/users.ts:12:7)",
+      "    at async handler (file:///srv/app/src/routes.ts:40:3)",
+      "    at /srv/app/src/index.ts:5:1",
+      "    at C:\\app\\src\\main.ts:1:1",
+    ].join("\n")
+
+    expect(normalizeFrames(stack, 10)).toEqual([
+      "findUser users.ts",
+      "async handler routes.ts",
+      "index.ts",
+      "main.ts",
+    ])
+  })
+
+  it("parses Gecko and Safari frames", () => {
+    const stack =
+      "findUser@https://cdn.example.com/app.js?v=3:1:200\n@https://cdn.example.com/app.js:1:10"
+
+    expect(normalizeFrames(stack, 10)).toEqual(["findUser app.js", "app.js"])
+  })
+
+  it("stops at the head's frames and honors the limit", () => {
+    const stack = [
+      "Outer: boom",
+      "    at outer (/a/outer.ts:1:1)",
+      "    at caller (/a/caller.ts:1:1)",
+      "Caused by: Inner: root",
+      "    at inner (/a/inner.ts:1:1)",
+    ].join("\n")
+
+    expect(normalizeFrames(stack, 10)).toEqual(["outer outer.ts", "caller caller.ts"])
+    expect(normalizeFrames(stack, 1)).toEqual(["outer outer.ts"])
+    expect(normalizeFrames(stack, 0)).toEqual([])
+    expect(normalizeFrames(undefined, 5)).toEqual([])
+  })
+
+  it("ignores message lines that contain @", () => {
+    expect(normalizeFrames("Error: mail a@b.c:1:2 failed", 5)).toEqual([])
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "bun:test"
+
+import { filterFrames, formatStack, parseStack, redactFrames } from "../frames"
+
+describe("parseStack", () => {
+  it("parses V8 and Bun frames", () => {
+    const stack = [
+      "NotFoundError: User 42 not found",
+      "    at findUser (/srv/app/src/users.ts:12:7)",
+      "    at async handler (file:///srv/app/src/routes.ts:40:3)",
+      "    at /srv/app/src/index.ts:5:1",
+      "    at Array.map (native)",
+      "    at processTicksAndRejections (node:internal/process/task_queues:95:5)",
+    ].join("\n")
+
+    expect(parseStack(stack)).toEqual([
+      {
+        column: 7,
+        file: "/srv/app/src/users.ts",
+        fn: "findUser",
+        isInternal: false,
+        isNative: false,
+        line: 12,
+      },
+      {
+        column: 3,
+        file: "file:///srv/app/src/routes.ts",
+        fn: "async handler",
+        isInternal: false,
+        isNative: false,
+        line: 40,
+      },
+      { column: 1, file: "/srv/app/src/index.ts", isInternal: false, isNative: false, line: 5 },
+      { fn: "Array.map", isInternal: false, isNative: true },
+      {
+        column: 5,
+        file: "node:internal/process/task_queues",
+        fn: "processTicksAndRejections",
+        isInternal: true,
+        isNative: false,
+        line: 95,
+      },
+    ])
+  })
+
+  it("parses SpiderMonkey and JavaScriptCore frames", () => {
+    const stack = [
+      "findUser@https://cdn.example.com/app.js:1:200",
+      "@https://cdn.example.com/app.js:1:10",
+      "forEach@[native code]",
+    ].join("\n")
+
+    expect(parseStack(stack)).toEqual([
+      {
+        column: 200,
+        file: "https://cdn.example.com/app.js",
+        fn: "findUser",
+        isInternal: false,
+        isNative: false,
+        line: 1,
+      },
+      {
+        column: 10,
+        file: "https://cdn.example.com/app.js",
+        isInternal: false,
+        isNative: false,
+        line: 1,
+      },
+      { fn: "forEach", isInternal: false, isNative: true },
+    ])
+  })
+
+  it("stops at the head's frames", () => {
+    const stack = [
+      "Outer: boom",
+      "    at outer (/a/outer.ts:1:1)",
+      "Caused by: Inner: root",
+      "    at inner (/a/inner.ts:1:1)",
+    ].join("\n")
+
+    expect(parseStack(stack).map((frame) => frame.fn)).toEqual(["outer"])
+    expect(parseStack()).toEqual([])
+    expect(parseStack("Error: mail a@b.c:1:2 failed")).toEqual([])
+  })
+})
+
+describe("filterFrames", () => {
+  const frames = parseStack(
+    [
+      "Error: boom",
+      "    at app (/srv/app/src/app.ts:1:1)",
+      "    at dep (/srv/app/node_modules/dep/index.js:1:1)",
+      "    at lib (/srv/app/node_modules/faultier/dist/index.js:1:1)",
+      "    at tick (node:internal/process/task_queues:95:5)",
+    ].join("\n")
+  )
+
+  it("keeps every frame without exclusions", () => {
+    expect(filterFrames(frames)).toEqual(frames)
+  })
+
+  it("drops dependency, internal, and Faultier frames", () => {
+    expect(filterFrames(frames, { exclude: ["node_modules"] }).map((frame) => frame.fn)).toEqual([
+      "app",
+      "tick",
+    ])
+    expect(filterFrames(frames, { exclude: ["internal"] }).map((frame) => frame.fn)).toEqual([
+      "app",
+      "dep",
+      "lib",
+    ])
+    expect(filterFrames(frames, { exclude: ["faultier"] }).map((frame) => frame.fn)).toEqual([
+      "app",
+      "dep",
+      "tick",
+    ])
+  })
+
+  it("drops frames matching a predicate", () => {
+    const kept = filterFrames(frames, { exclude: [(frame) => frame.fn !== "app"] })
+
+    expect(kept.map((frame) => frame.fn)).toEqual(["app"])
+  })
+})
+
+describe("redactFrames", () => {
+  const frames = parseStack("Error: boom\n    at a (/a.ts:1:1)\n    at b (/b.ts:1:1)")
+
+  it("applies the redaction policy's stack mode", () => {
+    expect(redactFrames(frames)).toEqual(frames)
+    expect(redactFrames(frames, { stack: "strip" })).toEqual([])
+    expect(redactFrames(frames, { stack: { frames: 1 } }).map((frame) => frame.fn)).toEqual(["a"])
+  })
+})
+
+describe("formatStack", () => {
+  it("round-trips through parseStack", () => {
+    const stack = [
+      "Error: boom",
+      "    at findUser (/srv/app/src/users.ts:12:7)",
+      "    at /srv/app/src/index.ts:5:1",
+      "    at Array.map (native)",
+    ].join("\n")
+
+    expect(formatStack("Error: boom", parseStack(stack))).toBe(stack)
+  })
+})
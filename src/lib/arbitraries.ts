@@ -0,0 +1,243 @@
+// Arbitraries (fast-check) for property-testing error-handling boundaries with
+// the inputs Faultier itself guards against: nested and aggregate causes,
+// payload keys that collide with Fault members, and unusual thrown values.
+import fc from "fast-check"
+
+import type { FaultRegistry } from "./registry"
+import type { AnyFaultCtor } from "./registry-state"
+import type { SerializableCause, SerializableFault, SerializableValue } from "./wire"
+import { AggregateFault, Fault } from "./fault"
+import { getRegistryState } from "./registry-state"
+import { PAYLOAD_PREFIX } from "./reviver"
+import { RESERVED_FAULT_KEYS } from "./wire"
+
+export type ArbFaultOptions<M extends Record<string, AnyFaultCtor>> = {
+  /** Maximum cause and aggregate child levels below the head. Defaults to 3. */
+  maxDepth?: number
+  /** Constructor fields per tag. Tags without an entry are constructed with no fields. */
+  fields?: { readonly [K in keyof M]?: fc.Arbitrary<ConstructorParameters<M[K]>[0]> }
+}
+
+export type ArbSerializableFaultOptions = {
+  /** Maximum cause and aggregate child levels below the head. Defaults to 3. */
+  maxDepth?: number
+  /** Tags to draw from, such as `registry.tags`. Defaults to arbitrary strings. */
+  tags?: readonly string[]
+}
+
+const DEFAULT_MAX_DEPTH = 3
+
+const MAX_CHILDREN = 3
+
+// Names reachable through the prototypes a revived fault can have, including
+// Object.prototype's own "__proto__".
+const COLLIDING_KEYS: readonly string[] = [
+  ...new Set(
+    [AggregateFault.prototype, Fault.prototype, Error.prototype, Object.prototype].flatMap(
+      (prototype) => Object.getOwnPropertyNames(prototype)
+    )
+  ),
+]
+
+// Values as they look after crossing the wire: a JSON text round trip drops -0.
+const wireValue: fc.Arbitrary<SerializableValue> = fc
+  .jsonValue({ maxDepth: 2 })
+  // oxlint-disable-next-line unicorn/prefer-structured-clone -- JSON text is what crosses the wire.
+  .map((value) => JSON.parse(JSON.stringify(value)) as SerializableValue)
+
+const metaArb = fc.dictionary(fc.string(), wireValue, { maxKeys: 3 })
+
+// Plain names, prototype collisions, and already-prefixed names, so that
+// deserialization sometimes has to rename a key more than once.
+const payloadKey = fc
+  .oneof(
+    fc.string(),
+    fc.constantFrom(...COLLIDING_KEYS),
+    fc
+      .constantFrom(...COLLIDING_KEYS, ...RESERVED_FAULT_KEYS)
+      .map((key) => `${PAYLOAD_PREFIX}${key}`)
+  )
+  .filter((key) => !RESERVED_FAULT_KEYS.has(key))
+
+// Object.defineProperty keeps a "__proto__" key an own data property.
+function toPayload(entries: ReadonlyArray<readonly [string, SerializableValue]>) {
+  const payload: Record<string, SerializableValue> = {}
+  for (const [key, value] of entries) {
+    Object.defineProperty(payload, key, {
+      configurable: true,
+      enumerable: true,
+      value,
+      writable: true,
+    })
+  }
+  return payload
+}
+
+const payloadArb = fc
+  .uniqueArray(fc.tuple(payloadKey, wireValue), { maxLength: 4, selector: ([key]) => key })
+  .map((entries) => toPayload(entries))
+
+function withCycle(value: object): object {
+  const cyclic: Record<string, unknown> = { ...value }
+  cyclic["self"] = cyclic
+  return cyclic
+}
+
+function withThrowingToJson(message: string): object {
+  return {
+    toJSON() {
+      throw new Error(message)
+    },
+  }
+}
+
+export function arbThrown(): fc.Arbitrary<unknown> {
+  const error = fc.string().map((message) => new Error(message))
+
+  return fc.oneof(
+    fc.string(),
+    fc.double(),
+    fc.bigInt(),
+    fc.string().map(Symbol),
+    fc.constantFrom(undefined, null, true, false),
+    fc.date({ noInvalidDate: false }),
+    fc.object(),
+    fc.array(fc.anything(), { maxLength: 3 }),
+    fc.object().map((value) => withCycle(value)),
+    fc.string().map((message) => withThrowingToJson(message)),
+    fc.record({ message: fc.string(), name: fc.string() }),
+    error,
+    fc.tuple(fc.string(), error).map(([message, cause]) => new Error(message, { cause })),
+    fc
+      .tuple(fc.array(error, { maxLength: MAX_CHILDREN }), fc.string())
+      .map(([errors, message]) => new AggregateError(errors, message))
+  )
+}
+
+type FaultParts = {
+  details?: string
+  meta: Record<string, SerializableValue>
+  cause?: unknown
+  errors?: unknown[]
+}
+
+function decorate(fault: Fault, parts: FaultParts): Fault {
+  if (parts.details !== undefined) fault.withDetails(parts.details)
+  if (Object.keys(parts.meta).length > 0) fault.withMeta(parts.meta)
+  if (Object.hasOwn(parts, "cause")) fault.withCause(parts.cause)
+  if (fault instanceof AggregateFault && parts.errors) fault.withErrors(parts.errors)
+  return fault
+}
+
+export function arbFault<M extends Record<string, AnyFaultCtor>>(
+  registry: FaultRegistry<M>,
+  options?: ArbFaultOptions<M>
+): fc.Arbitrary<InstanceType<M[keyof M]>> {
+  const { tagToCtor } = getRegistryState(registry)
+  const fieldArbs = (options?.fields ?? {}) as Record<string, fc.Arbitrary<unknown> | undefined>
+  const thrown = arbThrown()
+  const members = registry.tags.flatMap((key) => {
+    const ctor = tagToCtor.get(key as string)
+    const args = fieldArbs[key as string]?.map((fields) => [fields]) ?? fc.constant([])
+    return ctor ? [{ args, ctor }] : []
+  })
+
+  const level = (depth: number): fc.Arbitrary<Fault> => {
+    const nested = depth === 0 ? undefined : fc.oneof(level(depth - 1), thrown)
+    const parts = fc.record(
+      {
+        details: fc.string(),
+        meta: metaArb,
+        ...(nested && { cause: nested, errors: fc.array(nested, { maxLength: MAX_CHILDREN }) }),
+      },
+      { requiredKeys: ["meta"] }
+    )
+
+    return fc.oneof(
+      ...members.map(({ args, ctor }) =>
+        fc
+          .tuple(args, parts)
+          .map(([values, rest]) => decorate(Reflect.construct(ctor, values) as Fault, rest))
+      )
+    )
+  }
+
+  return level(options?.maxDepth ?? DEFAULT_MAX_DEPTH) as fc.Arbitrary<InstanceType<M[keyof M]>>
+}
+
+function nativeCause(inner: fc.Arbitrary<SerializableCause>): fc.Arbitrary<SerializableCause> {
+  const fields = { cause: inner, message: fc.string(), name: fc.string(), stack: fc.string() }
+
+  return fc.oneof(
+    fc.record(
+      { ...fields, kind: fc.constant("error" as const) },
+      { requiredKeys: ["kind", "message", "name"] }
+    ),
+    fc.record(
+      {
+        ...fields,
+        errors: fc.array(inner, { maxLength: MAX_CHILDREN }),
+        kind: fc.constant("aggregate" as const),
+      },
+      { requiredKeys: ["errors", "kind", "message", "name"] }
+    )
+  )
+}
+
+// Spreading keeps a "__proto__" payload key an own property, and leaves the
+// generated payload untouched so shrinking can replay it.
+function withPayload({
+  payload,
+  ...envelope
+}: Pick<SerializableFault, "_tag" | "name"> & {
+  payload: Record<string, SerializableValue>
+}): SerializableFault {
+  return { ...payload, ...envelope, __faultier: true }
+}
+
+function faultPayload(
+  tag: fc.Arbitrary<string>,
+  cause?: fc.Arbitrary<SerializableCause>
+): fc.Arbitrary<SerializableFault> {
+  return fc
+    .record(
+      {
+        _ancestors: fc.array(fc.string(), { maxLength: 2 }),
+        _tag: tag,
+        details: fc.string(),
+        message: fc.string(),
+        meta: metaArb,
+        name: fc.string(),
+        payload: payloadArb,
+        stack: fc.string(),
+        ...(cause && { __errors: fc.array(cause, { maxLength: MAX_CHILDREN }), cause }),
+      },
+      { requiredKeys: ["_tag", "name", "payload"] }
+    )
+    .map((parts) => withPayload(parts))
+}
+
+export function arbSerializableFault(
+  options?: ArbSerializableFaultOptions
+): fc.Arbitrary<SerializableFault> {
+  const tag = options?.tags ? fc.constantFrom(...options.tags) : fc.string()
+  const thrown: fc.Arbitrary<SerializableCause> = fc.record({
+    kind: fc.constant("thrown" as const),
+    value: wireValue,
+  })
+
+  // Built bottom-up, so each level's arbitraries are created once.
+  let fault = faultPayload(tag)
+  let cause = thrown
+  for (let depth = 1; depth <= (options?.maxDepth ?? DEFAULT_MAX_DEPTH); depth += 1) {
+    const next: fc.Arbitrary<SerializableCause> = fc.oneof(
+      thrown,
+      fault.map((value) => ({ kind: "fault" as const, value })),
+      nativeCause(cause)
+    )
+    fault = faultPayload(tag, next)
+    cause = next
+  }
+
+  return fault
+}
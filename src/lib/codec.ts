@@ -0,0 +1,298 @@
+// Value codecs: encode rich field values (Date, bigint, Map, ...) into
+// `{ $type, value }` envelopes on the wire and decode them on the way back.
+// Encoding runs before normalizeThrown/JSON, decoding after payload
+// extraction, so the rest of the wire pipeline only ever sees JSON values.
+import type { SerializableValue } from "./wire"
+
+// Declared globally rather than as a module export: each entrypoint's bundled
+// declarations carry their own copy of module types (dts splitting breaks
+// NodeNext resolution), so a module augmentation would only reach one copy.
+declare global {
+  // oxlint-disable-next-line typescript/no-namespace -- a global namespace keeps the augmentation point out of the global type scope.
+  namespace Faultier {
+    /**
+     * Augmentation point mapping codec `$type` names to the runtime types they
+     * carry. Empty by default, so `Tagged` fields stay JSON-only until codecs
+     * are declared here.
+     */
+    // oxlint-disable-next-line typescript/no-empty-object-type -- interfaces are the only declaration-mergeable shape.
+    interface CodecTypes {}
+  }
+}
+
+export type CodecTypes = Faultier.CodecTypes
+
+export type FieldValue =
+  | SerializableValue
+  | CodecTypes[keyof CodecTypes]
+  | readonly FieldValue[]
+  | { readonly [key: string]: FieldValue }
+
+export interface BuiltinCodecTypes {
+  bigint: bigint
+  bytes: Uint8Array
+  date: Date
+  map: ReadonlyMap<unknown, unknown>
+  set: ReadonlySet<unknown>
+  url: URL
+}
+
+export type Codec<T = unknown> = {
+  /** The `$type` written to the envelope. Must be unique among enabled codecs. */
+  readonly type: string
+  is(value: unknown): value is T
+  /** Returns a JSON value; nested values other codecs handle are encoded recursively. */
+  encode(value: T): unknown
+  /** Receives the envelope value with nested envelopes already decoded. */
+  decode(value: unknown): T
+}
+
+// Escapes plain objects that carry their own `$type` key, so user data is
+// never mistaken for a codec envelope.
+const LITERAL_TYPE = "$literal"
+
+let globalCodecs: readonly Codec[] = []
+
+function assertCodecTypes(codecs: readonly Codec[]): void {
+  for (const codec of codecs) {
+    if (codec.type === LITERAL_TYPE) {
+      throw new TypeError(`Invalid codec type: "${LITERAL_TYPE}" is reserved`)
+    }
+  }
+}
+
+export function useCodecs(codecs: readonly Codec[]): void {
+  assertCodecTypes(codecs)
+  globalCodecs = [...codecs]
+}
+
+export function validateCodecs(codecs: readonly Codec[]): readonly Codec[] {
+  assertCodecTypes(codecs)
+  return [...codecs]
+}
+
+// Resolved per call so `useCodecs` applies to registries created earlier.
+// Local codecs take precedence over global ones.
+export function resolveCodecs(local: readonly Codec[]): readonly Codec[] {
+  return local.length === 0 ? globalCodecs : [...local, ...globalCodecs]
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false
+  const prototype: unknown = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+function defineEntry(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    configurable: true,
+    enumerable: true,
+    value,
+    writable: true,
+  })
+}
+
+function mapEntries(
+  source: Record<string, unknown>,
+  fn: (value: unknown) => unknown
+): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {}
+
+  for (const key of Object.keys(source)) {
+    defineEntry(mapped, key, fn(source[key]))
+  }
+
+  return mapped
+}
+
+function encodeNode(value: unknown, codecs: readonly Codec[], ancestors: Set<object>): unknown {
+  const encodeChild = (child: unknown): unknown => encodeWith(child, codecs, ancestors)
+  const codec = codecs.find((candidate) => candidate.is(value))
+
+  if (codec) return { $type: codec.type, value: encodeChild(codec.encode(value)) }
+  if (Array.isArray(value)) return value.map((item) => encodeChild(item))
+  if (!isPlainObject(value)) return value
+
+  const encoded = mapEntries(value, encodeChild)
+  return Object.hasOwn(value, "$type") ? { $type: LITERAL_TYPE, value: encoded } : encoded
+}
+
+function encodeWith(value: unknown, codecs: readonly Codec[], ancestors: Set<object>): unknown {
+  if (typeof value !== "object" || value === null) return encodeNode(value, codecs, ancestors)
+  // Cycles are left in place; JSON transport reports them as it did before codecs.
+  if (ancestors.has(value)) return value
+
+  ancestors.add(value)
+  const encoded = encodeNode(value, codecs, ancestors)
+  ancestors.delete(value)
+  return encoded
+}
+
+export function encodeValue(value: unknown, codecs: readonly Codec[]): unknown {
+  if (codecs.length === 0) return value
+  return encodeWith(value, codecs, new Set())
+}
+
+// Encodes each field value; the record itself is a payload, not a value, so
+// its own `$type` key needs no escaping.
+export function encodeFields(
+  fields: Record<string, unknown>,
+  codecs: readonly Codec[]
+): Record<string, unknown> {
+  if (codecs.length === 0) return fields
+  return mapEntries(fields, (value) => encodeWith(value, codecs, new Set()))
+}
+
+function isEnvelope(value: Record<string, unknown>): value is { $type: string; value: unknown } {
+  const keys = Object.keys(value)
+  return (
+    keys.length === 2 &&
+    typeof value.$type === "string" &&
+    Object.hasOwn(value, "$type") &&
+    Object.hasOwn(value, "value")
+  )
+}
+
+function decodeWith(value: unknown, codecs: readonly Codec[]): unknown {
+  if (Array.isArray(value)) return value.map((item) => decodeWith(item, codecs))
+  if (!isPlainObject(value)) return value
+
+  const decodeChild = (child: unknown): unknown => decodeWith(child, codecs)
+
+  if (isEnvelope(value)) {
+    if (value.$type === LITERAL_TYPE && isPlainObject(value.value)) {
+      return mapEntries(value.value, decodeChild)
+    }
+
+    const codec = codecs.find((candidate) => candidate.type === value.$type)
+    if (codec) {
+      try {
+        return codec.decode(decodeChild(value.value))
+      } catch {
+        // A value its codec rejects stays as data; checked modes report it.
+        return mapEntries(value, decodeChild)
+      }
+    }
+  }
+
+  // Envelopes for codecs that are not enabled stay as data.
+  return mapEntries(value, decodeChild)
+}
+
+export type DecodeFailure = {
+  readonly type: string
+  readonly error: unknown
+}
+
+/** What an enabled codec threw decoding `value`, when it is such an envelope. */
+export function findDecodeFailure(
+  value: unknown,
+  codecs: readonly Codec[]
+): DecodeFailure | undefined {
+  if (!isPlainObject(value) || !isEnvelope(value)) return undefined
+
+  const codec = codecs.find((candidate) => candidate.type === value.$type)
+  if (!codec) return undefined
+
+  try {
+    codec.decode(decodeWith(value.value, codecs))
+    return undefined
+  } catch (error) {
+    return { error, type: codec.type }
+  }
+}
+
+export function decodeValue(value: unknown, codecs: readonly Codec[]): unknown {
+  if (codecs.length === 0) return value
+  return decodeWith(value, codecs)
+}
+
+export function decodeFields(
+  fields: Record<string, unknown>,
+  codecs: readonly Codec[]
+): Record<string, unknown> {
+  if (codecs.length === 0) return fields
+  return mapEntries(fields, (value) => decodeWith(value, codecs))
+}
+
+// ── Built-in codecs ─────────────────────────────────────────────────────────
+
+// Built-in decoders reject envelope values of the wrong shape instead of
+// coercing them into a value that was never encoded.
+function expectString(value: unknown, type: string): string {
+  if (typeof value !== "string") throw new TypeError(`Invalid ${type} value: expected a string`)
+  return value
+}
+
+function expectArray(value: unknown, type: string): unknown[] {
+  if (!Array.isArray(value)) throw new TypeError(`Invalid ${type} value: expected an array`)
+  return value
+}
+
+export const bigintCodec: Codec<bigint> = {
+  decode: (value) => BigInt(expectString(value, "bigint")),
+  encode: (value) => `${value}`,
+  is: (value) => typeof value === "bigint",
+  type: "bigint",
+}
+
+export const bytesCodec: Codec<Uint8Array> = {
+  decode: (value) =>
+    Uint8Array.from(atob(expectString(value, "bytes")), (char) => char.codePointAt(0) ?? 0),
+  encode: (value) => {
+    let binary = ""
+    for (const byte of value) binary += String.fromCodePoint(byte)
+    return btoa(binary)
+  },
+  is: (value) => value instanceof Uint8Array,
+  type: "bytes",
+}
+
+export const dateCodec: Codec<Date> = {
+  // Invalid dates have no ISO form; null round-trips them as invalid dates.
+  decode: (value) => {
+    if (value === null) return new Date(Number.NaN)
+    const date = new Date(expectString(value, "date"))
+    if (Number.isNaN(date.getTime())) throw new RangeError("Invalid date value: not a date string")
+    return date
+  },
+  encode: (value) => (Number.isNaN(value.getTime()) ? null : value.toISOString()),
+  is: (value) => value instanceof Date,
+  type: "date",
+}
+
+export const mapCodec: Codec<ReadonlyMap<unknown, unknown>> = {
+  decode: (value) => {
+    const entries = expectArray(value, "map")
+    if (!entries.every((entry) => Array.isArray(entry) && entry.length === 2)) {
+      throw new TypeError("Invalid map value: expected [key, value] entries")
+    }
+    return new Map(entries as ReadonlyArray<readonly [unknown, unknown]>)
+  },
+  encode: (value) => [...value],
+  is: (value) => value instanceof Map,
+  type: "map",
+}
+
+export const setCodec: Codec<ReadonlySet<unknown>> = {
+  decode: (value) => new Set(expectArray(value, "set")),
+  encode: (value) => [...value],
+  is: (value) => value instanceof Set,
+  type: "set",
+}
+
+export const urlCodec: Codec<URL> = {
+  decode: (value) => new URL(expectString(value, "url")),
+  encode: (value) => value.href,
+  is: (value) => value instanceof URL,
+  type: "url",
+}
+
+export const builtinCodecs: readonly Codec[] = [
+  bigintCodec,
+  bytesCodec,
+  dateCodec,
+  mapCodec,
+  setCodec,
+  urlCodec,
+]
@@ -1,4 +1,6 @@
-import { Fault } from "./fault"
+import type { WireDiagnostic } from "./wire"
+import { Fault, setDiagnostics } from "./fault"
+import { type FieldIssue, formatFieldIssue } from "./schema"
 
 export class ReservedFieldError extends Fault {
   static readonly _tag = "ReservedFieldError"
@@ -10,6 +12,21 @@ export class ReservedFieldError extends Fault {
   }
 }
 
+export class FieldValidationError extends Fault {
+  static readonly _tag = "FieldValidationError"
+  readonly tag: string
+  readonly issues: FieldIssue[]
+
+  constructor(args: { tag: string; issues: FieldIssue[] }) {
+    super(
+      FieldValidationError._tag,
+      `Invalid fields for '${args.tag}': ${args.issues.map((issue) => formatFieldIssue(issue)).join("; ")}`
+    )
+    this.tag = args.tag
+    this.issues = args.issues
+  }
+}
+
 export class RegistryTagMismatchError extends Fault {
   static readonly _tag = "RegistryTagMismatchError"
   readonly ctorTag: string
@@ -37,3 +54,69 @@ export class RegistryMergeConflictError extends Fault {
     this.conflictingTag = args.conflictingTag
   }
 }
+
+export class NonExhaustiveMatchError extends Fault {
+  static readonly _tag = "NonExhaustiveMatchError"
+  readonly unmatchedTag: string | undefined
+
+  constructor(args: { unmatchedTag: string | undefined }) {
+    super(
+      NonExhaustiveMatchError._tag,
+      args.unmatchedTag === undefined
+        ? "No handler matched a value outside the registry."
+        : `No handler matched tag '${args.unmatchedTag}'.`
+    )
+    this.unmatchedTag = args.unmatchedTag
+  }
+}
+
+export class HttpTransportError extends Fault {
+  static readonly _tag = "HttpTransportError"
+  readonly status: number
+  readonly statusText: string
+
+  constructor(args: { status: number; statusText: string }) {
+    super(
+      HttpTransportError._tag,
+      `HTTP ${args.status} response did not contain a Faultier payload.`
+    )
+    this.status = args.status
+    this.statusText = args.statusText
+  }
+}
+
+export class RetryExhaustedError extends Fault {
+  static readonly _tag = "RetryExhaustedError"
+  readonly attempts: number
+
+  constructor(args: { attempts: number }) {
+    super(RetryExhaustedError._tag, `Operation failed after ${args.attempts} attempts.`)
+    this.attempts = args.attempts
+  }
+}
+
+export class FaultAssertionError extends Fault {
+  static readonly _tag = "FaultAssertionError"
+  readonly expectedTag: string
+
+  constructor(args: { expectedTag: string; received: string }) {
+    super(
+      FaultAssertionError._tag,
+      `Expected a fault tagged '${args.expectedTag}', received:\n\n${args.received}`
+    )
+    this.expectedTag = args.expectedTag
+  }
+}
+
+export class InvalidWirePayloadError extends Fault {
+  static readonly _tag = "InvalidWirePayloadError"
+
+  // The payload's problems are read through the inherited `getDiagnostics()`.
+  constructor(args: { diagnostics: readonly WireDiagnostic[] }) {
+    super(
+      InvalidWirePayloadError._tag,
+      `Invalid Faultier payload: ${args.diagnostics.map(({ message, path }) => (path ? `${path}: ${message}` : message)).join("; ")}`
+    )
+    setDiagnostics(this, args.diagnostics)
+  }
+}
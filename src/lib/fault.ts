@@ -1,3 +1,30 @@
+import { type Codec, encodeFields, encodeValue, resolveCodecs } from "./codec"
+import { computeFingerprint, type FingerprintOptions } from "./fingerprint"
+import { type FormatLayer, type FormatOptions, formatTree } from "./format"
+import {
+  filterFrames,
+  type FramesOptions,
+  parseStack,
+  redactFrames,
+  type StackFormat,
+} from "./frames"
+import {
+  type RedactionPolicy,
+  redactMeta,
+  redactPayload,
+  redactStack,
+  resolveRedaction,
+  type SerializeOptions,
+} from "./redact"
+import {
+  declaredTraits,
+  type FaultSeverity,
+  type FaultTraits,
+  matchesTraits,
+  overrideTraits,
+  resolveTraits,
+  type TraitFilter,
+} from "./traits"
 import {
   collectPayloadFields,
   MAX_CAUSE_DEPTH,
@@ -6,6 +33,7 @@ import {
   type SerializableCause,
   type SerializableFault,
   type SerializableValue,
+  type WireDiagnostic,
 } from "./wire"
 
 export type FlattenField = "message" | "details"
@@ -16,38 +44,141 @@ export type FlattenOptions = {
   formatter?: (value: string) => string
 }
 
+export type FlattenTreeOptions = Omit<FlattenOptions, "field">
+
+/**
+ * How `getContext()` resolves keys set by several layers: `"head"` keeps the
+ * value nearest the head, `"leaf"` the one nearest the root cause, and
+ * `"collect"` keeps every value in head-to-leaf order.
+ */
+export type ContextStrategy = "head" | "leaf" | "collect"
+
+export type ContextOptions = {
+  strategy?: ContextStrategy
+  /** Prefixes each key with its layer's tag (`"DatabaseError.query"`). Defaults to false. */
+  namespace?: boolean
+}
+
+/** One `meta` entry of one fault in the cause chain; `depth` is its index in `unwrap()`. */
+export type ContextEntry = {
+  readonly tag: string
+  readonly depth: number
+  readonly key: string
+  readonly value: SerializableValue
+}
+
+/**
+ * One node of a cause tree. `errors` is present on aggregates (`AggregateFault`
+ * and native `AggregateError`) and holds one subtree per child error.
+ */
+export type CauseTree = {
+  readonly value: unknown
+  readonly cause?: CauseTree
+  readonly errors?: readonly CauseTree[]
+}
+
 // A WeakMap rather than a #private field: bunup's declaration emitter turns
 // native private fields into a bare `private;` member that breaks consumer
 // typechecking (see scripts/verify-package.ts). Side benefit: invisible to
 // Object.keys, so it needs no reserved-key entry.
 const originalStacks = new WeakMap<Fault, string | undefined>()
+const aggregateErrors = new WeakMap<AggregateFault, readonly unknown[]>()
+const wireDiagnostics = new WeakMap<Fault, readonly WireDiagnostic[]>()
 
 function defaultTrimFormatter(value: string): string {
   return value.trim()
 }
 
-function toCause(cause: unknown, depth: number): SerializableCause {
+// Per-call encoding settings, threaded unchanged through nested causes.
+export type EncodeContext = {
+  readonly codecs: readonly Codec[]
+  readonly redaction: RedactionPolicy | undefined
+  readonly stackFormat?: StackFormat
+  readonly frames?: FramesOptions
+}
+
+// Aggregates currently being expanded. A child that refers back to one of them
+// is encoded without its children, so cyclic aggregates stay finite.
+type EncodeState = EncodeContext & { readonly expanding: Set<object> }
+
+function toStack(stack: string | undefined, context: EncodeContext): string | undefined {
+  if (stack === undefined || context.redaction === undefined) return stack
+  return redactStack(stack, context.redaction)
+}
+
+function aggregateErrorsOf(value: unknown): readonly unknown[] | undefined {
+  if (value instanceof AggregateFault) return value.errors
+  if (value instanceof AggregateError) return value.errors as unknown[]
+  return undefined
+}
+
+function mapChildren<T>(
+  aggregate: object,
+  errors: readonly unknown[],
+  expanding: Set<object>,
+  fn: (child: unknown) => T
+): T[] {
+  if (expanding.has(aggregate)) return []
+
+  expanding.add(aggregate)
+  const mapped = errors.map((child) => fn(child))
+  expanding.delete(aggregate)
+  return mapped
+}
+
+function toCause(cause: unknown, depth: number, state: EncodeState): SerializableCause {
   if (cause instanceof Fault) {
-    return { kind: "fault", value: serializeFault(cause, depth + 1) }
+    return { kind: "fault", value: serializeFault(cause, depth + 1, state) }
+  }
+
+  if (cause instanceof AggregateError) {
+    // Children sit one edge below the aggregate, like its cause.
+    const errors =
+      depth + 1 < MAX_CAUSE_DEPTH
+        ? mapChildren(cause, cause.errors as unknown[], state.expanding, (child) =>
+            toCause(child, depth + 1, state)
+          )
+        : []
+    const serialized: Extract<SerializableCause, { kind: "aggregate" }> = {
+      errors,
+      kind: "aggregate",
+      message: cause.message,
+      name: cause.name,
+    }
+    const stack = toStack(cause.stack, state)
+    if (stack !== undefined) serialized.stack = stack
+    if (cause.cause !== undefined && depth + 1 < MAX_CAUSE_DEPTH) {
+      serialized.cause = toCause(cause.cause, depth + 1, state)
+    }
+    return serialized
   }
 
   if (cause instanceof Error) {
-    return {
+    const serialized: Extract<SerializableCause, { kind: "error" }> = {
       kind: "error",
       message: cause.message,
       name: cause.name,
-      stack: cause.stack,
     }
+    const stack = toStack(cause.stack, state)
+    if (stack !== undefined) serialized.stack = stack
+    // The native error sits one edge below its parent, like a nested fault.
+    if (cause.cause !== undefined && depth + 1 < MAX_CAUSE_DEPTH) {
+      serialized.cause = toCause(cause.cause, depth + 1, state)
+    }
+    return serialized
   }
 
-  return { kind: "thrown", value: normalizeThrown(cause) }
+  return { kind: "thrown", value: normalizeThrown(encodeValue(cause, state.codecs)) }
 }
 
-function serializeFault(fault: Fault, depth: number): SerializableFault {
-  const payload = collectPayloadFields(fault as unknown as Record<string, unknown>, isReservedKey)
-  // Guaranteed by the Tagged Fields constraint; function values are stripped above.
+function serializeFault(fault: Fault, depth: number, state: EncodeState): SerializableFault {
+  const { codecs, redaction } = state
+  const collected = collectPayloadFields(fault as unknown as Record<string, unknown>, isReservedKey)
+  const payload = redaction ? redactPayload(fault, collected, redaction) : collected
+  // Guaranteed by the Tagged Fields constraint once codecs have encoded rich
+  // values; function values are stripped above.
   // Deep serializability is a documented contract, not runtime-validated.
-  const serializablePayload = payload as Record<string, SerializableValue>
+  const serializablePayload = encodeFields(payload, codecs) as Record<string, SerializableValue>
 
   const serialized: SerializableFault = {
     __faultier: true,
@@ -57,17 +188,96 @@ function serializeFault(fault: Fault, depth: number): SerializableFault {
     name: fault.name,
   }
 
+  const stack = toStack(fault.stack, state)
+
   if (fault.details !== undefined) serialized.details = fault.details
-  if (fault.meta !== undefined) serialized.meta = fault.meta
-  if (fault.stack !== undefined) serialized.stack = fault.stack
+  if (fault.meta !== undefined) {
+    serialized.meta = redaction ? redactMeta(fault.meta, redaction) : fault.meta
+  }
+  const stackFormat = state.stackFormat ?? "string"
+  if (stack !== undefined && stackFormat !== "frames") serialized.stack = stack
+  if (stackFormat !== "string") {
+    const frames = redactFrames(filterFrames(parseStack(fault.stack), state.frames), redaction)
+    if (frames.length > 0) serialized.__frames = frames
+  }
+  if (fault._ancestors.length > 0) serialized._ancestors = [...fault._ancestors]
+  const traits = declaredTraits(fault)
+  if (Object.keys(traits).length > 0) serialized.__traits = traits
 
   if (fault.cause !== undefined && depth < MAX_CAUSE_DEPTH) {
-    serialized.cause = toCause(fault.cause, depth)
+    serialized.cause = toCause(fault.cause, depth, state)
+  }
+
+  if (fault instanceof AggregateFault && depth < MAX_CAUSE_DEPTH) {
+    serialized.__errors = mapChildren(fault, fault.errors, state.expanding, (child) =>
+      toCause(child, depth, state)
+    )
   }
 
   return serialized
 }
 
+function buildTree(value: unknown, depth: number, expanding: Set<object>): CauseTree {
+  const node: { value: unknown; cause?: CauseTree; errors?: CauseTree[] } = { value }
+  if (!(value instanceof Error) || depth >= MAX_CAUSE_DEPTH) return node
+
+  const errors = aggregateErrorsOf(value)
+  if (errors !== undefined && !expanding.has(value)) {
+    node.errors = mapChildren(value, errors, expanding, (child) =>
+      buildTree(child, depth + 1, expanding)
+    )
+  }
+  if (value.cause !== undefined) node.cause = buildTree(value.cause, depth + 1, expanding)
+
+  return node
+}
+
+// A linear run of the tree: messages along `cause` up to (and including) the
+// first aggregate, whose children (and cause, if any) become branches.
+function treeSegment(
+  head: CauseTree,
+  separator: string,
+  formatter: (value: string) => string
+): { text: string; branches: readonly CauseTree[] } {
+  const values: string[] = []
+  let node: CauseTree | undefined = head
+
+  while (node) {
+    const value = formatter(valueToMessage(node.value))
+    if (value !== "" && value !== values.at(-1)) values.push(value)
+
+    if (node.errors !== undefined) {
+      const branches = node.cause ? [...node.errors, node.cause] : node.errors
+      return { branches, text: values.join(separator) }
+    }
+
+    node = node.cause
+  }
+
+  return { branches: [], text: values.join(separator) }
+}
+
+function renderBranches(
+  branches: readonly CauseTree[],
+  prefix: string,
+  lines: string[],
+  separator: string,
+  formatter: (value: string) => string
+): void {
+  for (const [index, branch] of branches.entries()) {
+    const last = index === branches.length - 1
+    const segment = treeSegment(branch, separator, formatter)
+    lines.push(`${prefix}${last ? "└─ " : "├─ "}${segment.text}`)
+    renderBranches(
+      segment.branches,
+      `${prefix}${last ? "   " : "│  "}`,
+      lines,
+      separator,
+      formatter
+    )
+  }
+}
+
 function valueToMessage(value: unknown): string {
   if (value instanceof Error) return value.message
   if (typeof value === "string") return value
@@ -91,15 +301,89 @@ function valueToMessage(value: unknown): string {
   return ""
 }
 
+function defineEntry(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    configurable: true,
+    enumerable: true,
+    value,
+    writable: true,
+  })
+}
+
+function mergeContext(
+  entries: readonly ContextEntry[],
+  options: ContextOptions | undefined
+): Record<string, unknown> {
+  const { namespace = false, strategy = "head" } = options ?? {}
+  const merged: Record<string, unknown> = {}
+
+  for (const entry of entries) {
+    const key = namespace ? `${entry.tag}.${entry.key}` : entry.key
+    const existing = Object.hasOwn(merged, key) ? merged[key] : undefined
+
+    if (strategy === "collect") {
+      defineEntry(merged, key, [...((existing as unknown[] | undefined) ?? []), entry.value])
+    } else if (strategy === "leaf" || !Object.hasOwn(merged, key)) {
+      defineEntry(merged, key, entry.value)
+    }
+  }
+
+  return merged
+}
+
+function describeLayer(value: unknown): FormatLayer {
+  if (!(value instanceof Error)) return { message: valueToMessage(value) }
+
+  const layer: FormatLayer = { message: value.message }
+  if (value.stack !== undefined) layer.stack = value.stack
+  if (!(value instanceof Fault)) {
+    layer.label = value.name
+    return layer
+  }
+
+  layer.label = value._tag
+  if (value.details !== undefined) layer.details = value.details
+  if (value.meta !== undefined) layer.meta = value.meta
+  const isReserved = value instanceof AggregateFault ? isReservedAggregateKey : isReservedKey
+  const fields = collectPayloadFields(value as unknown as Record<string, unknown>, isReserved)
+  if (Object.keys(fields).length > 0) layer.fields = fields
+  return layer
+}
+
+// Own static `_tag` declarations along a constructor chain, nearest first.
+// `Tagged(...).extend()` children declare their own tag on top of the parent's.
+function declaredTags(ctor: unknown): string[] {
+  const tags: string[] = []
+  let current = ctor
+
+  while (typeof current === "function" && current !== Fault) {
+    const tag: unknown = Object.hasOwn(current, "_tag")
+      ? (current as { _tag?: unknown })._tag
+      : undefined
+    if (typeof tag === "string" && !tags.includes(tag)) tags.push(tag)
+    current = Object.getPrototypeOf(current)
+  }
+
+  return tags
+}
+
+export function tagOfClass(ctor: unknown): string | undefined {
+  return declaredTags(ctor)[0]
+}
+
 export abstract class Fault extends Error {
   readonly _tag: string
+  /** Parent tags from `Tagged(...).extend()`, nearest first. Empty for root tags. */
+  readonly _ancestors: readonly string[]
   override cause?: unknown
   meta?: Record<string, SerializableValue>
   details?: string
 
   protected constructor(tag: string, message?: string) {
     super(message ?? tag)
+    const lineage = declaredTags(new.target)
     this._tag = tag
+    this._ancestors = lineage[0] === tag ? lineage.slice(1) : []
     this.name = tag
     originalStacks.set(this, this.stack)
   }
@@ -109,6 +393,35 @@ export abstract class Fault extends Error {
     return this
   }
 
+  /** Overrides the class's `severity` trait for this fault. */
+  withSeverity(severity: FaultSeverity): this {
+    overrideTraits(this, { severity })
+    return this
+  }
+
+  /** Overrides the class's `retryable` trait for this fault. */
+  withRetryable(retryable = true): this {
+    overrideTraits(this, { retryable })
+    return this
+  }
+
+  /**
+   * Problems found in a wire payload: those tolerated when this fault was
+   * revived in `"lenient"` mode, or those an `InvalidWirePayloadError` rejected.
+   */
+  getDiagnostics(): readonly WireDiagnostic[] {
+    return wireDiagnostics.get(this) ?? []
+  }
+
+  /**
+   * Class-declared traits with per-instance overrides and defaults applied. A
+   * method rather than accessors, so `severity` and `retryable` stay free as
+   * payload field names.
+   */
+  getTraits(): FaultTraits {
+    return resolveTraits(declaredTraits(this))
+  }
+
   withMessage(message: string): this {
     this.message = message
     return this
@@ -144,23 +457,7 @@ export abstract class Fault extends Error {
   }
 
   unwrap(): [Fault, ...unknown[]] {
-    const chain: unknown[] = [this]
-    let current: unknown = this.cause
-    let depth = 0
-
-    while (current !== undefined && depth < MAX_CAUSE_DEPTH) {
-      chain.push(current)
-      depth += 1
-
-      if (current instanceof Fault) {
-        current = current.cause
-        continue
-      }
-
-      break
-    }
-
-    return chain as [Fault, ...unknown[]]
+    return causeChain(this) as [Fault, ...unknown[]]
   }
 
   getTags(): string[] {
@@ -169,21 +466,14 @@ export abstract class Fault extends Error {
       .map((item) => item._tag)
   }
 
-  getContext(): Record<string, unknown> {
-    const faults = this.unwrap().filter((item): item is Fault => item instanceof Fault)
-    const merged: Record<string, unknown> = {}
-
-    for (const fault of faults) {
-      const meta = fault.meta ?? {}
-
-      for (const [key, value] of Object.entries(meta)) {
-        if (!(key in merged)) {
-          merged[key] = value
-        }
-      }
-    }
-
-    return merged
+  /**
+   * Merges `meta` from every fault in the chain. Keys set by several layers
+   * resolve by `strategy`: the head wins by default.
+   */
+  getContext(options: ContextOptions & { strategy: "collect" }): Record<string, unknown[]>
+  getContext(options?: ContextOptions): Record<string, unknown>
+  getContext(options?: ContextOptions): Record<string, unknown> {
+    return mergeContext(getContextEntries(this), options)
   }
 
   flatten(options?: FlattenOptions): string {
@@ -219,8 +509,23 @@ export abstract class Fault extends Error {
     return deduped.join(separator)
   }
 
-  toSerializable(): SerializableFault {
-    return serializeFault(this, 0)
+  // `console.log` and `util.inspect` in Node and Bun render `formatFault()`.
+  // A symbol key, so no field name is reserved.
+  [Symbol.for("nodejs.util.inspect.custom")](
+    _depth: number,
+    options?: { readonly colors?: boolean }
+  ): string {
+    return formatFault(this, { color: options?.colors === true })
+  }
+
+  toSerializable(options?: SerializeOptions): SerializableFault {
+    return serializeFault(this, 0, {
+      codecs: resolveCodecs([]),
+      expanding: new Set(),
+      frames: options?.frames,
+      redaction: resolveRedaction(options?.redact),
+      stackFormat: options?.stackFormat,
+    })
   }
 
   toJSON(): SerializableFault {
@@ -228,10 +533,178 @@ export abstract class Fault extends Error {
   }
 }
 
+// Every copy of Faultier stamps the same registry symbol on its Fault
+// prototype, so faults from another bundle or realm are still recognizable.
+// The value is the brand version: copies that disagree on it do not recognize
+// each other's faults.
+const FAULT_BRAND = Symbol.for("faultier.fault")
+const FAULT_BRAND_VERSION = 1
+
+Object.defineProperty(Fault.prototype, FAULT_BRAND, { value: FAULT_BRAND_VERSION })
+
+/**
+ * A fault holding several child errors, such as the rejections collected from
+ * `Promise.allSettled`. Children are separate from `cause`: `unwrap()` and
+ * `flatten()` stay linear, while `unwrapTree(fault)` and `flattenTree(fault)` branch.
+ */
+export abstract class AggregateFault extends Fault {
+  get errors(): readonly unknown[] {
+    return aggregateErrors.get(this) ?? []
+  }
+
+  withErrors(errors: Iterable<unknown>): this {
+    aggregateErrors.set(this, [...errors])
+    return this
+  }
+}
+
+export function encodeCause(cause: unknown, context: EncodeContext): SerializableCause {
+  return toCause(cause, 0, { ...context, expanding: new Set() })
+}
+
+// Registry serialization entry point: encodes with the registry's codecs and redaction.
+export function encodeFault(fault: Fault, context: EncodeContext): SerializableFault {
+  return serializeFault(fault, 0, { ...context, expanding: new Set() })
+}
+
+/**
+ * Head-to-leaf cause chain. Follows `cause` through Faults and native errors
+ * alike, stops at the first non-Error value, and is bounded by MAX_CAUSE_DEPTH
+ * edges (which also ends cyclic chains).
+ */
+export function causeChain(head: unknown): unknown[] {
+  const chain: unknown[] = [head]
+  let current = head
+  let depth = 0
+
+  while (current instanceof Error && current.cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+    current = current.cause
+    chain.push(current)
+    depth += 1
+  }
+
+  return chain
+}
+
+/**
+ * The cause chain as a tree: like `causeChain`, but aggregates along the way
+ * (including native `AggregateError`) branch into their child errors.
+ */
+export function unwrapTree(error: unknown): CauseTree {
+  return buildTree(error, 0, new Set())
+}
+
+/**
+ * Renders `unwrapTree(error)` with one line per branch. Linear runs are joined
+ * with `separator` and deduplicated like `flatten()`.
+ */
+export function flattenTree(error: unknown, options?: FlattenTreeOptions): string {
+  const { formatter = defaultTrimFormatter, separator = " -> " } = options ?? {}
+  const segment = treeSegment(unwrapTree(error), separator, formatter)
+  const lines = [segment.text]
+
+  renderBranches(segment.branches, "", lines, separator, formatter)
+  return lines.join("\n")
+}
+
+/**
+ * Stable hash of a fault's `getTags()`, its normalized top stack frames, and
+ * the allowlisted payload fields. Messages never contribute. Other values hash
+ * like their `UnknownError`/`UnknownThrown` envelope, with a native error's
+ * own stack.
+ */
+export function fingerprint(error: unknown, options?: FingerprintOptions): string {
+  if (error instanceof Fault)
+    return computeFingerprint(error.getTags(), error.stack, error, options)
+  if (error instanceof Error) {
+    return computeFingerprint(["UnknownError"], error.stack, {}, options)
+  }
+  return computeFingerprint(["UnknownThrown"], undefined, {}, options)
+}
+
+/**
+ * Whether the fault's traits match `filter`. With `chain: true`, whether any
+ * fault in its cause chain matches. Non-Fault values never match.
+ */
+export function hasTraits(
+  error: unknown,
+  filter: TraitFilter,
+  options?: { chain?: boolean }
+): boolean {
+  const faults = options?.chain === true ? causeChain(error) : [error]
+  return faults.some((item) => item instanceof Fault && matchesTraits(item.getTraits(), filter))
+}
+
+/**
+ * Every `meta` entry in the cause chain with the tag and depth of the fault
+ * that set it, head first. Non-Fault layers contribute nothing.
+ */
+export function getContextEntries(error: unknown): ContextEntry[] {
+  const entries: ContextEntry[] = []
+
+  for (const [depth, item] of causeChain(error).entries()) {
+    if (!(item instanceof Fault)) continue
+
+    for (const [key, value] of Object.entries(item.meta ?? {})) {
+      entries.push({ depth, key, tag: item._tag, value })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Renders `unwrapTree(error)` as a multi-line box-drawing tree: each layer's
+ * tag and message, then its details, payload fields, meta, and top stack frames.
+ */
+export function formatFault(error: unknown, options?: FormatOptions): string {
+  return formatTree(unwrapTree(error), describeLayer, options)
+}
+
+// Gives a reconstructed fault the lineage recorded on the wire, which may be
+// more specific than its constructor's (ancestor fallback, generic faults).
+export function restoreLineage(fault: Fault, tag: string, ancestors: readonly string[]): void {
+  const target = fault as { _tag: string; _ancestors: readonly string[] }
+  target._tag = tag
+  target._ancestors = [...ancestors]
+}
+
+export function setDiagnostics(fault: Fault, diagnostics: readonly WireDiagnostic[]): void {
+  wireDiagnostics.set(fault, diagnostics)
+}
+
+/** Whether the fault's tag, or one of its ancestor tags, is `tag`. */
+export function hasTagInLineage(fault: Fault, tag: string): boolean {
+  return fault._tag === tag || fault._ancestors.includes(tag)
+}
+
 export function isFault(value: unknown): value is Fault {
   return value instanceof Fault
 }
 
+/**
+ * A Fault from this or any other copy of Faultier: carries the brand, a string
+ * `_tag`, an `_ancestors` array, and `toSerializable()`. A bare branded object
+ * fails the check, so callers can rely on the Fault shape.
+ */
+export function isFaultLike(value: unknown): value is Fault {
+  if (value instanceof Fault) return true
+  if ((typeof value !== "object" && typeof value !== "function") || value === null) return false
+
+  const candidate = value as {
+    [FAULT_BRAND]?: unknown
+    _ancestors?: unknown
+    _tag?: unknown
+    toSerializable?: unknown
+  }
+  return (
+    candidate[FAULT_BRAND] === FAULT_BRAND_VERSION &&
+    typeof candidate._tag === "string" &&
+    Array.isArray(candidate._ancestors) &&
+    typeof candidate.toSerializable === "function"
+  )
+}
+
 /**
  * The single reserved-key rule, shared by construction (reject), serialization
  * (exclude), and deserialization (rename): a key is reserved when it is a wire
@@ -242,3 +715,8 @@ export function isFault(value: unknown): value is Fault {
 export function isReservedKey(key: string): boolean {
   return RESERVED_FAULT_KEYS.has(key) || key in Fault.prototype
 }
+
+// Aggregates additionally reserve their own members (`errors`, `withErrors`).
+export function isReservedAggregateKey(key: string): boolean {
+  return isReservedKey(key) || key in AggregateFault.prototype
+}
@@ -0,0 +1,85 @@
+// Stable fingerprints for grouping faults. A fingerprint hashes the tag
+// chain, the head's normalized stack frames, and allowlisted payload fields,
+// all of which survive the wire, so a fault and its `fromSerializable`
+// reconstruction hash the same. FNV-1a keeps it portable (no Node crypto).
+import type { StackFrame } from "./wire"
+import { filterFrames, parseStack } from "./frames"
+
+export type FingerprintOptions = {
+  /** Payload fields of the head fault to include. Missing fields are skipped. */
+  fields?: readonly string[]
+  /** Number of the head's stack frames to include. Defaults to 5; `0` ignores stacks. */
+  frames?: number
+}
+
+const DEFAULT_FRAMES = 5
+
+const QUERY_SUFFIX = /[?#].*$/u
+
+// Line and column numbers shift between builds and absolute paths differ
+// between machines, so a frame keeps only its function and file name.
+function normalizeFrame(frame: StackFrame): string {
+  const path = frame.file?.replace(QUERY_SUFFIX, "")
+  const file = path?.slice(Math.max(path.lastIndexOf("/"), path.lastIndexOf("\\")) + 1)
+  return [frame.fn, frame.isNative ? "native" : file].filter(Boolean).join(" ")
+}
+
+// Faultier's own frames (registry and constructor internals) are the same
+// for every call site, so they are skipped before taking the top frames.
+export function normalizeFrames(stack: string | undefined, limit: number): string[] {
+  if (limit <= 0) return []
+  return filterFrames(parseStack(stack), { exclude: ["faultier"] })
+    .slice(0, limit)
+    .map((frame) => normalizeFrame(frame))
+}
+
+// Sorted keys keep plain-object fields independent of insertion order.
+function canonicalize(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return `${value}`
+  if (value instanceof Map) return [...value]
+  if (value instanceof Set) return [...value]
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return value
+
+  const sorted: Record<string, unknown> = {}
+  for (const key of Object.keys(value).toSorted()) {
+    Object.defineProperty(sorted, key, {
+      enumerable: true,
+      value: (value as Record<string, unknown>)[key],
+    })
+  }
+  return sorted
+}
+
+const FNV_OFFSET = 14_695_981_039_346_656_037n
+const FNV_PRIME = 1_099_511_628_211n
+const MASK_64 = (1n << 64n) - 1n
+
+// 64-bit FNV-1a over UTF-8 bytes, as 16 hex digits.
+function fnv1a64(input: string): string {
+  let hash = FNV_OFFSET
+  for (const byte of new TextEncoder().encode(input)) {
+    hash = ((hash ^ BigInt(byte)) * FNV_PRIME) & MASK_64
+  }
+  return hash.toString(16).padStart(16, "0")
+}
+
+export function computeFingerprint(
+  tags: readonly string[],
+  stack: string | undefined,
+  source: object,
+  options?: FingerprintOptions
+): string {
+  const fields: Record<string, unknown> = {}
+
+  for (const key of options?.fields ?? []) {
+    if (Object.hasOwn(source, key)) {
+      Object.defineProperty(fields, key, {
+        enumerable: true,
+        value: (source as Record<string, unknown>)[key],
+      })
+    }
+  }
+
+  const frames = normalizeFrames(stack, options?.frames ?? DEFAULT_FRAMES)
+  return fnv1a64(JSON.stringify({ fields, frames, tags }, canonicalize))
+}
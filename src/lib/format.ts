@@ -0,0 +1,152 @@
+// Multi-line terminal rendering of cause trees. Works on plain layer
+// descriptions so it stays independent of Fault; fault.ts describes each node.
+import type { CauseTree } from "./fault"
+import { formatFrame, parseStack } from "./frames"
+
+export type FormatOptions = {
+  /** Wraps tags, keys, and tree lines in ANSI colors. Defaults to false. */
+  color?: boolean
+  /** Includes each layer's top stack frames: `true` for 5, a number for that many. Defaults to true. */
+  stack?: boolean | number
+  /** Includes each fault's `meta`. Defaults to true. */
+  meta?: boolean
+  /** Includes each fault's payload fields. Defaults to true. */
+  payload?: boolean
+}
+
+/** What the renderer shows for one node of a cause tree. */
+export type FormatLayer = {
+  /** The tag for faults, the name for native errors, absent for thrown values. */
+  label?: string
+  message: string
+  details?: string
+  fields?: Record<string, unknown>
+  meta?: Record<string, unknown>
+  stack?: string
+}
+
+const DEFAULT_STACK_FRAMES = 5
+
+type Style = (text: string) => string
+
+type Palette = {
+  readonly label: Style
+  readonly key: Style
+  readonly dim: Style
+}
+
+function ansi(open: number, close: number): Style {
+  return (text) => (text === "" ? text : `\u001B[${open}m${text}\u001B[${close}m`)
+}
+
+const plain: Style = (text) => text
+
+const PLAIN_PALETTE: Palette = { dim: plain, key: plain, label: plain }
+
+const COLOR_PALETTE: Palette = {
+  dim: ansi(2, 22),
+  key: ansi(36, 39),
+  label: (text) => ansi(1, 22)(ansi(31, 39)(text)),
+}
+
+type RenderContext = {
+  readonly describe: (value: unknown) => FormatLayer
+  readonly palette: Palette
+  readonly frames: number
+  readonly meta: boolean
+  readonly payload: boolean
+  readonly lines: string[]
+}
+
+function replaceUnserializable(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return `${value}n`
+  if (value instanceof Map) return Object.fromEntries(value)
+  if (value instanceof Set) return [...value]
+  return value
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "undefined"
+  if (typeof value === "function") return "[Function]"
+  if (typeof value === "symbol") return value.toString()
+
+  try {
+    return JSON.stringify(value, replaceUnserializable)
+  } catch {
+    return Object.prototype.toString.call(value)
+  }
+}
+
+function headerOf(layer: FormatLayer, palette: Palette): string {
+  if (layer.label === undefined) return layer.message
+  const label = palette.label(layer.label)
+  return layer.message === "" || layer.message === layer.label
+    ? label
+    : `${label}: ${layer.message}`
+}
+
+function bodyOf(layer: FormatLayer, context: RenderContext): string[] {
+  const { dim, key } = context.palette
+  const body: string[] = []
+
+  if (layer.details !== undefined) body.push(`${key("details")}: ${layer.details}`)
+  if (context.payload && layer.fields) {
+    for (const [name, value] of Object.entries(layer.fields)) {
+      body.push(`${key(name)}: ${formatValue(value)}`)
+    }
+  }
+  if (context.meta && layer.meta) {
+    for (const [name, value] of Object.entries(layer.meta)) {
+      body.push(`${key(`meta.${name}`)}: ${formatValue(value)}`)
+    }
+  }
+  for (const frame of parseStack(layer.stack).slice(0, context.frames)) {
+    body.push(dim(formatFrame(frame).trim()))
+  }
+
+  return body
+}
+
+// Children are an aggregate's errors followed by the node's cause, so a
+// linear chain renders as a single branch per level.
+function renderNode(node: CauseTree, lead: string, indent: string, context: RenderContext): void {
+  const { dim } = context.palette
+  const layer = context.describe(node.value)
+  const children = node.cause ? [...(node.errors ?? []), node.cause] : (node.errors ?? [])
+  const rail = children.length > 0 ? "│  " : "   "
+
+  context.lines.push(`${dim(lead)}${headerOf(layer, context.palette)}`)
+  for (const line of bodyOf(layer, context)) {
+    context.lines.push(`${dim(`${indent}${rail}`)}${line}`)
+  }
+
+  for (const [index, child] of children.entries()) {
+    const last = index === children.length - 1
+    renderNode(
+      child,
+      `${indent}${last ? "└─ " : "├─ "}`,
+      `${indent}${last ? "   " : "│  "}`,
+      context
+    )
+  }
+}
+
+export function formatTree(
+  tree: CauseTree,
+  describe: (value: unknown) => FormatLayer,
+  options?: FormatOptions
+): string {
+  const { color = false, meta = true, payload = true, stack = true } = options ?? {}
+  const frames = typeof stack === "number" ? stack : stack ? DEFAULT_STACK_FRAMES : 0
+  const context: RenderContext = {
+    describe,
+    frames,
+    lines: [],
+    meta,
+    palette: color ? COLOR_PALETTE : PLAIN_PALETTE,
+    payload,
+  }
+
+  renderNode(tree, "", "", context)
+  return context.lines.join("\n")
+}
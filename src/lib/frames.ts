@@ -0,0 +1,145 @@
+// Structured stack frames. Parses V8/Bun (`at fn (file:1:2)`) and
+// SpiderMonkey/JavaScriptCore (`fn@file:1:2`) stack lines, filters them, and
+// formats them back into a V8-style stack for faults that only carry frames.
+import type { RedactionPolicy } from "./redact"
+import type { StackFrame } from "./wire"
+
+export type FrameExclusion =
+  | "faultier"
+  | "internal"
+  | "node_modules"
+  | ((frame: StackFrame) => boolean)
+
+export type FramesOptions = {
+  /**
+   * Drops matching frames: `"node_modules"` (dependencies), `"internal"`
+   * (`node:` and runtime internals), `"faultier"` (this library's own frames),
+   * or any predicate returning true for frames to drop.
+   */
+  exclude?: readonly FrameExclusion[]
+}
+
+/** How faults encode stacks: the legacy `stack` string, `__frames`, or both. */
+export type StackFormat = "string" | "frames" | "both"
+
+const V8_FRAME = /^\s*at\s+(?:(.+?)\s+\((.+)\)|(.+))$/u
+const GECKO_FRAME = /^\s*([^\s@]*)@(.+:\d+(?::\d+)?|\[native code\])$/u
+const LOCATION = /^(.*?)(?::(\d+))?(?::(\d+))?$/u
+const NATIVE_LOCATIONS: ReadonlySet<string> = new Set(["native", "[native code]"])
+const INTERNAL_PREFIXES = ["node:", "internal/", "bun:"]
+
+function parseLocation(name: string | undefined, location: string): StackFrame {
+  const frame: StackFrame = { isInternal: false, isNative: false }
+  if (name) frame.fn = name
+
+  const [, file = "", line, column] = LOCATION.exec(location) ?? []
+
+  if (NATIVE_LOCATIONS.has(file)) {
+    frame.isNative = true
+    return frame
+  }
+
+  frame.file = file
+  frame.isInternal = INTERNAL_PREFIXES.some((prefix) => file.startsWith(prefix))
+  if (line !== undefined) frame.line = Number(line)
+  if (column !== undefined) frame.column = Number(column)
+  return frame
+}
+
+export function parseFrameLine(line: string): StackFrame | undefined {
+  const v8 = V8_FRAME.exec(line)
+  if (v8) return parseLocation(v8[1], v8[2] ?? v8[3] ?? "")
+
+  const gecko = GECKO_FRAME.exec(line)
+  if (gecko) return parseLocation(gecko[1], gecko[2] ?? "")
+
+  return undefined
+}
+
+/**
+ * The head's frames only: parsing skips the header and stops at the first
+ * line after the frames, such as a "Caused by:" block.
+ */
+export function parseStack(stack?: string): StackFrame[] {
+  const frames: StackFrame[] = []
+  if (stack === undefined) return frames
+
+  for (const line of stack.split("\n")) {
+    const frame = parseFrameLine(line)
+    if (frame === undefined) {
+      if (frames.length > 0) break
+      continue
+    }
+    frames.push(frame)
+  }
+
+  return frames
+}
+
+function directoryOf(file: string): string {
+  return file.slice(0, Math.max(file.lastIndexOf("/"), file.lastIndexOf("\\")) + 1)
+}
+
+// This module's directory holds Faultier's other modules too, unless Faultier
+// was bundled into an application, where its frames cannot be told apart from
+// the application's and are kept.
+const OWN_FILE = parseStack(new Error("frame probe").stack)[0]?.file
+const OWN_DIRECTORY =
+  OWN_FILE !== undefined && /[/\\]frames\.[cm]?[jt]s$/u.test(OWN_FILE)
+    ? directoryOf(OWN_FILE)
+    : undefined
+
+function isDependency(file: string | undefined): boolean {
+  return file !== undefined && /[/\\]node_modules[/\\]/u.test(file)
+}
+
+function isFaultier(file: string | undefined): boolean {
+  if (file === undefined) return false
+  if (/[/\\]node_modules[/\\]faultier[/\\]/u.test(file)) return true
+  return OWN_DIRECTORY !== undefined && directoryOf(file) === OWN_DIRECTORY
+}
+
+function isExcluded(frame: StackFrame, exclusion: FrameExclusion): boolean {
+  if (typeof exclusion === "function") return exclusion(frame)
+  if (exclusion === "internal") return frame.isInternal
+  if (exclusion === "node_modules") return isDependency(frame.file)
+  return isFaultier(frame.file)
+}
+
+export function filterFrames(frames: readonly StackFrame[], options?: FramesOptions): StackFrame[] {
+  const exclude = options?.exclude ?? []
+  return frames.filter((frame) => !exclude.some((exclusion) => isExcluded(frame, exclusion)))
+}
+
+/**
+ * Parsed frames of an error's own stack, excluding "Caused by:" blocks. A free
+ * function rather than a Fault method, so `frames` stays free as a field name.
+ */
+export function frames(error: unknown, options?: FramesOptions): StackFrame[] {
+  return error instanceof Error ? filterFrames(parseStack(error.stack), options) : []
+}
+
+// Mirrors redactStack: frames are stack data, so the same policy applies.
+export function redactFrames(frames: StackFrame[], policy?: RedactionPolicy): StackFrame[] {
+  const mode = policy?.stack ?? "keep"
+  if (mode === "keep") return frames
+  if (mode === "strip") return []
+  return frames.slice(0, mode.frames)
+}
+
+function formatLocation(frame: StackFrame): string {
+  if (frame.isNative) return "native"
+  return [frame.file ?? "<anonymous>", frame.line, frame.column]
+    .filter((part) => part !== undefined)
+    .join(":")
+}
+
+export function formatFrame(frame: StackFrame): string {
+  const location = formatLocation(frame)
+  return frame.fn === undefined ? `    at ${location}` : `    at ${frame.fn} (${location})`
+}
+
+/** Rebuilds a V8-style stack from a header line and frames. */
+export function formatStack(header: string, frames: readonly StackFrame[]): string {
+  return [header, ...frames.map((frame) => formatFrame(frame))].join("\n")
+}
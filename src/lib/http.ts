@@ -0,0 +1,92 @@
+import type { Fault } from "./fault"
+import type { SerializeOptions } from "./redact"
+import type { FaultRegistry } from "./registry"
+import type { AnyFaultCtor } from "./registry-state"
+import { HttpTransportError } from "./errors"
+import { getRegistryState } from "./registry-state"
+import { assertSerializableFault } from "./reviver"
+
+export const FAULT_CONTENT_TYPE = "application/vnd.faultier+json"
+
+const PROBLEM_CONTENT_TYPE = "application/problem+json"
+
+export type ToResponseOptions = {
+  /** Overrides the status from the tag's HTTP metadata. Defaults to 500 for unmapped tags. */
+  status?: number
+  headers?: ConstructorParameters<typeof Headers>[0]
+  /** Redaction profile or policy; replaces the registry default. */
+  redact?: SerializeOptions["redact"]
+}
+
+function mediaType(response: Response): string {
+  const contentType = response.headers.get("content-type") ?? ""
+  return (contentType.split(";")[0] ?? "").trim().toLowerCase()
+}
+
+function transportFault(response: Response, cause: unknown): HttpTransportError {
+  return new HttpTransportError({
+    status: response.status,
+    statusText: response.statusText,
+  }).withCause(cause)
+}
+
+export function toResponse<M extends Record<string, AnyFaultCtor>>(
+  registry: FaultRegistry<M>,
+  err: unknown,
+  options?: ToResponseOptions
+): Response {
+  const { http } = getRegistryState(registry)
+  const metadata = registry.is(err) ? http.get((err as Fault)._tag) : undefined
+  const headers = new Headers(options?.headers)
+  headers.set("content-type", FAULT_CONTENT_TYPE)
+
+  return Response.json(registry.toSerializable(err, { redact: options?.redact }), {
+    headers,
+    status: options?.status ?? metadata?.status ?? 500,
+  })
+}
+
+/**
+ * Decodes a fault from a response body. Faultier payloads and problem+json
+ * bodies are reconstructed through the registry; anything else (including a
+ * malformed Faultier payload) becomes an `HttpTransportError` whose cause is
+ * the body or the validation error.
+ */
+export async function fromResponse<M extends Record<string, AnyFaultCtor>>(
+  registry: FaultRegistry<M>,
+  response: Response
+): Promise<InstanceType<M[keyof M]> | Fault> {
+  const type = mediaType(response)
+
+  let text: string
+  try {
+    text = await response.text()
+  } catch (error) {
+    return transportFault(response, error)
+  }
+
+  if (type !== FAULT_CONTENT_TYPE && type !== PROBLEM_CONTENT_TYPE) {
+    return transportFault(response, text)
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch (error) {
+    return transportFault(response, error)
+  }
+
+  // Nested causes are validated during reconstruction, so it stays inside the try.
+  try {
+    if (type === PROBLEM_CONTENT_TYPE) {
+      // oxlint-disable-next-line typescript/no-unsafe-return
+      return registry.fromProblemDetails(body)
+    }
+
+    assertSerializableFault(body)
+    // oxlint-disable-next-line typescript/no-unsafe-return
+    return registry.fromSerializable(body)
+  } catch (error) {
+    return transportFault(response, error)
+  }
+}
@@ -0,0 +1,274 @@
+// Localized, user-facing messages. Catalogs map locales to per-tag entries;
+// string entries use an ICU-like syntax (`{field}`, `{meta.key}`,
+// `{n, number}`, `{n, plural, ...}`, `{x, select, ...}`) over the fault's
+// own properties.
+import type { Fault } from "./fault"
+import type { FaultRegistry } from "./registry"
+import type { AnyFaultCtor } from "./registry-state"
+
+/** A catalog entry: an ICU-like message string, or a function of the fault and the resolved locale. */
+export type LocalizedMessage<F extends Fault = Fault> =
+  | string
+  | ((fault: F, locale: string) => string)
+
+type CatalogCtors<T> = T extends FaultRegistry<infer M> ? M : T
+
+export type MessageCatalog<T> = {
+  readonly [K in keyof CatalogCtors<T>]?: CatalogCtors<T>[K] extends AnyFaultCtor
+    ? LocalizedMessage<InstanceType<CatalogCtors<T>[K]>>
+    : never
+}
+
+/** Catalogs keyed by locale (`"en"`, `"pt-BR"`, ...). */
+export type MessageCatalogs<T> = { readonly [locale: string]: MessageCatalog<T> }
+
+/**
+ * A catalog with an entry for every registered tag. Use it with `satisfies`
+ * to check catalogs at compile time; accepts a constructor map or a registry type.
+ */
+export type CompleteMessageCatalog<T> = {
+  readonly [K in keyof MessageCatalog<T>]-?: NonNullable<MessageCatalog<T>[K]>
+}
+
+export type CompleteMessageCatalogs<T> = { readonly [locale: string]: CompleteMessageCatalog<T> }
+
+/**
+ * Requested locales in order, each followed by its less specific forms
+ * (`"de-CH"` → `"de"`), then the registry's fallback locale.
+ */
+export function localeChain(locale: string | readonly string[], fallback?: string): string[] {
+  const chain: string[] = []
+  const requested = typeof locale === "string" ? [locale] : [...locale]
+  if (fallback !== undefined) requested.push(fallback)
+
+  for (const candidate of requested) {
+    const subtags = candidate.split("-")
+    for (let length = subtags.length; length > 0; length -= 1) {
+      const tag = subtags.slice(0, length).join("-")
+      if (!chain.includes(tag)) chain.push(tag)
+    }
+  }
+
+  return chain
+}
+
+function ownValue(source: unknown, key: string): unknown {
+  if (typeof source !== "object" || source === null || !Object.hasOwn(source, key)) {
+    return undefined
+  }
+  return (source as Record<string, unknown>)[key]
+}
+
+// Dotted names walk own properties only, so `{constructor}` or `{withMessage}`
+// never reach prototype members.
+function lookup(fault: Fault, name: string): unknown {
+  let value: unknown = fault
+  for (const key of name.split(".")) {
+    value = ownValue(value, key)
+  }
+  return value
+}
+
+function formatValue(value: unknown, locale: string): string {
+  if (typeof value === "number" || typeof value === "bigint") {
+    return new Intl.NumberFormat(locale).format(value)
+  }
+  if (value instanceof Date) return new Intl.DateTimeFormat(locale).format(value)
+  return String(value)
+}
+
+function selectBranch(
+  type: string,
+  value: unknown,
+  options: ReadonlyMap<string, string>,
+  locale: string
+): string | undefined {
+  if (type === "select") return options.get(String(value)) ?? options.get("other")
+
+  const count = Number(value)
+  const rules = new Intl.PluralRules(locale, {
+    type: type === "selectordinal" ? "ordinal" : "cardinal",
+  })
+  return options.get(`=${count}`) ?? options.get(rules.select(count)) ?? options.get("other")
+}
+
+const WHITESPACE = /\s/u
+const SELECTOR_END = /[\s{}]/u
+
+// Single-pass formatter; sub-messages are formatted recursively with a new
+// parser, so `#` always refers to the innermost plural.
+class MessageFormatter {
+  private readonly source: string
+  private readonly fault: Fault
+  private readonly locale: string
+  private readonly count: string | undefined
+  private index = 0
+
+  constructor(source: string, fault: Fault, locale: string, count: string | undefined) {
+    this.source = source
+    this.fault = fault
+    this.locale = locale
+    this.count = count
+  }
+
+  format(): string {
+    let output = ""
+
+    while (this.index < this.source.length) {
+      const char = this.peek()
+
+      const quoted = char === "'" ? this.readQuoted() : undefined
+      if (quoted !== undefined) {
+        output += quoted
+        continue
+      }
+
+      if (char === "{") {
+        output += this.formatArgument()
+        continue
+      }
+
+      output += char === "#" && this.count !== undefined ? this.count : char
+      this.index += 1
+    }
+
+    return output
+  }
+
+  private peek(offset = 0): string {
+    return this.source.charAt(this.index + offset)
+  }
+
+  private skipWhitespace(): void {
+    while (WHITESPACE.test(this.peek())) this.index += 1
+  }
+
+  // `''` is a literal apostrophe; `'{...}'` quotes literal braces.
+  private readQuoted(): string | undefined {
+    const next = this.peek(1)
+
+    if (next === "'") {
+      this.index += 2
+      return "'"
+    }
+
+    if (next === "{" || next === "}") {
+      const end = this.source.indexOf("'", this.index + 1)
+      const close = end === -1 ? this.source.length : end
+      const quoted = this.source.slice(this.index + 1, close)
+      this.index = close + 1
+      return quoted
+    }
+
+    return undefined
+  }
+
+  // Reads up to (not including) the next `,` or `}`.
+  private readToken(): string {
+    const start = this.index
+    while (this.index < this.source.length && !",}".includes(this.peek())) this.index += 1
+    return this.source.slice(start, this.index).trim()
+  }
+
+  // Reads a `{...}` sub-message body, returning it unformatted.
+  private readBlock(): string {
+    const start = this.index + 1
+    let depth = 0
+
+    for (; this.index < this.source.length; this.index += 1) {
+      const char = this.peek()
+      if (char === "{") depth += 1
+      if (char === "}") {
+        depth -= 1
+        if (depth === 0) {
+          this.index += 1
+          return this.source.slice(start, this.index - 1)
+        }
+      }
+    }
+
+    throw new SyntaxError(`Unterminated sub-message in "${this.source}"`)
+  }
+
+  private readOptions(): Map<string, string> {
+    const options = new Map<string, string>()
+    this.skipWhitespace()
+
+    while (this.index < this.source.length && this.peek() !== "}") {
+      const start = this.index
+      while (this.index < this.source.length && !SELECTOR_END.test(this.peek())) this.index += 1
+      const selector = this.source.slice(start, this.index)
+      this.skipWhitespace()
+      options.set(selector, this.readBlock())
+      this.skipWhitespace()
+    }
+
+    return options
+  }
+
+  private formatArgument(): string {
+    const start = this.index
+    this.index += 1
+    const name = this.readToken()
+    const value = lookup(this.fault, name)
+    let type = ""
+
+    if (this.peek() === ",") {
+      this.index += 1
+      type = this.readToken()
+    }
+
+    if (type === "plural" || type === "selectordinal" || type === "select") {
+      this.index += 1
+      const options = this.readOptions()
+      this.index += 1
+      const branch = selectBranch(type, value, options, this.locale)
+      if (branch === undefined) return ""
+      const count = type === "select" ? this.count : formatValue(Number(value), this.locale)
+      return new MessageFormatter(branch, this.fault, this.locale, count).format()
+    }
+
+    // Simple and `number`/`date` arguments; styles are ignored.
+    while (this.index < this.source.length && this.peek() !== "}") this.index += 1
+    this.index += 1
+
+    // Unknown placeholders stay as written, like message templates.
+    if (value === undefined) return this.source.slice(start, this.index)
+    return formatValue(value, this.locale)
+  }
+}
+
+/**
+ * Formats an ICU-like message. `#` inside a plural branch is the formatted
+ * count; `''` is a literal apostrophe and `'{...}'` quotes literal braces.
+ */
+export function formatMessage(source: string, fault: Fault, locale: string): string {
+  return new MessageFormatter(source, fault, locale, undefined).format()
+}
+
+function ownEntry(catalog: object | undefined, tag: string): LocalizedMessage | undefined {
+  if (!catalog || !Object.hasOwn(catalog, tag)) return undefined
+  return (catalog as Record<string, LocalizedMessage | undefined>)[tag]
+}
+
+// Locale first, then lineage: a translated parent message beats a child
+// message in a less preferred locale.
+export function localizeFault(
+  fault: Fault,
+  catalogs: ReadonlyMap<string, object>,
+  chain: readonly string[]
+): string | undefined {
+  const tags = [fault._tag, ...fault._ancestors]
+
+  for (const locale of chain) {
+    for (const tag of tags) {
+      const entry = ownEntry(catalogs.get(locale), tag)
+      if (entry === undefined) continue
+      return typeof entry === "function"
+        ? entry(fault, locale)
+        : formatMessage(entry, fault, locale)
+    }
+  }
+
+  return undefined
+}
@@ -1,15 +1,41 @@
-import type { Fault } from "./fault"
+import { NonExhaustiveMatchError } from "./errors"
+import { type AggregateFault, causeChain, Fault } from "./fault"
 
 export type TagOf<E extends Fault> = E["_tag"]
 
 export type ByTag<E extends Fault, T extends string> = Extract<E, { _tag: T }>
 
+/**
+ * Parent tags recorded by `Tagged(...).extend()`. Plain `Fault` types have no
+ * statically known ancestors, so they contribute none.
+ */
+export type AncestorTagOf<E extends Fault> = E extends unknown
+  ? string extends E["_ancestors"][number]
+    ? never
+    : E["_ancestors"][number]
+  : never
+
+/** Members of `E` tagged `T` or extended from `T`. */
+export type ByTagOrAncestor<E extends Fault, T extends string> =
+  | ByTag<E, T>
+  | (E extends unknown ? (T extends AncestorTagOf<E> ? E : never) : never)
+
 type MatchHandlers<E extends Fault> = Partial<{
-  [T in TagOf<E>]: ((e: ByTag<E, T>) => unknown) | undefined
+  [T in TagOf<E> | AncestorTagOf<E>]: ((e: ByTagOrAncestor<E, T>) => unknown) | undefined
 }>
 
 export type HandlerResult<H> = ReturnType<Extract<H[keyof H], (...args: never[]) => unknown>>
 
+export type FaultClass<F extends Fault = Fault> = abstract new (...args: never[]) => F
+
+export type CauseOfTag<T extends string> = Fault & { readonly _tag: T }
+
+// Cause chains are untyped beyond the head, so handlers are keyed by any tag
+// and receive a Fault narrowed to that tag.
+type CauseMatchHandlers<H> = {
+  [K in keyof H]: ((fault: CauseOfTag<K & string>) => unknown) | undefined
+}
+
 type RequiredHandlerKeys<H> = {
   [K in keyof H]-?: undefined extends H[K]
     ? never
@@ -18,8 +44,27 @@ type RequiredHandlerKeys<H> = {
       : never
 }[keyof H]
 
-type MatchTagsResult<E extends Fault, H> =
-  TagOf<E> extends RequiredHandlerKeys<H> ? HandlerResult<H> : HandlerResult<H> | undefined
+// Members with no required handler for their tag or any ancestor tag.
+type UncoveredMembers<E extends Fault, K> = E extends unknown
+  ? E["_tag"] extends K
+    ? never
+    : [Extract<AncestorTagOf<E>, K>] extends [never]
+      ? E
+      : never
+  : never
+
+type MatchTagsResult<E extends Fault, H> = [UncoveredMembers<E, RequiredHandlerKeys<H>>] extends [
+  never,
+]
+  ? HandlerResult<H>
+  : HandlerResult<H> | undefined
+
+function hasHandler(handlers: object, tag: string): boolean {
+  return (
+    Object.hasOwn(handlers, tag) &&
+    typeof (handlers as Record<PropertyKey, unknown>)[tag] === "function"
+  )
+}
 
 export function dispatchTag(
   err: Fault,
@@ -34,13 +79,16 @@ export function dispatchTag(
   return fallback?.(err as never)
 }
 
+// `tag` defaults to the fault's own; registries pass the registered tag a
+// fault revived through an ancestor's constructor dispatches as.
 export function dispatchTags(
   err: Fault,
   handlers: object,
-  fallback?: (err: never) => unknown
+  fallback?: (err: never) => unknown,
+  tag: string = err._tag
 ): unknown {
-  const handler = Object.hasOwn(handlers, err._tag)
-    ? (handlers as Record<PropertyKey, ((matched: never) => unknown) | undefined>)[err._tag]
+  const handler = Object.hasOwn(handlers, tag)
+    ? (handlers as Record<PropertyKey, ((matched: never) => unknown) | undefined>)[tag]
     : undefined
 
   if (typeof handler === "function") {
@@ -50,6 +98,111 @@ export function dispatchTags(
   return fallback?.(err as never)
 }
 
+// Handler maps may target parent tags. The most specific handler wins: the
+// fault's own tag, then its ancestors from nearest to furthest.
+export function dispatchLineageTags(
+  err: Fault,
+  handlers: object,
+  fallback?: (err: never) => unknown
+): unknown {
+  const tag = [err._tag, ...err._ancestors].find((candidate) => hasHandler(handlers, candidate))
+
+  const handler =
+    tag === undefined
+      ? undefined
+      : (handlers as Record<PropertyKey, ((matched: never) => unknown) | undefined>)[tag]
+
+  if (typeof handler === "function") {
+    return handler(err as never)
+  }
+
+  return fallback?.(err as never)
+}
+
+/**
+ * Shown in place of `.exhaustive()` while tags remain unhandled, so the type
+ * error names them: "Type 'UnhandledTags<"TimeoutError">' has no call signatures."
+ */
+export type UnhandledTags<Tags extends string> = {
+  readonly unhandledTags: Tags
+}
+
+// Registry matchers accept `unknown`, so their fallback cannot be narrowed.
+type MatcherFallbackInput<Input, Remaining> = unknown extends Input ? unknown : Remaining
+
+export type Matcher<Input, Remaining extends Fault, R> = {
+  with<const T extends TagOf<Remaining>, RH>(
+    tag: T,
+    handler: (e: ByTag<Remaining, T>) => RH
+  ): Matcher<Input, Exclude<Remaining, { _tag: T }>, R | RH>
+  with<const T extends readonly [TagOf<Remaining>, ...Array<TagOf<Remaining>>], RH>(
+    tags: T,
+    handler: (e: ByTag<Remaining, T[number]>) => RH
+  ): Matcher<Input, Exclude<Remaining, { _tag: T[number] }>, R | RH>
+  /** Dispatches, calling the fallback when no handler matches. */
+  otherwise<RF>(fallback: (err: MatcherFallbackInput<Input, Remaining>) => RF): R | RF
+  /** Dispatches, returning `undefined` when no handler matches. */
+  run(): R | undefined
+  /**
+   * Dispatches once every tag has a handler. Throws `NonExhaustiveMatchError`
+   * if no handler matches at runtime (for example, a value outside the union).
+   */
+  exhaustive: [Remaining] extends [never] ? () => R : UnhandledTags<TagOf<Remaining>>
+}
+
+type MatchHandlerRecord = Record<PropertyKey, (err: never) => unknown>
+
+// `tag` is the tag `err` dispatches as, or `undefined` when it is not a member.
+export function createMatcher(
+  err: unknown,
+  tag: string | undefined,
+  handlers: MatchHandlerRecord = {}
+): Matcher<unknown, Fault, unknown> {
+  function dispatch(fallback: (err: never) => unknown): unknown {
+    if (tag === undefined) return fallback(err as never)
+    return dispatchTags(err as Fault, handlers, fallback, tag)
+  }
+
+  const matcher = {
+    exhaustive() {
+      return dispatch(() => {
+        throw new NonExhaustiveMatchError({
+          unmatchedTag: tag === undefined ? undefined : (err as Fault)._tag,
+        })
+      })
+    },
+    otherwise(fallback: (err: never) => unknown) {
+      return dispatch(fallback)
+    },
+    run() {
+      return tag === undefined ? undefined : dispatchTags(err as Fault, handlers, undefined, tag)
+    },
+    with(tags: PropertyKey | readonly PropertyKey[], handler: (err: never) => unknown) {
+      const next: MatchHandlerRecord = { ...handlers }
+      const tagList = typeof tags === "object" ? tags : [tags]
+
+      for (const tag of tagList) {
+        // First registration wins, mirroring top-to-bottom pattern matching.
+        if (Object.hasOwn(next, tag)) continue
+        Object.defineProperty(next, tag, {
+          configurable: true,
+          enumerable: true,
+          value: handler,
+          writable: true,
+        })
+      }
+
+      return createMatcher(err, tag, next)
+    },
+  }
+
+  return matcher as unknown as Matcher<unknown, Fault, unknown>
+}
+
+export function match<E extends Fault>(err: E): Matcher<E, E, never> {
+  return createMatcher(err, err._tag) as unknown as Matcher<E, E, never>
+}
+
 export function matchTag<E extends Fault, RH, T extends TagOf<E>>(
   err: E,
   tag: T & TagOf<NoInfer<E>>,
@@ -85,5 +238,86 @@ export function matchTags<E extends Fault, const H extends MatchHandlers<E>, RF>
   handlers: H,
   fallback?: (err: E) => RF
 ): HandlerResult<H> | RF | undefined {
-  return dispatchTags(err, handlers, fallback) as HandlerResult<H> | RF | undefined
+  return dispatchLineageTags(err, handlers, fallback) as HandlerResult<H> | RF | undefined
+}
+
+/**
+ * Returns the first fault in a head-to-leaf chain that `accept`s, or `undefined`.
+ * A native error head is followed through its `cause` like a Fault.
+ */
+export function findInChain(err: unknown, accept: (fault: Fault) => boolean): Fault | undefined {
+  for (const item of causeChain(err)) {
+    if (item instanceof Fault && accept(item)) return item
+  }
+
+  return undefined
+}
+
+// `tagOf` is the tag a fault dispatches as, or `undefined` to skip it.
+export function dispatchCauseTags(
+  err: unknown,
+  handlers: object,
+  tagOf: (fault: Fault) => string | undefined,
+  fallback?: (err: never) => unknown
+): unknown {
+  const found = findInChain(err, (fault) => {
+    const tag = tagOf(fault)
+    return tag !== undefined && hasHandler(handlers, tag)
+  })
+
+  if (found) return dispatchTags(found, handlers, undefined, tagOf(found))
+
+  return fallback?.(err as never)
+}
+
+export function findCause<F extends Fault>(err: Fault, ctor: FaultClass<F>): F | undefined
+export function findCause<const T extends string>(err: Fault, tag: T): CauseOfTag<T> | undefined
+export function findCause(err: Fault, target: FaultClass | string): Fault | undefined {
+  return findInChain(err, (fault) => matchesTarget(fault, target))
+}
+
+function matchesTarget(fault: Fault, target: FaultClass | string): boolean {
+  return typeof target === "string" ? fault._tag === target : fault instanceof target
+}
+
+// A child matches when its own cause chain contains a matching fault, so
+// wrapped children count like `findCause` would find them.
+function childMatches(child: unknown, target: FaultClass | string): boolean {
+  return findInChain(child, (fault) => matchesTarget(fault, target)) !== undefined
+}
+
+export function someError(
+  err: AggregateFault | AggregateError,
+  target: FaultClass | string
+): boolean {
+  return (err.errors as readonly unknown[]).some((child) => childMatches(child, target))
+}
+
+export function everyError(
+  err: AggregateFault | AggregateError,
+  target: FaultClass | string
+): boolean {
+  return (err.errors as readonly unknown[]).every((child) => childMatches(child, target))
+}
+
+function ownTag(fault: Fault): string {
+  return fault._tag
+}
+
+export function matchCauseTags<const H extends CauseMatchHandlers<H>>(
+  err: Fault,
+  handlers: H
+): HandlerResult<H> | undefined
+export function matchCauseTags<const H extends CauseMatchHandlers<H>, RF>(
+  err: Fault,
+  handlers: H,
+  /** Called when no fault in the chain has a handler. Receives the head. */
+  fallback: (err: Fault) => RF
+): HandlerResult<H> | RF
+export function matchCauseTags<const H extends CauseMatchHandlers<H>, RF>(
+  err: Fault,
+  handlers: H,
+  fallback?: (err: Fault) => RF
+): HandlerResult<H> | RF | undefined {
+  return dispatchCauseTags(err, handlers, ownTag, fallback) as HandlerResult<H> | RF | undefined
 }
@@ -1,3 +1,8 @@
+import type { Codec } from "./codec"
+import type { LocalizedMessage } from "./i18n"
+import type { WireMigration } from "./migrate"
+import type { HttpMetadata } from "./problem"
+import type { RedactionPolicy, RedactionProfile } from "./redact"
 import type { FaultRegistry } from "./registry"
 import type { AnyFaultCtor } from "./registry-state"
 import { RegistryMergeConflictError } from "./errors"
@@ -26,9 +31,58 @@ export function merge<
   const Registries extends readonly [AnyFaultRegistry, AnyFaultRegistry, ...AnyFaultRegistry[]],
 >(...registries: Registries): MergedRegistry<Registries> {
   const tagToCtor = new Map<string, AnyFaultCtor>()
+  const http = new Map<string, HttpMetadata>()
+  const codecs = new Map<string, Codec>()
+  let redact: RedactionProfile | RedactionPolicy | undefined
+  let internal: RedactionPolicy | undefined
+  let publicPolicy: RedactionPolicy | undefined
+  let fallbackLocale: string | undefined
+  let version: number | undefined
+  let migrations: readonly WireMigration[] | undefined
+  let unversionedAs: number | undefined
+  const messages = new Map<string, Record<string, LocalizedMessage>>()
 
   for (const current of registries) {
-    for (const [tag, ctor] of getRegistryState(current).tagToCtor) {
+    const state = getRegistryState(current)
+
+    // Like HTTP metadata, the first registry that declares a codec type wins.
+    for (const codec of state.codecs) {
+      if (!codecs.has(codec.type)) codecs.set(codec.type, codec)
+    }
+
+    // Redaction settings follow the same rule, per profile.
+    redact ??= state.redact
+    internal ??= state.redactionProfiles?.internal
+    publicPolicy ??= state.redactionProfiles?.public
+    fallbackLocale ??= state.fallbackLocale
+
+    // Versions are not comparable across registries: the first versioned
+    // registry supplies the version, its migrations, and `unversionedAs`, and
+    // later operands' wire versioning is ignored.
+    if (version === undefined && state.version !== undefined) {
+      version = state.version
+      migrations = state.migrations
+      unversionedAs = state.unversionedAs
+    }
+
+    // Catalogs merge per locale; the first registry with an entry for a tag wins.
+    for (const [locale, catalog] of state.messages) {
+      const merged = messages.get(locale) ?? {}
+      for (const [tag, entry] of Object.entries(catalog)) {
+        if (!Object.hasOwn(merged, tag)) {
+          Object.defineProperty(merged, tag, { enumerable: true, value: entry })
+        }
+      }
+      messages.set(locale, merged)
+    }
+
+    // Duplicate tags share a constructor (checked below); the first registry
+    // that describes a tag's HTTP metadata wins.
+    for (const [tag, metadata] of state.http) {
+      if (!http.has(tag)) http.set(tag, metadata)
+    }
+
+    for (const [tag, ctor] of state.tagToCtor) {
       if (!tagToCtor.has(tag)) {
         tagToCtor.set(tag, ctor)
         continue
@@ -41,5 +95,15 @@ export function merge<
     }
   }
 
-  return registryFromEntries([...tagToCtor])
+  return registryFromEntries([...tagToCtor], {
+    codecs: [...codecs.values()],
+    fallbackLocale,
+    http: Object.fromEntries(http),
+    messages: Object.fromEntries(messages),
+    migrations,
+    redact,
+    redactionProfiles: { internal, public: publicPolicy },
+    unversionedAs,
+    version,
+  })
 }
@@ -0,0 +1,179 @@
+// Wire format migrations. A registry upgrades payloads written under older
+// versions (renamed tags, reshaped fields) to its current version before
+// resolving constructors, so stored and in-flight payloads keep reviving as
+// the right subclass.
+import { assertSerializableFault } from "./reviver"
+import {
+  collectPayloadFields,
+  MAX_CAUSE_DEPTH,
+  RESERVED_FAULT_KEYS,
+  type SerializableCause,
+  type SerializableFault,
+  type SerializableValue,
+} from "./wire"
+
+/** Receives a payload's fields as they are on the wire and returns the upgraded fields. */
+export type FieldUpgrader = (
+  fields: Record<string, SerializableValue>
+) => Record<string, SerializableValue>
+
+export type WireMigration = {
+  /** The version this step upgrades payloads to. Runs on payloads with a lower `__v`. */
+  version: number
+  /** Renamed tags, from the old name to the new one. Applies to `_tag` and `_ancestors`. */
+  tags?: Readonly<Record<string, string>>
+  /** Field upgraders keyed by tag, after this step's renames. */
+  fields?: Readonly<Record<string, FieldUpgrader>>
+}
+
+export type ResolvedMigrations = {
+  /** Written as `__v` by `registry.toSerializable`; `undefined` when the registry is unversioned. */
+  readonly version: number | undefined
+  /** Sorted by version, oldest first. */
+  readonly migrations: readonly WireMigration[]
+  /** The version of payloads without `__v`. */
+  readonly unversionedAs: number
+}
+
+function isVersion(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+}
+
+export function resolveMigrations(
+  version: number | undefined,
+  migrations: readonly WireMigration[] = [],
+  unversionedAs?: number
+): ResolvedMigrations {
+  if (version !== undefined && !isVersion(version)) {
+    throw new RangeError(`Registry version must be a non-negative integer, got ${String(version)}`)
+  }
+  if (unversionedAs !== undefined && !isVersion(unversionedAs)) {
+    throw new RangeError(
+      `Unversioned payload version must be a non-negative integer, got ${String(unversionedAs)}`
+    )
+  }
+
+  const sorted = migrations.toSorted((a, b) => a.version - b.version)
+  for (const [index, migration] of sorted.entries()) {
+    if (!isVersion(migration.version) || migration.version === 0) {
+      throw new RangeError(`Migration version must be a positive integer, got ${migration.version}`)
+    }
+    if (sorted[index - 1]?.version === migration.version) {
+      throw new RangeError(`Duplicate migration for version ${migration.version}`)
+    }
+    if (version !== undefined && migration.version > version) {
+      throw new RangeError(
+        `Migration version ${migration.version} is newer than the registry version ${version}`
+      )
+    }
+  }
+
+  const current = version ?? sorted.at(-1)?.version
+  if (unversionedAs !== undefined && unversionedAs > (current ?? 0)) {
+    throw new RangeError(
+      `Unversioned payload version ${unversionedAs} is newer than the registry version ${String(current ?? 0)}`
+    )
+  }
+
+  // `fault.toSerializable()` and `JSON.stringify(fault)` write no `__v`, so
+  // unversioned payloads are current unless the registry says otherwise.
+  return { migrations: sorted, unversionedAs: unversionedAs ?? current ?? 0, version: current }
+}
+
+function lookup<T>(record: Readonly<Record<string, T>> | undefined, key: string): T | undefined {
+  // Own keys only: a tag like "constructor" must not pick up inherited members.
+  return record && Object.hasOwn(record, key) ? record[key] : undefined
+}
+
+function isEnvelopeKey(key: string): boolean {
+  return RESERVED_FAULT_KEYS.has(key)
+}
+
+function applyMigration(json: SerializableFault, migration: WireMigration): SerializableFault {
+  const rename = (tag: string) => lookup(migration.tags, tag) ?? tag
+  const tag = rename(json._tag)
+  const renamed: SerializableFault = {
+    ...json,
+    _tag: tag,
+    ...(json._ancestors && { _ancestors: json._ancestors.map(rename) }),
+    ...(json.name === json._tag && { name: tag }),
+  }
+
+  const upgrade = lookup(migration.fields, tag)
+  if (!upgrade) return renamed
+
+  const fields = collectPayloadFields(renamed, isEnvelopeKey) as Record<string, SerializableValue>
+  const envelope = Object.fromEntries(
+    Object.entries(renamed).filter(([key]) => isEnvelopeKey(key))
+  ) as SerializableFault
+  return { ...upgrade(fields), ...envelope }
+}
+
+function migrateCause(
+  cause: SerializableCause,
+  migrations: readonly WireMigration[],
+  version: number,
+  depth: number
+): SerializableCause {
+  if (depth >= MAX_CAUSE_DEPTH) return cause
+  // Malformed causes are left for the reviver, which keeps them as thrown values.
+  if (typeof cause !== "object" || (cause as unknown) === null) return cause
+
+  if (cause.kind === "fault") {
+    return { kind: "fault", value: migrateFaultAt(cause.value, migrations, version, depth + 1) }
+  }
+
+  if (cause.kind === "thrown") return cause
+
+  const migrated = { ...cause }
+  if (cause.cause !== undefined) {
+    migrated.cause = migrateCause(cause.cause, migrations, version, depth + 1)
+  }
+  if (migrated.kind === "aggregate" && Array.isArray(migrated.errors)) {
+    migrated.errors = migrated.errors.map((child) =>
+      migrateCause(child, migrations, version, depth + 1)
+    )
+  }
+  return migrated
+}
+
+// Nested faults were written together with the head, so they share its version.
+function migrateFaultAt(
+  value: unknown,
+  migrations: readonly WireMigration[],
+  inheritedVersion: number,
+  depth: number
+): SerializableFault {
+  assertSerializableFault(value)
+
+  const version = value.__v ?? inheritedVersion
+  let json = value
+  for (const migration of migrations) {
+    if (migration.version > version) json = applyMigration(json, migration)
+  }
+
+  if (json.cause !== undefined) {
+    json = { ...json, cause: migrateCause(json.cause, migrations, version, depth) }
+  }
+  if (json.__errors !== undefined) {
+    json = {
+      ...json,
+      __errors: json.__errors.map((child) => migrateCause(child, migrations, version, depth)),
+    }
+  }
+  return json
+}
+
+/**
+ * Runs every migration newer than the payload's `__v`, oldest first, on the
+ * payload and the faults in its causes and aggregate children. Payloads
+ * without `__v` are at `defaultVersion`. The input is never mutated.
+ */
+export function migrateFault(
+  json: SerializableFault,
+  migrations: readonly WireMigration[],
+  defaultVersion = 0
+): SerializableFault {
+  if (migrations.length === 0) return json
+  return migrateFaultAt(json, migrations, defaultVersion, 0)
+}
@@ -0,0 +1,146 @@
+// RFC 9457 Problem Details conversion. Works on the wire format rather than
+// Fault instances so registry envelopes (UnknownError/UnknownThrown) and
+// payload collection rules apply unchanged.
+import type { SerializeOptions } from "./redact"
+import {
+  collectPayloadFields,
+  RESERVED_FAULT_KEYS,
+  type SerializableFault,
+  type SerializableValue,
+} from "./wire"
+
+export type HttpMetadata = {
+  /** HTTP status code for the tag. */
+  status: number
+  /** Problem type URI. Defaults to `"about:blank"`. */
+  type?: string
+  /** Short, occurrence-independent summary. Defaults to the tag. */
+  title?: string
+}
+
+export type ProblemDetails = {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  [extension: string]: SerializableValue
+}
+
+export type ProblemDetailsOptions = {
+  /** Overrides the status from the tag's HTTP metadata. Defaults to 500 for unmapped tags. */
+  status?: number
+  /** URI reference identifying this occurrence. */
+  instance?: string
+  /** Includes the fault's `meta` as a `meta` extension member. Defaults to false. */
+  meta?: boolean
+  /** Redaction profile or policy; replaces the registry default. */
+  redact?: SerializeOptions["redact"]
+}
+
+const DEFAULT_PROBLEM_TYPE = "about:blank"
+const DEFAULT_PROBLEM_STATUS = 500
+
+// Standard members plus the extension members Faultier itself writes.
+const PROBLEM_MEMBERS: ReadonlySet<string> = new Set([
+  "type",
+  "title",
+  "status",
+  "detail",
+  "instance",
+  "tag",
+  "meta",
+])
+
+const EXTENSION_PREFIX = "__payload_"
+
+function stripExtensionPrefixes(key: string): string {
+  let stripped = key
+  while (stripped.startsWith(EXTENSION_PREFIX)) {
+    stripped = stripped.slice(EXTENSION_PREFIX.length)
+  }
+  return stripped
+}
+
+// Payload fields named like problem members get one more `__payload_` prefix,
+// and so do fields that already look escaped, so decoding can strip exactly one
+// prefix and round-trip every key.
+function isEscapedMember(key: string): boolean {
+  return PROBLEM_MEMBERS.has(stripExtensionPrefixes(key))
+}
+
+function defineMember(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    configurable: true,
+    enumerable: true,
+    value,
+    writable: true,
+  })
+}
+
+export function toProblemDetails(
+  json: SerializableFault,
+  http: HttpMetadata | undefined,
+  options?: ProblemDetailsOptions
+): ProblemDetails {
+  const problem: ProblemDetails = {
+    status: options?.status ?? http?.status ?? DEFAULT_PROBLEM_STATUS,
+    title: http?.title ?? json._tag,
+    type: http?.type ?? DEFAULT_PROBLEM_TYPE,
+  }
+
+  if (json.details !== undefined) problem.detail = json.details
+  if (options?.instance !== undefined) problem.instance = options.instance
+  problem.tag = json._tag
+  if (options?.meta === true && json.meta !== undefined) problem.meta = json.meta
+
+  const payload = collectPayloadFields(json, (key) => RESERVED_FAULT_KEYS.has(key))
+
+  for (const [key, value] of Object.entries(payload)) {
+    const member = isEscapedMember(key) ? `${EXTENSION_PREFIX}${key}` : key
+    defineMember(problem, member, value)
+  }
+
+  return problem
+}
+
+/**
+ * Rebuilds a wire payload from a problem+json body. The tag comes from the
+ * `tag` extension member when `resolveTag` accepts it, otherwise from
+ * `resolveTag`'s lookup by problem `type`. Problem bodies never carry the
+ * fault's message, so `title` stands in for it.
+ */
+export function problemToSerializable(
+  body: unknown,
+  resolveTag: (tag: unknown, type: unknown) => string | undefined
+): SerializableFault {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new Error("Invalid problem details: expected an object")
+  }
+
+  const problem = body as Record<string, unknown>
+  const tag =
+    resolveTag(problem.tag, problem.type) ??
+    (typeof problem.tag === "string" ? problem.tag : "ProblemDetails")
+
+  const json: SerializableFault = { __faultier: true, _tag: tag, name: tag }
+
+  if (typeof problem.title === "string") json.message = problem.title
+  if (typeof problem.detail === "string") json.details = problem.detail
+  if (typeof problem.meta === "object" && problem.meta !== null && !Array.isArray(problem.meta)) {
+    json.meta = problem.meta as Record<string, SerializableValue>
+  }
+
+  for (const key of Object.keys(problem)) {
+    if (PROBLEM_MEMBERS.has(key)) continue
+
+    let field = isEscapedMember(key) ? key.slice(EXTENSION_PREFIX.length) : key
+    // Foreign bodies may use wire envelope names as extensions; keep them as payload.
+    while (RESERVED_FAULT_KEYS.has(field) || Object.hasOwn(json, field)) {
+      field = `${EXTENSION_PREFIX}${field}`
+    }
+    defineMember(json, field, problem[key])
+  }
+
+  return json
+}
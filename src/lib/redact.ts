@@ -0,0 +1,169 @@
+// Redaction of sensitive wire data. Policies are applied while a fault is
+// encoded (fault.ts), so nothing sensitive ever reaches a SerializableFault.
+import type { FramesOptions, StackFormat } from "./frames"
+import type { SerializableValue } from "./wire"
+
+export type RedactionPolicy = {
+  /** Payload field names to redact on every fault, in addition to each class's `sensitive` fields. */
+  fields?: readonly string[]
+  /** Glob patterns (`*`, `?`) matched against `meta` keys. */
+  meta?: readonly string[]
+  /** Removes stacks, or keeps only the first `frames` frames. Defaults to `"keep"`. */
+  stack?: "keep" | "strip" | { frames: number }
+  /** Value written in place of redacted data. Defaults to `"[REDACTED]"`. */
+  replacement?: SerializableValue
+}
+
+export type RedactionProfile = "internal" | "public"
+
+export type RedactionProfiles = { readonly [P in RedactionProfile]?: RedactionPolicy }
+
+export type SerializeOptions = {
+  /**
+   * A redaction profile or policy. Without one, only each class's `sensitive`
+   * fields are redacted; `false` disables redaction entirely.
+   */
+  redact?: RedactionProfile | RedactionPolicy | false
+  /**
+   * `"frames"` writes parsed head frames to `__frames` instead of `stack`;
+   * `"both"` writes both. Defaults to `"string"`.
+   */
+  stackFormat?: StackFormat
+  /** Filters applied to `__frames`. The `stack` string is never filtered. */
+  frames?: FramesOptions
+}
+
+const DEFAULT_REPLACEMENT = "[REDACTED]"
+
+// Applied when no policy is selected, so declared secrets never leak through
+// `toJSON()` or `JSON.stringify(fault)`.
+const SENSITIVE_ONLY: RedactionPolicy = {}
+
+// Internal output (logs) hides only declared secrets; public output (clients)
+// additionally replaces all metadata with the marker and strips stacks.
+const DEFAULT_PROFILES: Required<RedactionProfiles> = {
+  internal: {},
+  public: { meta: ["*"], stack: "strip" },
+}
+
+const sensitiveFields = new WeakMap<object, ReadonlySet<string>>()
+
+export function setSensitiveFields(ctor: object, fields: readonly string[]): void {
+  sensitiveFields.set(ctor, new Set(fields))
+}
+
+function defineValue(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    configurable: true,
+    enumerable: true,
+    value,
+    writable: true,
+  })
+}
+
+// `null` is a valid marker, so only an absent replacement gets the default.
+function replacementFor(policy: RedactionPolicy): SerializableValue {
+  return policy.replacement === undefined ? DEFAULT_REPLACEMENT : policy.replacement
+}
+
+// Walks the constructor chain so subclasses and extended tags inherit every
+// ancestor's fields on top of their own.
+function getSensitiveFields(value: object): ReadonlySet<string> | undefined {
+  let ctor: unknown = value.constructor
+  let collected: Set<string> | undefined
+
+  while (typeof ctor === "function") {
+    const fields = sensitiveFields.get(ctor)
+    if (fields) collected = new Set([...(collected ?? []), ...fields])
+    ctor = Object.getPrototypeOf(ctor)
+  }
+
+  return collected
+}
+
+export function resolveRedaction(
+  redact: SerializeOptions["redact"],
+  profiles?: RedactionProfiles
+): RedactionPolicy | undefined {
+  if (redact === false) return undefined
+  if (redact === undefined) return SENSITIVE_ONLY
+  if (typeof redact === "object") return redact
+  return profiles?.[redact] ?? DEFAULT_PROFILES[redact]
+}
+
+const globCache = new Map<string, RegExp>()
+
+function globToRegExp(pattern: string): RegExp {
+  let compiled = globCache.get(pattern)
+
+  if (!compiled) {
+    const source = pattern
+      .replaceAll(/[$()+.[\\\]^{|}]/gu, String.raw`\$&`)
+      .replaceAll("*", ".*")
+      .replaceAll("?", ".")
+    compiled = new RegExp(`^${source}$`, "su")
+    globCache.set(pattern, compiled)
+  }
+
+  return compiled
+}
+
+function isRedactedMetaKey(key: string, policy: RedactionPolicy): boolean {
+  return policy.meta?.some((pattern) => globToRegExp(pattern).test(key)) ?? false
+}
+
+export function redactPayload(
+  fault: object,
+  payload: Record<string, unknown>,
+  policy: RedactionPolicy
+): Record<string, unknown> {
+  const sensitive = getSensitiveFields(fault)
+  const replacement = replacementFor(policy)
+
+  for (const key of Object.keys(payload)) {
+    if (sensitive?.has(key) || policy.fields?.includes(key)) {
+      defineValue(payload, key, replacement)
+    }
+  }
+
+  return payload
+}
+
+export function redactMeta(
+  meta: Record<string, SerializableValue>,
+  policy: RedactionPolicy
+): Record<string, SerializableValue> {
+  const replacement = replacementFor(policy)
+  const redacted: Record<string, SerializableValue> = {}
+
+  for (const [key, value] of Object.entries(meta)) {
+    defineValue(redacted, key, isRedactedMetaKey(key, policy) ? replacement : value)
+  }
+
+  return redacted
+}
+
+const FRAME_PATTERN = /^\s+at\s/u
+
+export function redactStack(stack: string, policy: RedactionPolicy): string | undefined {
+  const mode = policy.stack ?? "keep"
+  if (mode === "keep") return stack
+  if (mode === "strip") return undefined
+
+  // Keeps the header and the first `frames` frames; later frames and any
+  // "Caused by:" blocks are dropped.
+  const kept: string[] = []
+  let frames = 0
+
+  for (const line of stack.split("\n")) {
+    if (FRAME_PATTERN.test(line)) {
+      if (frames >= mode.frames) break
+      frames += 1
+    } else if (frames > 0) {
+      break
+    }
+    kept.push(line)
+  }
+
+  return kept.join("\n")
+}
@@ -1,9 +1,48 @@
+import type { Codec } from "./codec"
 import type { Fault } from "./fault"
+import type { MessageCatalogs } from "./i18n"
+import type { WireMigration } from "./migrate"
+import type { HttpMetadata } from "./problem"
+import type { RedactionPolicy, RedactionProfile, RedactionProfiles } from "./redact"
 
 export type AnyFaultCtor = new (...args: never[]) => Fault
 
+export type RegistryOptions<M extends Record<string, AnyFaultCtor>> = {
+  /** Per-tag HTTP metadata used for Problem Details conversion. */
+  http?: { readonly [K in keyof M]?: HttpMetadata }
+  /** Value codecs for this registry's wire format, tried before the global codecs. */
+  codecs?: readonly Codec[]
+  /** Redaction applied by `toSerializable` and `toProblemDetails` when a call selects none. */
+  redact?: RedactionProfile | RedactionPolicy
+  /** Overrides for the built-in `"internal"` and `"public"` redaction profiles. */
+  redactionProfiles?: RedactionProfiles
+  /** Localized messages for `localize`, keyed by locale and then by tag. */
+  messages?: MessageCatalogs<M>
+  /** Locale tried after the requested ones by `localize`. */
+  fallbackLocale?: string
+  /** Current wire version, written as `__v`. Defaults to the newest migration's version. */
+  version?: number
+  /** Upgrades applied by `fromSerializable` to payloads written under older versions. */
+  migrations?: readonly WireMigration[]
+  /**
+   * Version of payloads without `__v`. Defaults to the current version, since
+   * `fault.toSerializable()` and `JSON.stringify(fault)` write none. Set it to
+   * `0` to upgrade payloads stored before the registry was versioned.
+   */
+  unversionedAs?: number
+}
+
 type RegistryState = {
   readonly tagToCtor: ReadonlyMap<string, AnyFaultCtor>
+  readonly http: ReadonlyMap<string, HttpMetadata>
+  readonly codecs: readonly Codec[]
+  readonly redact: RedactionProfile | RedactionPolicy | undefined
+  readonly redactionProfiles: RedactionProfiles | undefined
+  readonly messages: ReadonlyMap<string, object>
+  readonly fallbackLocale: string | undefined
+  readonly version: number | undefined
+  readonly migrations: readonly WireMigration[]
+  readonly unversionedAs: number | undefined
 }
 
 const registryStates = new WeakMap<object, RegistryState>()
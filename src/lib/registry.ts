@@ -1,9 +1,48 @@
+import type { FingerprintOptions } from "./fingerprint"
+import type { SerializableFault } from "./wire"
+import { resolveCodecs, validateCodecs } from "./codec"
 import { RegistryTagMismatchError } from "./errors"
-import { Fault } from "./fault"
-import { dispatchTag, dispatchTags, type HandlerResult } from "./match"
-import { type AnyFaultCtor, setRegistryState } from "./registry-state"
+import {
+  type EncodeContext,
+  encodeCause,
+  encodeFault,
+  Fault,
+  fingerprint,
+  hasTagInLineage,
+  isFaultLike,
+} from "./fault"
+import { fromResponse, toResponse, type ToResponseOptions } from "./http"
+import { localeChain, localizeFault } from "./i18n"
+import {
+  type AncestorTagOf,
+  type ByTagOrAncestor,
+  createMatcher,
+  dispatchCauseTags,
+  dispatchLineageTags,
+  findInChain,
+  type HandlerResult,
+  type Matcher,
+} from "./match"
+import { migrateFault, resolveMigrations } from "./migrate"
+import {
+  type HttpMetadata,
+  type ProblemDetails,
+  type ProblemDetailsOptions,
+  problemToSerializable,
+  toProblemDetails,
+} from "./problem"
+import { resolveRedaction, type SerializeOptions } from "./redact"
+import { type AnyFaultCtor, type RegistryOptions, setRegistryState } from "./registry-state"
+import { err as toErr, ok as toOk, type Result } from "./result"
 import { deserializeFault } from "./reviver"
-import { normalizeThrown, type SerializableFault } from "./wire"
+import { declaredClassTraits, matchesTraits, resolveTraits, type TraitFilter } from "./traits"
+import {
+  checkWirePayload,
+  type DeserializeMode,
+  type DeserializeOptions,
+  findUnresolvedTags,
+  reviveChecked,
+} from "./validate"
 
 type FaultCtorEntry = readonly [string, AnyFaultCtor]
 
@@ -18,23 +57,35 @@ type RegistryMatchHandlers<M extends Record<string, AnyFaultCtor>> = Partial<{
   [K in keyof M]: (fault: InstanceType<M[K]>) => unknown
 }>
 
+type RegistryFault<M extends Record<string, AnyFaultCtor>> = InstanceType<M[keyof M]>
+
+// Registered tags plus the parent tags of registered extended tags.
+export type RegistryLineageTag<M extends Record<string, AnyFaultCtor>> =
+  | keyof M
+  | AncestorTagOf<RegistryFault<M>>
+
+// Members a parent tag covers: the registered constructor for the tag itself,
+// if any, and every member extended from it.
+type RegistryLineage<M extends Record<string, AnyFaultCtor>, K> =
+  | (K extends keyof M ? InstanceType<M[K]> : never)
+  | ByTagOrAncestor<RegistryFault<M>, K & string>
+
+type RegistryLineageHandlers<M extends Record<string, AnyFaultCtor>> = Partial<{
+  [K in RegistryLineageTag<M>]: (fault: RegistryLineage<M, K>) => unknown
+}>
+
 // Registry policy for serializing arbitrary caught values: Faults encode
 // themselves; anything else is wrapped in an UnknownError/UnknownThrown envelope.
-function toSerializableValue(value: unknown): SerializableFault {
+function toSerializableValue(value: unknown, context: EncodeContext): SerializableFault {
   if (value instanceof Fault) {
-    return value.toSerializable()
+    return encodeFault(value, context)
   }
 
   if (value instanceof Error) {
     return {
       __faultier: true,
       _tag: "UnknownError",
-      cause: {
-        kind: "error",
-        message: value.message,
-        name: value.name,
-        stack: value.stack,
-      },
+      cause: encodeCause(value, context),
       message: value.message,
       name: "UnknownError",
     }
@@ -43,7 +94,7 @@ function toSerializableValue(value: unknown): SerializableFault {
   return {
     __faultier: true,
     _tag: "UnknownThrown",
-    cause: { kind: "thrown", value: normalizeThrown(value) },
+    cause: encodeCause(value, context),
     message: "UnknownThrown",
     name: "UnknownThrown",
   }
@@ -71,7 +122,39 @@ export type FaultRegistry<M extends Record<string, AnyFaultCtor>> = {
   wrap(cause: unknown): {
     as<K extends keyof M>(tag: K, ...args: CreateArgs<M[K]>): InstanceType<M[K]>
   }
+  try<T, K extends keyof M>(
+    fn: () => T,
+    tag: K,
+    ...args: CreateArgs<M[K]>
+  ): Result<T, InstanceType<M[K]>>
+  tryAsync<T, K extends keyof M>(
+    fn: () => T | PromiseLike<T>,
+    tag: K,
+    ...args: CreateArgs<M[K]>
+  ): Promise<Result<T, InstanceType<M[K]>>>
   is(this: void, err: unknown): err is InstanceType<M[keyof M]>
+  /** Membership narrowed to a tag, including members extended from it. */
+  is<K extends RegistryLineageTag<M>>(
+    this: void,
+    err: unknown,
+    tag: K
+  ): err is RegistryLineage<M, K>
+  /**
+   * Membership by brand and tag rather than constructor identity, so faults
+   * from another copy of Faultier or another realm match when their tag, or
+   * one of its parent tags, is registered.
+   */
+  isLike(this: void, err: unknown): err is InstanceType<M[keyof M]>
+  isLike<K extends RegistryLineageTag<M>>(
+    this: void,
+    err: unknown,
+    tag: K
+  ): err is RegistryLineage<M, K>
+  /**
+   * Re-creates a fault that `isLike` accepts with this registry's constructor,
+   * through its wire payload. Members are returned as is; other values give `undefined`.
+   */
+  adopt(this: void, err: unknown): InstanceType<M[keyof M]> | undefined
   matchTag<RH, K extends keyof M>(
     this: void,
     err: unknown,
@@ -85,40 +168,96 @@ export type FaultRegistry<M extends Record<string, AnyFaultCtor>> = {
     handler: (e: InstanceType<M[K]>) => RH,
     fallback: (err: unknown) => RF
   ): RH | RF
-  matchTags<const H extends RegistryMatchHandlers<M>>(
+  matchTags<const H extends RegistryLineageHandlers<M>>(
     this: void,
     err: unknown,
     handlers: H
   ): HandlerResult<H> | undefined
-  matchTags<const H extends RegistryMatchHandlers<M>, RF>(
+  matchTags<const H extends RegistryLineageHandlers<M>, RF>(
     this: void,
     err: unknown,
     handlers: H,
     fallback: (err: unknown) => RF
   ): HandlerResult<H> | RF
-  toSerializable(err: unknown): SerializableFault
-  fromSerializable(json: SerializableFault): InstanceType<M[keyof M]> | Fault
+  match(this: void, err: unknown): Matcher<unknown, InstanceType<M[keyof M]>, never>
+  findCause<K extends keyof M>(this: void, err: unknown, tag: K): InstanceType<M[K]> | undefined
+  matchCauseTags<const H extends RegistryMatchHandlers<M>>(
+    this: void,
+    err: unknown,
+    handlers: H
+  ): HandlerResult<H> | undefined
+  matchCauseTags<const H extends RegistryMatchHandlers<M>, RF>(
+    this: void,
+    err: unknown,
+    handlers: H,
+    fallback: (err: unknown) => RF
+  ): HandlerResult<H> | RF
+  toSerializable(err: unknown, options?: SerializeOptions): SerializableFault
+  /**
+   * Revives a payload, restoring registered subclasses. In `"strict"` mode a
+   * malformed payload or an unregistered tag throws `InvalidWirePayloadError`.
+   */
+  fromSerializable(
+    json: SerializableFault,
+    options?: DeserializeOptions
+  ): InstanceType<M[keyof M]> | Fault
+  toProblemDetails(err: unknown, options?: ProblemDetailsOptions): ProblemDetails
+  fromProblemDetails(body: unknown): InstanceType<M[keyof M]> | Fault
+  /**
+   * Builds a `Response` carrying `toSerializable(err)` with the Faultier
+   * content type. The status comes from `options.status`, then the tag's HTTP
+   * metadata, then 500.
+   */
+  toResponse(err: unknown, options?: ToResponseOptions): Response
+  /**
+   * Decodes a fault from a `Response`. Bodies that are not Faultier or
+   * problem+json payloads, or cannot be read, resolve to an `HttpTransportError`.
+   */
+  fromResponse(response: Response): Promise<InstanceType<M[keyof M]> | Fault>
+  /**
+   * The member's message from the `messages` catalogs, trying each locale in
+   * the fallback chain. `undefined` for non-members and missing entries.
+   */
+  localize(this: void, err: unknown, locale: string | readonly string[]): string | undefined
+  /**
+   * The top-level `fingerprint(err)`: Faults hash their tags, frames, and
+   * allowlisted fields; other values hash like their `UnknownError`/`UnknownThrown`
+   * envelope, with a native error's own stack.
+   */
+  fingerprint(this: void, err: unknown, options?: FingerprintOptions): string
+  /** Registered tags whose class-declared traits match `filter`, in `tags` order. */
+  tagsWhere(this: void, filter: TraitFilter): Array<keyof M>
 }
 
-export function registry<const M extends Record<string, AnyFaultCtor>>(ctors: M): FaultRegistry<M> {
-  return createRegistry(ctors, Object.entries(ctors))
+export function registry<const M extends Record<string, AnyFaultCtor>>(
+  ctors: M,
+  options?: RegistryOptions<NoInfer<M>>
+): FaultRegistry<M> {
+  return createRegistry(ctors, Object.entries(ctors), options)
 }
 
 export function registryFromEntries(
-  entries: readonly FaultCtorEntry[]
+  entries: readonly FaultCtorEntry[],
+  options?: RegistryOptions<Record<string, AnyFaultCtor>>
 ): FaultRegistry<Record<string, AnyFaultCtor>> {
   const ctors: Record<string, AnyFaultCtor> = {}
   for (const [tag, ctor] of entries) {
     ctors[tag] = ctor
   }
-  return createRegistry(ctors, entries)
+  return createRegistry(ctors, entries, options)
 }
 
 function createRegistry<const M extends Record<string, AnyFaultCtor>>(
   ctors: M,
-  entries: readonly FaultCtorEntry[]
+  entries: readonly FaultCtorEntry[],
+  options: RegistryOptions<M> | undefined
 ): FaultRegistry<M> {
   const tagToCtor = new Map<string, AnyFaultCtor>()
+  const http = new Map<string, HttpMetadata>()
+  const codecs = validateCodecs(options?.codecs ?? [])
+  const profiles = options?.redactionProfiles
+  const messages = new Map<string, object>(Object.entries(options?.messages ?? {}))
+  const wire = resolveMigrations(options?.version, options?.migrations, options?.unversionedAs)
   const tags: string[] = []
 
   for (const [registryKey, ctor] of entries) {
@@ -132,6 +271,13 @@ function createRegistry<const M extends Record<string, AnyFaultCtor>>(
 
     tagToCtor.set(registryKey, ctor)
     tags.push(registryKey)
+
+    // Own keys only: a tag like "constructor" must not pick up inherited members.
+    const metadata =
+      options?.http && Object.hasOwn(options.http, registryKey)
+        ? options.http[registryKey]
+        : undefined
+    if (metadata !== undefined) http.set(registryKey, metadata)
   }
 
   function create<K extends keyof M>(tag: K, ...args: CreateArgs<M[K]>): InstanceType<M[K]> {
@@ -141,7 +287,17 @@ function createRegistry<const M extends Record<string, AnyFaultCtor>>(
     return instantiate(ctor, args as unknown[])
   }
 
-  function is(err: unknown): err is InstanceType<M[keyof M]> {
+  function wrapAs<K extends keyof M>(
+    cause: unknown,
+    tag: K,
+    args: CreateArgs<M[K]>
+  ): InstanceType<M[K]> {
+    // Safe: create() returns the selected Fault subtype, whose fluent methods preserve `this`.
+    // oxlint-disable-next-line typescript/no-unsafe-return, typescript/no-unsafe-call
+    return create(tag, ...args).withCause(cause)
+  }
+
+  function isMember(err: unknown): err is InstanceType<M[keyof M]> {
     if (!(err instanceof Fault)) return false
     for (const ctor of tagToCtor.values()) {
       if (err instanceof ctor) return true
@@ -149,6 +305,45 @@ function createRegistry<const M extends Record<string, AnyFaultCtor>>(
     return false
   }
 
+  function is(this: void, err: unknown): err is InstanceType<M[keyof M]>
+  function is<K extends RegistryLineageTag<M>>(
+    this: void,
+    err: unknown,
+    tag: K
+  ): err is RegistryLineage<M, K>
+  function is(this: void, err: unknown, tag?: PropertyKey): boolean {
+    if (!isMember(err)) return false
+    return tag === undefined || hasTagInLineage(err, tag as string)
+  }
+
+  function isLike(this: void, err: unknown): err is InstanceType<M[keyof M]>
+  function isLike<K extends RegistryLineageTag<M>>(
+    this: void,
+    err: unknown,
+    tag: K
+  ): err is RegistryLineage<M, K>
+  function isLike(this: void, err: unknown, tag?: PropertyKey): boolean {
+    if (!isFaultLike(err)) return false
+    if (![err._tag, ...err._ancestors].some((candidate) => tagToCtor.has(candidate))) return false
+    return tag === undefined || hasTagInLineage(err, tag as string)
+  }
+
+  // The registered tag a member dispatches as: its own, or the nearest
+  // registered ancestor whose constructor built it (a fault revived through
+  // an ancestor keeps its own `_tag`). Constructor identity per tag: a
+  // foreign Fault that reuses a registered tag never has one.
+  function registeredTag(err: unknown): string | undefined {
+    if (!(err instanceof Fault)) return undefined
+    return [err._tag, ...err._ancestors].find((candidate) => {
+      const ctor = tagToCtor.get(candidate)
+      return ctor !== undefined && err instanceof ctor
+    })
+  }
+
+  function isRegisteredAs(fault: Fault, tag: string): boolean {
+    return registeredTag(fault) === tag
+  }
+
   function matchTag<RH, K extends keyof M>(
     this: void,
     err: unknown,
@@ -169,29 +364,127 @@ function createRegistry<const M extends Record<string, AnyFaultCtor>>(
     handler: (e: InstanceType<M[K]>) => RH,
     fallback?: (err: unknown) => RF
   ): RH | RF | undefined {
-    if (!is(err)) return fallback?.(err)
-    return dispatchTag(err, tag, handler, fallback) as RH | RF | undefined
+    if (registeredTag(err) === tag) return handler(err as InstanceType<M[K]>)
+    return fallback?.(err)
   }
 
-  function matchTags<const H extends RegistryMatchHandlers<M>>(
+  function matchTags<const H extends RegistryLineageHandlers<M>>(
     this: void,
     err: unknown,
     handlers: H
   ): HandlerResult<H> | undefined
-  function matchTags<const H extends RegistryMatchHandlers<M>, RF>(
+  function matchTags<const H extends RegistryLineageHandlers<M>, RF>(
     this: void,
     err: unknown,
     handlers: H,
     fallback: (err: unknown) => RF
   ): HandlerResult<H> | RF
-  function matchTags<const H extends RegistryMatchHandlers<M>, RF>(
+  function matchTags<const H extends RegistryLineageHandlers<M>, RF>(
     this: void,
     err: unknown,
     handlers: H,
     fallback?: (err: unknown) => RF
   ): HandlerResult<H> | RF | undefined {
-    if (!is(err)) return fallback?.(err)
-    return dispatchTags(err, handlers, fallback) as HandlerResult<H> | RF | undefined
+    if (!isMember(err)) return fallback?.(err)
+    return dispatchLineageTags(err, handlers, fallback) as HandlerResult<H> | RF | undefined
+  }
+
+  // A call-level `redact` (including `false`) replaces the registry default.
+  function encodeContext(serializeOptions: SerializeOptions | undefined): EncodeContext {
+    return {
+      codecs: resolveCodecs(codecs),
+      frames: serializeOptions?.frames,
+      redaction: resolveRedaction(serializeOptions?.redact ?? options?.redact, profiles),
+      stackFormat: serializeOptions?.stackFormat,
+    }
+  }
+
+  // Unregistered extended tags fall back to their nearest registered ancestor.
+  function resolveCtor(tag: string, ancestors: readonly string[]): AnyFaultCtor | undefined {
+    return [tag, ...ancestors]
+      .map((candidate) => tagToCtor.get(candidate))
+      .find((candidate) => candidate !== undefined)
+  }
+
+  function deserializeMigrated(json: SerializableFault): Fault {
+    return deserializeFault(
+      json,
+      (tag, payload, ancestors) => {
+        const ctor = resolveCtor(tag, ancestors)
+        return ctor ? constructFault(ctor, [payload]) : undefined
+      },
+      resolveCodecs(codecs)
+    )
+  }
+
+  // Payloads without `__v` are at `defaultVersion`: `unversionedAs` for
+  // received payloads, the current version for ones produced in this process.
+  function revive(
+    json: SerializableFault,
+    defaultVersion: number,
+    mode: DeserializeMode = "permissive"
+  ): Fault {
+    if (mode === "permissive") {
+      return deserializeMigrated(migrateFault(json, wire.migrations, defaultVersion))
+    }
+
+    // Shape problems are reported against the payload as received; tags are
+    // resolved after migrations, which keep every member at its path.
+    const { diagnostics, payload } = checkWirePayload(json, resolveCodecs(codecs))
+    const migrated = payload && migrateFault(payload, wire.migrations, defaultVersion)
+    if (migrated) {
+      diagnostics.push(
+        ...findUnresolvedTags(
+          migrated,
+          (tag, ancestors) => resolveCtor(tag, ancestors) !== undefined
+        )
+      )
+    }
+    return reviveChecked(migrated, diagnostics, mode, deserializeMigrated)
+  }
+
+  function fromSerializable(
+    json: SerializableFault,
+    deserializeOptions?: DeserializeOptions
+  ): InstanceType<M[keyof M]> | Fault {
+    // oxlint-disable-next-line typescript/no-unsafe-return
+    return revive(json, wire.unversionedAs, deserializeOptions?.mode)
+  }
+
+  // Prefers the `tag` extension member; falls back to the registered tag
+  // whose HTTP metadata declares the problem's `type` URI.
+  function resolveProblemTag(tag: unknown, type: unknown): string | undefined {
+    if (typeof tag === "string" && tagToCtor.has(tag)) return tag
+    if (typeof type !== "string") return undefined
+
+    for (const [candidate, metadata] of http) {
+      if (metadata.type === type) return candidate
+    }
+
+    return undefined
+  }
+
+  function matchCauseTags<const H extends RegistryMatchHandlers<M>>(
+    this: void,
+    err: unknown,
+    handlers: H
+  ): HandlerResult<H> | undefined
+  function matchCauseTags<const H extends RegistryMatchHandlers<M>, RF>(
+    this: void,
+    err: unknown,
+    handlers: H,
+    fallback: (err: unknown) => RF
+  ): HandlerResult<H> | RF
+  function matchCauseTags<const H extends RegistryMatchHandlers<M>, RF>(
+    this: void,
+    err: unknown,
+    handlers: H,
+    fallback?: (err: unknown) => RF
+  ): HandlerResult<H> | RF | undefined {
+    return dispatchCauseTags(err, handlers, registeredTag, fallback) as
+      | HandlerResult<H>
+      | RF
+      | undefined
   }
 
   const instance: FaultRegistry<M> = {
@@ -202,32 +495,132 @@ function createRegistry<const M extends Record<string, AnyFaultCtor>>(
     wrap(cause: unknown) {
       return {
         as<K extends keyof M>(tag: K, ...args: CreateArgs<M[K]>): InstanceType<M[K]> {
-          // Safe: create() returns the selected Fault subtype, whose fluent methods preserve `this`.
-          // oxlint-disable-next-line typescript/no-unsafe-return, typescript/no-unsafe-call
-          return create(tag, ...args).withCause(cause)
+          // oxlint-disable-next-line typescript/no-unsafe-return
+          return wrapAs(cause, tag, args)
         },
       }
     },
 
+    try<T, K extends keyof M>(
+      fn: () => T,
+      tag: K,
+      ...args: CreateArgs<M[K]>
+    ): Result<T, InstanceType<M[K]>> {
+      try {
+        return toOk(fn())
+      } catch (error) {
+        return toErr(wrapAs(error, tag, args))
+      }
+    },
+
+    async tryAsync<T, K extends keyof M>(
+      fn: () => T | PromiseLike<T>,
+      tag: K,
+      ...args: CreateArgs<M[K]>
+    ): Promise<Result<T, InstanceType<M[K]>>> {
+      try {
+        return toOk(await fn())
+      } catch (error) {
+        return toErr(wrapAs(error, tag, args))
+      }
+    },
+
     is,
 
+    isLike,
+
+    adopt(this: void, err: unknown): InstanceType<M[keyof M]> | undefined {
+      if (!isLike(err)) return undefined
+      // Safe: a foreign fault serializes its own chain, and fromSerializable
+      // resolves the same registered tag or ancestor that isLike found.
+      // oxlint-disable-next-line typescript/no-unsafe-return
+      return (
+        isMember(err) ? err : revive((err as Fault).toSerializable(), wire.version ?? 0)
+      ) as InstanceType<M[keyof M]>
+    },
+
     matchTag,
 
     matchTags,
 
-    toSerializable(err: unknown): SerializableFault {
-      return toSerializableValue(err)
+    match(this: void, err: unknown): Matcher<unknown, InstanceType<M[keyof M]>, never> {
+      return createMatcher(err, registeredTag(err)) as Matcher<
+        unknown,
+        InstanceType<M[keyof M]>,
+        never
+      >
     },
 
-    fromSerializable(json: SerializableFault): InstanceType<M[keyof M]> | Fault {
-      return deserializeFault(json, (tag, payload) => {
-        const ctor = tagToCtor.get(tag)
-        return ctor ? constructFault(ctor, [payload]) : undefined
-      })
+    findCause<K extends keyof M>(this: void, err: unknown, tag: K): InstanceType<M[K]> | undefined {
+      // Safe: isRegisteredAs checks the constructor registered for this tag.
+      // oxlint-disable-next-line typescript/no-unsafe-return
+      return findInChain(err, (fault) => isRegisteredAs(fault, tag as string)) as
+        | InstanceType<M[K]>
+        | undefined
+    },
+
+    matchCauseTags,
+
+    toSerializable(err: unknown, serializeOptions?: SerializeOptions): SerializableFault {
+      const json = toSerializableValue(err, encodeContext(serializeOptions))
+      return wire.version === undefined ? json : { ...json, __v: wire.version }
+    },
+
+    fromSerializable,
+
+    toProblemDetails(err: unknown, problemOptions?: ProblemDetailsOptions): ProblemDetails {
+      // Only registry members get their tag's metadata: a foreign Fault that
+      // reuses a registered tag is not described by it.
+      const metadata = isMember(err) ? http.get((err as Fault)._tag) : undefined
+      return toProblemDetails(
+        toSerializableValue(err, encodeContext({ redact: problemOptions?.redact })),
+        metadata,
+        problemOptions
+      )
+    },
+
+    fromProblemDetails(body: unknown): InstanceType<M[keyof M]> | Fault {
+      // Problem bodies carry no version and only resolve current tags.
+      // oxlint-disable-next-line typescript/no-unsafe-return
+      return revive(problemToSerializable(body, resolveProblemTag), wire.version ?? 0)
+    },
+
+    toResponse(err: unknown, responseOptions?: ToResponseOptions): Response {
+      return toResponse(instance, err, responseOptions)
+    },
+
+    async fromResponse(response: Response): Promise<InstanceType<M[keyof M]> | Fault> {
+      return fromResponse(instance, response)
+    },
+
+    localize(this: void, err: unknown, locale: string | readonly string[]): string | undefined {
+      if (!isMember(err)) return undefined
+      return localizeFault(err, messages, localeChain(locale, options?.fallbackLocale))
+    },
+
+    fingerprint(this: void, err: unknown, fingerprintOptions?: FingerprintOptions): string {
+      return fingerprint(err, fingerprintOptions)
+    },
+
+    tagsWhere(this: void, filter: TraitFilter): Array<keyof M> {
+      return tags.filter((tag) =>
+        matchesTraits(resolveTraits(declaredClassTraits(tagToCtor.get(tag))), filter)
+      )
     },
   }
 
-  setRegistryState(instance, { tagToCtor })
+  setRegistryState(instance, {
+    codecs,
+    fallbackLocale: options?.fallbackLocale,
+    http,
+    messages,
+    migrations: wire.migrations,
+    redact: options?.redact,
+    redactionProfiles: profiles,
+    tagToCtor,
+    unversionedAs: options?.unversionedAs,
+    version: wire.version,
+  })
 
   return instance
 }
@@ -0,0 +1,67 @@
+import type { Fault } from "./fault"
+
+export type Ok<T> = {
+  readonly ok: true
+  readonly value: T
+}
+
+export type Err<E extends Fault> = {
+  readonly ok: false
+  readonly error: E
+}
+
+export type Result<T, E extends Fault> = Ok<T> | Err<E>
+
+export type ResultHandlers<T, E extends Fault, RO, RE> = {
+  ok: (value: T) => RO
+  /** Receives the fault union; compose with `matchTags` for per-tag dispatch. */
+  err: (error: E) => RE
+}
+
+export function ok<T>(value: T): Ok<T> {
+  return { ok: true, value }
+}
+
+export function err<E extends Fault>(error: E): Err<E> {
+  return { error, ok: false }
+}
+
+export function isOk<T, E extends Fault>(result: Result<T, E>): result is Ok<T> {
+  return result.ok
+}
+
+export function isErr<T, E extends Fault>(result: Result<T, E>): result is Err<E> {
+  return !result.ok
+}
+
+export function map<T, E extends Fault, U>(
+  result: Result<T, E>,
+  fn: (value: T) => U
+): Result<U, E> {
+  return result.ok ? ok(fn(result.value)) : result
+}
+
+export function mapErr<T, E extends Fault, F extends Fault>(
+  result: Result<T, E>,
+  fn: (error: E) => F
+): Result<T, F> {
+  return result.ok ? result : err(fn(result.error))
+}
+
+export function andThen<T, E extends Fault, U, F extends Fault>(
+  result: Result<T, E>,
+  fn: (value: T) => Result<U, F>
+): Result<U, E | F> {
+  return result.ok ? fn(result.value) : result
+}
+
+export function match<T, E extends Fault, RO, RE>(
+  result: Result<T, E>,
+  handlers: ResultHandlers<T, E, RO, RE>
+): RO | RE {
+  return result.ok ? handlers.ok(result.value) : handlers.err(result.error)
+}
+
+export function unwrapOr<T, E extends Fault, U>(result: Result<T, E>, fallback: U): T | U {
+  return result.ok ? result.value : fallback
+}
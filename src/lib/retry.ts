@@ -0,0 +1,139 @@
+// Retries driven by fault classification: a failure is retried when the thrown
+// value or a link of its cause chain matches the configured tags, predicate,
+// or (by default) the `retryable` trait.
+import type { FaultRegistry, RegistryLineageTag } from "./registry"
+import type { AnyFaultCtor } from "./registry-state"
+import { RetryExhaustedError } from "./errors"
+import { causeChain, Fault, hasTagInLineage } from "./fault"
+
+/** Called with the thrown value and then each link of its cause chain. */
+export type RetryPredicate = (error: unknown) => boolean
+
+export type BackoffOptions = {
+  /** Delay before the first retry, in milliseconds. Defaults to 100. */
+  initial?: number
+  /** Multiplier applied to the delay after each retry. Defaults to 2. */
+  factor?: number
+  /** Upper bound for a single delay, in milliseconds. Defaults to 10000. */
+  max?: number
+  /** Picks each delay uniformly between zero and its computed value. Defaults to true. */
+  jitter?: boolean
+}
+
+/** Time source for waiting between attempts; tests inject one to skip real delays. */
+export type RetryClock = {
+  /** Resolves after `ms` milliseconds, or rejects with the signal's reason once it aborts. */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>
+  /** A number in `[0, 1)` used for jitter. Defaults to `Math.random`. */
+  random?(): number
+}
+
+export type RetryOptions<M extends Record<string, AnyFaultCtor> = Record<string, AnyFaultCtor>> = {
+  /** Restricts tag and trait matching to this registry's members. */
+  registry?: FaultRegistry<M>
+  /** Tags (including parent tags) or a predicate. Defaults to faults whose `retryable` trait is set. */
+  retryOn?: ReadonlyArray<NoInfer<RegistryLineageTag<M>>> | RetryPredicate
+  /** Total attempts, including the first. Defaults to 3. */
+  maxAttempts?: number
+  /** Exponential backoff settings, or a function from the failed attempt number to a delay. */
+  backoff?: BackoffOptions | ((attempt: number) => number)
+  /** Stops further attempts; the signal's reason is thrown. */
+  signal?: AbortSignal
+  clock?: RetryClock
+}
+
+export type RetryContext = {
+  /** The current attempt, starting at 1. */
+  readonly attempt: number
+  readonly signal: AbortSignal | undefined
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+
+const DEFAULT_BACKOFF: Required<BackoffOptions> = {
+  factor: 2,
+  initial: 100,
+  jitter: true,
+  max: 10_000,
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason as Error)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason as Error)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+const systemClock: Required<RetryClock> = { random: Math.random, sleep }
+
+function createMatcher<M extends Record<string, AnyFaultCtor>>(
+  options: RetryOptions<M>
+): (link: unknown) => boolean {
+  const { registry, retryOn } = options
+  if (typeof retryOn === "function") return retryOn
+
+  const isCandidate = (link: unknown): link is Fault =>
+    registry ? registry.is(link) : link instanceof Fault
+
+  if (retryOn === undefined) return (link) => isCandidate(link) && link.getTraits().retryable
+
+  const tags = retryOn as readonly string[]
+  return (link) => isCandidate(link) && tags.some((tag) => hasTagInLineage(link, tag))
+}
+
+function delayFor(backoff: RetryOptions["backoff"], attempt: number, random: () => number): number {
+  if (typeof backoff === "function") return backoff(attempt)
+
+  const { factor, initial, jitter, max } = { ...DEFAULT_BACKOFF, ...backoff }
+  const delay = Math.min(max, initial * factor ** (attempt - 1))
+  return jitter ? delay * random() : delay
+}
+
+export async function retry<T, M extends Record<string, AnyFaultCtor>>(
+  fn: (context: RetryContext) => T | PromiseLike<T>,
+  options: RetryOptions<M> = {}
+): Promise<T> {
+  const { backoff, maxAttempts = DEFAULT_MAX_ATTEMPTS, signal } = options
+  const clock = { ...systemClock, ...options.clock }
+  const matches = createMatcher(options)
+  const errors: unknown[] = []
+
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new RangeError(`maxAttempts must be a positive integer, got ${maxAttempts}`)
+  }
+
+  // Attempts run strictly one after another, each waiting for the previous delay.
+  const run = async (attempt: number): Promise<T> => {
+    signal?.throwIfAborted()
+
+    try {
+      return await fn({ attempt, signal })
+    } catch (error) {
+      errors.push(error)
+      if (!causeChain(error).some((link) => matches(link))) throw error
+      if (attempt === maxAttempts) {
+        throw new RetryExhaustedError({ attempts: attempt }).withCause(
+          new AggregateError(errors, `All ${attempt} attempts failed`)
+        )
+      }
+
+      signal?.throwIfAborted()
+      await clock.sleep(delayFor(backoff, attempt, clock.random), signal)
+      return run(attempt + 1)
+    }
+  }
+
+  return run(1)
+}
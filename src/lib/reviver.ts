@@ -1,4 +1,15 @@
-import { Fault, isReservedKey } from "./fault"
+import { type Codec, decodeFields, decodeValue, resolveCodecs } from "./codec"
+import { FieldValidationError } from "./errors"
+import {
+  AggregateFault,
+  Fault,
+  isReservedAggregateKey,
+  isReservedKey,
+  restoreLineage,
+} from "./fault"
+import { formatStack } from "./frames"
+import { overrideTraits, parseWireTraits } from "./traits"
+import { checkWirePayload, type DeserializeOptions, reviveChecked } from "./validate"
 import {
   collectPayloadFields,
   MAX_CAUSE_DEPTH,
@@ -7,11 +18,15 @@ import {
   type SerializableFault,
 } from "./wire"
 
-export type FaultResolver = (tag: string, payload: Record<string, unknown>) => Fault | undefined
+export type FaultResolver = (
+  tag: string,
+  payload: Record<string, unknown>,
+  ancestors: readonly string[]
+) => Fault | undefined
 
 // Prefix applied (repeatedly, until unique) to payload keys that would
 // collide with reserved Fault keys during deserialization.
-const PAYLOAD_PREFIX = "__payload_"
+export const PAYLOAD_PREFIX = "__payload_"
 
 type PreparedPayload = {
   collisionPayload: Record<string, unknown>
@@ -30,7 +45,17 @@ class DeserializedFault extends Fault {
   }
 }
 
-function assertSerializableFault(value: unknown): asserts value is SerializableFault {
+class DeserializedAggregateFault extends AggregateFault {
+  static create(tag: string): DeserializedAggregateFault {
+    return new DeserializedAggregateFault(tag)
+  }
+
+  private constructor(tag: string) {
+    super(tag)
+  }
+}
+
+export function assertSerializableFault(value: unknown): asserts value is SerializableFault {
   if (
     typeof value !== "object" ||
     value === null ||
@@ -44,6 +69,14 @@ function assertSerializableFault(value: unknown): asserts value is SerializableF
     throw new Error("Invalid Faultier payload: _tag must be a string")
   }
 
+  if (
+    "__v" in value &&
+    value.__v !== undefined &&
+    (typeof value.__v !== "number" || !Number.isInteger(value.__v) || value.__v < 0)
+  ) {
+    throw new Error("Invalid Faultier payload: __v must be a non-negative integer")
+  }
+
   if (
     "meta" in value &&
     value.meta !== undefined &&
@@ -51,6 +84,30 @@ function assertSerializableFault(value: unknown): asserts value is SerializableF
   ) {
     throw new Error("Invalid Faultier payload: meta must be an object")
   }
+
+  if (
+    "_ancestors" in value &&
+    value._ancestors !== undefined &&
+    (!Array.isArray(value._ancestors) || !value._ancestors.every((tag) => typeof tag === "string"))
+  ) {
+    throw new Error("Invalid Faultier payload: _ancestors must be an array of strings")
+  }
+
+  if ("__errors" in value && value.__errors !== undefined && !Array.isArray(value.__errors)) {
+    throw new Error("Invalid Faultier payload: __errors must be an array")
+  }
+
+  if ("__frames" in value && value.__frames !== undefined && !Array.isArray(value.__frames)) {
+    throw new Error("Invalid Faultier payload: __frames must be an array")
+  }
+
+  if (
+    "__traits" in value &&
+    value.__traits !== undefined &&
+    (typeof value.__traits !== "object" || value.__traits === null || Array.isArray(value.__traits))
+  ) {
+    throw new Error("Invalid Faultier payload: __traits must be an object")
+  }
 }
 
 function createDeserializedError(name: string, message: string, stack?: string): Error {
@@ -75,7 +132,10 @@ function definePayloadField(target: Record<string, unknown>, key: string, value:
   })
 }
 
-function preparePayload(payload: Record<string, unknown>): PreparedPayload {
+function preparePayload(
+  payload: Record<string, unknown>,
+  isReserved: (key: string) => boolean
+): PreparedPayload {
   const collisionPayload: Record<string, unknown> = {}
   const constructorPayload: Record<string, unknown> = {}
   const rawKeys = new Set(Object.keys(payload))
@@ -85,7 +145,7 @@ function preparePayload(payload: Record<string, unknown>): PreparedPayload {
     let targetKey = key
 
     while (
-      isReservedKey(targetKey) ||
+      isReserved(targetKey) ||
       assignedKeys.has(targetKey) ||
       (targetKey !== key && rawKeys.has(targetKey))
     ) {
@@ -115,19 +175,60 @@ function restorePayloadFields(fault: Fault, payload: Record<string, unknown>): v
 function deserializeCause(
   cause: SerializableCause,
   resolveFault: FaultResolver | undefined,
+  codecs: readonly Codec[],
   depth: number
 ): unknown {
+  // A malformed cause is revived as the thrown value it is.
+  if (typeof cause !== "object" || (cause as unknown) === null) {
+    return decodeValue(cause, codecs)
+  }
+
   if (cause.kind === "fault") {
     // Invariant: allow at most MAX_CAUSE_DEPTH nested fault edges.
     if (depth >= MAX_CAUSE_DEPTH) return undefined
-    return deserializeFaultInternal(cause.value, resolveFault, depth + 1)
+    return deserializeFaultInternal(cause.value, resolveFault, codecs, depth + 1)
   }
 
   if (cause.kind === "error") {
-    return createDeserializedError(cause.name, cause.message, cause.stack)
+    const error = createDeserializedError(cause.name, cause.message, cause.stack)
+    if (cause.cause !== undefined && depth + 1 < MAX_CAUSE_DEPTH) {
+      error.cause = deserializeCause(cause.cause, resolveFault, codecs, depth + 1)
+    }
+    return error
   }
 
-  return cause.value
+  if (cause.kind === "aggregate") {
+    // A missing or malformed `errors` list revives as an aggregate without children.
+    const errors =
+      Array.isArray(cause.errors) && depth + 1 < MAX_CAUSE_DEPTH
+        ? cause.errors.map((child) => deserializeCause(child, resolveFault, codecs, depth + 1))
+        : []
+    const error = new AggregateError(errors, cause.message)
+    error.name = cause.name
+    error.stack = cause.stack
+    if (cause.cause !== undefined && depth + 1 < MAX_CAUSE_DEPTH) {
+      error.cause = deserializeCause(cause.cause, resolveFault, codecs, depth + 1)
+    }
+    return error
+  }
+
+  return decodeValue(cause.value, codecs)
+}
+
+// A schema rejection must not yield a half-built instance of the registered
+// class; it is reported instead, with the generically revived fault as cause.
+function resolveValidated(
+  json: SerializableFault,
+  resolveFault: FaultResolver | undefined,
+  payload: Record<string, unknown>,
+  ancestors: readonly string[]
+): { fault?: Fault; invalid?: FieldValidationError } {
+  try {
+    return { fault: resolveFault?.(json._tag, payload, ancestors) }
+  } catch (error) {
+    if (error instanceof FieldValidationError) return { invalid: error }
+    throw error
+  }
 }
 
 function restoreDeserializedFields(fault: Fault, json: SerializableFault): void {
@@ -151,41 +252,96 @@ function restoreDeserializedFields(fault: Fault, json: SerializableFault): void
 
   if (typeof json.stack === "string") {
     target.stack = json.stack
+  } else if (json.__frames !== undefined) {
+    // Frames-only payloads still get a readable stack.
+    target.stack = formatStack(`${target.name}: ${target.message}`, json.__frames)
+  }
+
+  // Restored as instance traits, so generic faults keep them without a class.
+  if (json.__traits !== undefined) {
+    overrideTraits(target, parseWireTraits(json.__traits))
   }
 }
 
-export function fromSerializable(json: SerializableFault): Fault {
-  return deserializeFault(json)
+export function fromSerializable(json: SerializableFault, options?: DeserializeOptions): Fault {
+  const mode = options?.mode ?? "permissive"
+  if (mode === "permissive") return deserializeFault(json)
+
+  // Without a registry there are no tags to resolve, so only the shape is checked.
+  const { diagnostics, payload } = checkWirePayload(json, resolveCodecs([]))
+  return reviveChecked(payload, diagnostics, mode, (checked) => deserializeFault(checked))
 }
 
-export function deserializeFault(json: SerializableFault, resolveFault?: FaultResolver): Fault {
-  return deserializeFaultInternal(json, resolveFault, 0)
+export function deserializeFault(
+  json: SerializableFault,
+  resolveFault?: FaultResolver,
+  codecs: readonly Codec[] = resolveCodecs([])
+): Fault {
+  return deserializeFaultInternal(json, resolveFault, codecs, 0)
 }
 
 function deserializeFaultInternal(
   json: unknown,
   resolveFault: FaultResolver | undefined,
+  codecs: readonly Codec[],
   depth: number
 ): Fault {
   assertSerializableFault(json)
 
-  const payload = preparePayload(extractPayloadFields(json))
-  const resolvedFault = resolveFault?.(json._tag, payload.constructorPayload)
-  const fault = resolvedFault ?? DeserializedFault.create(json._tag)
+  const isAggregate = json.__errors !== undefined
+  const payload = preparePayload(
+    decodeFields(extractPayloadFields(json), codecs),
+    isAggregate ? isReservedAggregateKey : isReservedKey
+  )
+  const ancestors = json._ancestors ?? []
+  const { fault: resolvedFault, invalid } = resolveValidated(
+    json,
+    resolveFault,
+    payload.constructorPayload,
+    ancestors
+  )
+  const fault =
+    resolvedFault ??
+    (isAggregate
+      ? DeserializedAggregateFault.create(json._tag)
+      : DeserializedFault.create(json._tag))
 
   // A resolved constructor already applied constructorPayload; the generic
   // fallback needs both buckets restored directly.
   if (!resolvedFault) {
     restorePayloadFields(fault, payload.constructorPayload)
+  } else if (fault._tag !== json._tag) {
+    // An ancestor's schema may strip the child's own fields.
+    restorePayloadFields(
+      fault,
+      Object.fromEntries(
+        Object.entries(payload.constructorPayload).filter(([key]) => !Object.hasOwn(fault, key))
+      )
+    )
   }
   restorePayloadFields(fault, payload.collisionPayload)
   restoreDeserializedFields(fault, json)
 
+  // Generic faults and ancestor fallbacks take their lineage from the wire.
+  if (!resolvedFault || fault._tag !== json._tag) {
+    restoreLineage(fault, json._tag, ancestors)
+  }
+
   if (json.cause) {
     // Intentionally assign cause directly instead of withCause().
     // Serialized stacks already contain any prior "Caused by:" enhancement.
-    fault.cause = deserializeCause(json.cause, resolveFault, depth)
+    fault.cause = deserializeCause(json.cause, resolveFault, codecs, depth)
+  }
+
+  // Children of a resolved non-aggregate constructor have nowhere to go and are dropped.
+  if (json.__errors !== undefined && fault instanceof AggregateFault) {
+    const children = json.__errors
+    fault.withErrors(
+      depth < MAX_CAUSE_DEPTH
+        ? children.map((child) => deserializeCause(child, resolveFault, codecs, depth))
+        : []
+    )
   }
 
-  return fault
+  return invalid ? invalid.withCause(fault) : fault
 }
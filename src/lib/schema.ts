@@ -0,0 +1,97 @@
+// Runtime field schemas for Tagged classes. Any Standard Schema v1 validator
+// (https://standardschema.dev) works; the interface is copied here, as the spec
+// recommends, so Faultier stays free of runtime dependencies.
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] }
+
+export type StandardSchemaIssue = {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+}
+
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly "~standard": {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined
+  }
+}
+
+export type InferSchemaInput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["input"]
+
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"]
+
+/** A JSON-safe validation issue. Symbol path keys become their description. */
+export type FieldIssue = {
+  message: string
+  path?: Array<string | number>
+}
+
+type SchemaEntry = {
+  readonly schema: StandardSchemaV1
+  readonly tag: string
+}
+
+const fieldSchemas = new WeakMap<object, SchemaEntry>()
+
+export function setFieldSchema(ctor: object, tag: string, schema: StandardSchemaV1): void {
+  fieldSchemas.set(ctor, { schema, tag })
+}
+
+// Nearest schema along the constructor chain, like sensitive fields.
+export function getFieldSchema(ctor: unknown): SchemaEntry | undefined {
+  let current = ctor
+
+  while (typeof current === "function") {
+    const entry = fieldSchemas.get(current)
+    if (entry) return entry
+    current = Object.getPrototypeOf(current)
+  }
+
+  return undefined
+}
+
+function toPathKey(segment: PropertyKey | { readonly key: PropertyKey }): string | number {
+  const key = typeof segment === "object" ? segment.key : segment
+  if (typeof key === "symbol") return key.description ?? key.toString()
+  return key
+}
+
+function toFieldIssue(issue: StandardSchemaIssue): FieldIssue {
+  const normalized: FieldIssue = { message: issue.message }
+  if (issue.path && issue.path.length > 0) {
+    normalized.path = issue.path.map((segment) => toPathKey(segment))
+  }
+  return normalized
+}
+
+export function formatFieldIssue(issue: FieldIssue): string {
+  return issue.path ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+}
+
+/**
+ * Runs a schema synchronously. Constructors cannot await, so a schema that
+ * returns a Promise is a usage error.
+ */
+export function validateFieldSchema(
+  schema: StandardSchemaV1,
+  fields: unknown
+): { value: unknown } | { issues: FieldIssue[] } {
+  const result = schema["~standard"].validate(fields)
+
+  if (result instanceof Promise) {
+    throw new TypeError("Tagged field schemas must validate synchronously")
+  }
+
+  if (result.issues) return { issues: result.issues.map((issue) => toFieldIssue(issue)) }
+  return { value: result.value }
+}
@@ -0,0 +1,315 @@
+// Offline source map remapping for serialized faults. Stacks and structured
+// frames are rewritten to original positions; maps come from a caller-supplied
+// loader, so nothing is fetched.
+import type { SerializableCause, SerializableFault, StackFrame } from "./wire"
+import { parseFrameLine } from "./frames"
+
+/** A version 3 source map. Index maps (`sections`) are not supported. */
+export type RawSourceMap = {
+  version: 3
+  file?: string
+  sourceRoot?: string
+  sources: ReadonlyArray<string | null>
+  names?: readonly string[]
+  mappings: string
+}
+
+/**
+ * Returns the source map for a generated file, as an object or its JSON text,
+ * or `undefined` when the file has none.
+ */
+export type SourceMapLoader = (
+  file: string
+) => RawSourceMap | string | undefined | Promise<RawSourceMap | string | undefined>
+
+export type SourceMapper = {
+  /** Returns a copy of `json` with every stack and frame in the cause tree remapped. */
+  remap(json: SerializableFault): Promise<SerializableFault>
+  /** Drops every cached map, so the next `remap` loads them again. */
+  clear(): void
+}
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?]
+type Segment = readonly number[]
+
+type ParsedSourceMap = {
+  readonly sources: ReadonlyArray<string | undefined>
+  readonly names: readonly string[]
+  readonly lines: ReadonlyArray<readonly Segment[]>
+}
+
+type OriginalPosition = {
+  file: string
+  line: number
+  column: number
+  name?: string
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+const VLQ_SHIFT = 5
+const VLQ_CONTINUATION = 32
+const VLQ_MASK = 31
+
+function decodeSegment(text: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of text) {
+    const digit = BASE64.indexOf(char)
+    if (digit === -1) throw new Error(`Invalid source map mapping: "${text}"`)
+
+    value += (digit & VLQ_MASK) * 2 ** shift
+    if ((digit & VLQ_CONTINUATION) === 0) {
+      // The lowest bit carries the sign.
+      values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2)
+      value = 0
+      shift = 0
+    } else {
+      shift += VLQ_SHIFT
+    }
+  }
+
+  return values
+}
+
+// Fields other than the generated column are relative to the previous
+// segment in the whole map; the generated column resets on every line.
+export function decodeMappings(mappings: string): Segment[][] {
+  const absolute = [0, 0, 0, 0]
+
+  return mappings.split(";").map((line) => {
+    let column = 0
+    const segments: Segment[] = []
+
+    for (const text of line.split(",")) {
+      if (text === "") continue
+      const [generated = 0, ...relative] = decodeSegment(text)
+      column += generated
+
+      for (const [index, delta] of relative.entries()) {
+        absolute[index] = (absolute[index] ?? 0) + delta
+      }
+
+      segments.push([column, ...absolute.slice(0, relative.length)])
+    }
+
+    return segments.toSorted((left, right) => (left[0] ?? 0) - (right[0] ?? 0))
+  })
+}
+
+const ABSOLUTE_URL = /^[a-z][\d+.a-z-]*:/iu
+
+// Sources resolve against `sourceRoot`, then the generated file's location.
+function resolveSource(generatedFile: string, root: string, path: string): string {
+  // Absolute URLs, including bundler schemes such as `webpack://`, are kept.
+  if (ABSOLUTE_URL.test(path)) return path
+  const source = `${root}${path}`
+  if (ABSOLUTE_URL.test(source)) return source
+
+  try {
+    if (generatedFile.startsWith("/")) {
+      return decodeURIComponent(new URL(source, `file://${generatedFile}`).pathname)
+    }
+    return new URL(source, generatedFile).href
+  } catch {
+    return source
+  }
+}
+
+function parseSourceMap(generatedFile: string, raw: RawSourceMap | string): ParsedSourceMap {
+  const map = (typeof raw === "string" ? JSON.parse(raw) : raw) as RawSourceMap
+
+  if (map.version !== 3 || typeof map.mappings !== "string" || !Array.isArray(map.sources)) {
+    throw new Error(`Invalid source map for ${generatedFile}: expected a version 3 map`)
+  }
+
+  const root = map.sourceRoot ? map.sourceRoot.replace(/\/?$/u, "/") : ""
+
+  return {
+    lines: decodeMappings(map.mappings),
+    names: map.names ?? [],
+    sources: map.sources.map((source: string | null) =>
+      source === null ? undefined : resolveSource(generatedFile, root, source)
+    ),
+  }
+}
+
+// The segment covering a column is the last one starting at or before it.
+function findSegment(segments: readonly Segment[], column: number): Segment | undefined {
+  let found: Segment | undefined
+
+  for (const segment of segments) {
+    if ((segment[0] ?? 0) > column) break
+    found = segment
+  }
+
+  return found
+}
+
+function originalPosition(
+  map: ParsedSourceMap,
+  line: number,
+  column: number
+): OriginalPosition | undefined {
+  // Stack positions are 1-based; source map positions are 0-based.
+  const segment = findSegment(map.lines[line - 1] ?? [], column - 1)
+  if (segment === undefined || segment.length < 4) return undefined
+
+  const [, sourceIndex = 0, originalLine = 0, originalColumn = 0, nameIndex] = segment
+  const file = map.sources[sourceIndex]
+  if (file === undefined) return undefined
+
+  const position: OriginalPosition = { column: originalColumn + 1, file, line: originalLine + 1 }
+  const name = nameIndex === undefined ? undefined : map.names[nameIndex]
+  if (name !== undefined) position.name = name
+  return position
+}
+
+class SourceMapCache {
+  private readonly load: SourceMapLoader
+  private readonly maps = new Map<string, Promise<ParsedSourceMap | undefined>>()
+
+  constructor(load: SourceMapLoader) {
+    this.load = load
+  }
+
+  get(file: string): Promise<ParsedSourceMap | undefined> {
+    let map = this.maps.get(file)
+
+    if (!map) {
+      map = this.read(file)
+      this.maps.set(file, map)
+      // Failed loads are retried on the next call instead of being cached.
+      map.catch(() => this.maps.delete(file))
+    }
+
+    return map
+  }
+
+  clear(): void {
+    this.maps.clear()
+  }
+
+  private async read(file: string): Promise<ParsedSourceMap | undefined> {
+    const raw = await this.load(file)
+    return raw === undefined ? undefined : parseSourceMap(file, raw)
+  }
+}
+
+async function remapFrame(frame: StackFrame, cache: SourceMapCache): Promise<StackFrame> {
+  if (frame.file === undefined || frame.line === undefined || frame.column === undefined) {
+    return frame
+  }
+
+  let map: ParsedSourceMap | undefined
+  try {
+    map = await cache.get(frame.file)
+  } catch {
+    // A map that fails to load or parse leaves its frames as they are; the
+    // next call retries it.
+    return frame
+  }
+
+  const position = map && originalPosition(map, frame.line, frame.column)
+  if (!position) return frame
+
+  const remapped: StackFrame = {
+    ...frame,
+    column: position.column,
+    file: position.file,
+    line: position.line,
+  }
+  if (position.name !== undefined) remapped.fn = position.name
+  return remapped
+}
+
+function locationOf(frame: StackFrame): string {
+  return `${frame.file}:${frame.line}:${frame.column}`
+}
+
+// Rewrites the location and name in place, so the line keeps its indentation
+// and its V8 or SpiderMonkey layout. `async ` and `new ` prefixes stay on the name.
+function rewriteLine(line: string, frame: StackFrame, remapped: StackFrame): string {
+  const at = line.lastIndexOf(locationOf(frame))
+  if (at === -1) return line
+
+  let head = line.slice(0, at)
+  let tail = line.slice(at + locationOf(frame).length)
+
+  if (remapped.fn !== undefined && remapped.fn !== frame.fn) {
+    // The name sits right before the location: `at name (file:1:2)` or `name@file:1:2`.
+    const separator = head.endsWith("@") ? "@" : " ("
+    if (frame.fn === undefined) {
+      // An anonymous V8 frame gains parentheses: `at file:1:2` -> `at name (file:1:2)`.
+      if (separator === " (") tail = `)${tail}`
+      head = `${head.slice(0, separator === "@" ? -1 : head.length)}${remapped.fn}${separator}`
+    } else {
+      const prefix = /^(?:async |new )/u.exec(frame.fn)?.[0] ?? ""
+      const start = head.length - separator.length - frame.fn.length
+      head = `${head.slice(0, start)}${prefix}${remapped.fn}${separator}`
+    }
+  }
+
+  return `${head}${locationOf(remapped)}${tail}`
+}
+
+async function remapLine(line: string, cache: SourceMapCache): Promise<string> {
+  const frame = parseFrameLine(line)
+  if (frame === undefined) return line
+
+  const remapped = await remapFrame(frame, cache)
+  return remapped === frame ? line : rewriteLine(line, frame, remapped)
+}
+
+// Every line is remapped on its own, so headers and "Caused by:" blocks pass
+// through while their frames are rewritten.
+async function remapStack(stack: string, cache: SourceMapCache): Promise<string> {
+  const lines = await Promise.all(stack.split("\n").map((line) => remapLine(line, cache)))
+  return lines.join("\n")
+}
+
+async function remapCause(
+  cause: SerializableCause,
+  cache: SourceMapCache
+): Promise<SerializableCause> {
+  if (cause.kind === "thrown") return cause
+  if (cause.kind === "fault") return { kind: "fault", value: await remapFault(cause.value, cache) }
+
+  const remapped = { ...cause }
+  if (cause.stack !== undefined) remapped.stack = await remapStack(cause.stack, cache)
+  if (cause.cause !== undefined) remapped.cause = await remapCause(cause.cause, cache)
+  if (remapped.kind === "aggregate") {
+    remapped.errors = await Promise.all(remapped.errors.map((error) => remapCause(error, cache)))
+  }
+  return remapped
+}
+
+async function remapFault(
+  json: SerializableFault,
+  cache: SourceMapCache
+): Promise<SerializableFault> {
+  const remapped = { ...json }
+
+  if (json.stack !== undefined) remapped.stack = await remapStack(json.stack, cache)
+  if (json.__frames !== undefined) {
+    remapped.__frames = await Promise.all(json.__frames.map((frame) => remapFrame(frame, cache)))
+  }
+  if (json.cause !== undefined) remapped.cause = await remapCause(json.cause, cache)
+  if (json.__errors !== undefined) {
+    remapped.__errors = await Promise.all(json.__errors.map((error) => remapCause(error, cache)))
+  }
+
+  return remapped
+}
+
+export function createSourceMapper(load: SourceMapLoader): SourceMapper {
+  const cache = new SourceMapCache(load)
+
+  return {
+    clear: () => {
+      cache.clear()
+    },
+    remap: (json) => remapFault(json, cache),
+  }
+}
@@ -1,50 +1,342 @@
-import type { SerializableValue } from "./wire"
-import { ReservedFieldError } from "./errors"
-import { Fault, isReservedKey } from "./fault"
+import type { FieldValue } from "./codec"
+import { FieldValidationError, ReservedFieldError } from "./errors"
+import { AggregateFault, Fault, isReservedAggregateKey, isReservedKey, tagOfClass } from "./fault"
+import { setSensitiveFields } from "./redact"
+import {
+  getFieldSchema,
+  type InferSchemaInput,
+  type InferSchemaOutput,
+  setFieldSchema,
+  type StandardSchemaV1,
+  validateFieldSchema,
+} from "./schema"
+import { type DeclaredTraits, setClassTraits } from "./traits"
 
-type TaggedArgs<Fields extends Record<string, SerializableValue>> = keyof Fields extends never
+type TaggedArgs<Fields extends Record<string, unknown>> = keyof Fields extends never
   ? [fields?: Record<string, never>]
   : [fields: Fields]
 
 export type TaggedInstance<
   Tag extends string,
-  Fields extends Record<string, SerializableValue>,
+  Fields extends Record<string, FieldValue>,
+  Ancestors extends string = never,
 > = Fault &
   Readonly<Fields> & {
     readonly _tag: Tag
+    readonly _ancestors: readonly Ancestors[]
   }
 
+export type TaggedAggregateInstance<
+  Tag extends string,
+  Fields extends Record<string, FieldValue>,
+  Ancestors extends string = never,
+> = AggregateFault &
+  Readonly<Fields> & {
+    readonly _tag: Tag
+    readonly _ancestors: readonly Ancestors[]
+  }
+
+type AnyFaultClass = abstract new (...args: never[]) => Fault
+
+// The parent's base (Fault or AggregateFault) keeps its `this`-typed fluent
+// methods; everything the parent adds on top is carried over as-is.
+type ParentBase<I> = I extends AggregateFault ? AggregateFault : Fault
+
+export type ExtendedInstance<
+  Parent extends AnyFaultClass,
+  Tag extends string,
+  ChildFields extends Record<string, FieldValue>,
+> = ParentBase<InstanceType<Parent>> &
+  Omit<InstanceType<Parent>, keyof AggregateFault> &
+  Readonly<ChildFields> & {
+    readonly _tag: Tag
+    readonly _ancestors: ReadonlyArray<
+      InstanceType<Parent>["_tag"] | InstanceType<Parent>["_ancestors"][number]
+    >
+  }
+
+/** A static string with `{field}` placeholders, or a function of the fields. */
+export type FieldTemplate<Fields> = string | ((fields: Readonly<Fields>) => string)
+
+export type TaggedTemplates<Fields> = {
+  /** Computes `message` at construction. `withMessage` still overrides it. */
+  message?: FieldTemplate<Fields>
+  /** Computes `details` at construction. `withDetails` still overrides it. */
+  details?: FieldTemplate<Fields>
+}
+
+export type TaggedStatics<
+  Fields extends Record<string, unknown>,
+  Input extends Record<string, unknown> = Fields,
+> = {
+  /**
+   * Derives a child tag that inherits this class's fields, adds its own, and
+   * records this class's tag (and its ancestors) as parent tags.
+   */
+  extend<const Tag extends string, Parent extends AnyFaultClass>(
+    this: Parent,
+    tag: Tag,
+    options?: TaggedOptions
+  ): <ChildFields extends Record<string, FieldValue> = Record<never, never>>(
+    templates?: TaggedTemplates<Fields & ChildFields>
+  ) => ExtendedClass<Parent, Tag, Fields, ChildFields, Input>
+}
+
+export type ExtendedClass<
+  Parent extends AnyFaultClass,
+  Tag extends string,
+  Fields extends Record<string, unknown>,
+  ChildFields extends Record<string, FieldValue>,
+  Input extends Record<string, unknown> = Fields,
+> = (abstract new (
+  ...args: TaggedArgs<Input & ChildFields>
+) => ExtendedInstance<Parent, Tag, ChildFields>) &
+  TaggedStatics<Fields & ChildFields, Input & ChildFields>
+
+// `Input` differs from `Fields` only for schema-backed classes, whose
+// constructors take the schema's input and store its output.
 export type TaggedClass<
   Tag extends string,
-  Fields extends Record<string, SerializableValue>,
-> = abstract new (...args: TaggedArgs<Fields>) => TaggedInstance<Tag, Fields>
+  Fields extends Record<string, FieldValue>,
+  Input extends Record<string, unknown> = Fields,
+> = (abstract new (...args: TaggedArgs<Input>) => TaggedInstance<Tag, Fields>) &
+  TaggedStatics<Fields, Input>
+
+export type TaggedAggregateClass<
+  Tag extends string,
+  Fields extends Record<string, FieldValue>,
+  Input extends Record<string, unknown> = Fields,
+> = (abstract new (...args: TaggedArgs<Input>) => TaggedAggregateInstance<Tag, Fields>) &
+  TaggedStatics<Fields, Input>
+
+// The first call cannot see the field types, so its templates take loosely
+// typed fields unless a schema supplies them.
+export type TaggedOptions<Fields = Record<string, FieldValue>> = TaggedTemplates<Fields> & {
+  /** Payload fields redacted unless redaction is disabled with `redact: false`. Inherited by subclasses. */
+  sensitive?: readonly string[]
+  /** Severity, retryability, exposure, and category. Each trait is inherited unless redeclared. */
+  traits?: DeclaredTraits
+}
+
+/** A Standard Schema whose output is a valid field record. */
+export type FieldSchema = StandardSchemaV1<Record<string, unknown>, Record<string, FieldValue>>
+
+export type TaggedSchemaOptions<S extends FieldSchema> = TaggedOptions<InferSchemaOutput<S>> & {
+  /**
+   * Validates fields on construction and on registry deserialization. Must
+   * validate synchronously. Inherited by extended tags.
+   */
+  schema: S
+}
+
+// The second call takes templates because only it knows the field types.
+export type TaggedFactory<Tag extends string> = (<
+  Fields extends Record<string, FieldValue> = Record<never, never>,
+>(
+  templates?: TaggedTemplates<Fields>
+) => TaggedClass<Tag, Fields>) & {
+  aggregate<Fields extends Record<string, FieldValue> = Record<never, never>>(
+    templates?: TaggedTemplates<Fields>
+  ): TaggedAggregateClass<Tag, Fields>
+}
+
+export type SchemaTaggedFactory<Tag extends string, S extends FieldSchema> = ((
+  templates?: TaggedTemplates<InferSchemaOutput<S>>
+) => TaggedClass<Tag, InferSchemaOutput<S>, InferSchemaInput<S>>) & {
+  aggregate(
+    templates?: TaggedTemplates<InferSchemaOutput<S>>
+  ): TaggedAggregateClass<Tag, InferSchemaOutput<S>, InferSchemaInput<S>>
+}
+
+type ResolvedFields = {
+  fields: Record<string, unknown>
+  message?: string
+  details?: string
+}
+
+const fieldTemplates = new WeakMap<object, TaggedTemplates<Record<string, unknown>>>()
+
+// Second-call templates win per key over those passed with the options.
+function setTemplates(
+  ctor: object,
+  options: TaggedTemplates<never> | undefined,
+  templates: TaggedTemplates<never> | undefined
+): void {
+  const message = templates?.message ?? options?.message
+  const details = templates?.details ?? options?.details
+  if (message === undefined && details === undefined) return
+  fieldTemplates.set(ctor, { details, message } as TaggedTemplates<Record<string, unknown>>)
+}
+
+// Each template is looked up separately, so a child can replace the parent's
+// message and still inherit its details.
+function findTemplate(
+  ctor: unknown,
+  key: keyof TaggedTemplates<never>
+): FieldTemplate<Record<string, unknown>> | undefined {
+  let current = ctor
+
+  while (typeof current === "function") {
+    const template = fieldTemplates.get(current)?.[key]
+    if (template !== undefined) return template
+    current = Object.getPrototypeOf(current)
+  }
+
+  return undefined
+}
 
-export function Tagged<const Tag extends string>(tag: Tag) {
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/gu
+
+// Objects and arrays render as JSON instead of "[object Object]".
+function formatPlaceholder(value: unknown): string {
+  if (typeof value !== "object" || value === null || value instanceof Date) return String(value)
+
+  try {
+    return JSON.stringify(value)
+  } catch {
+    return Object.prototype.toString.call(value)
+  }
+}
+
+function renderTemplate(
+  template: FieldTemplate<Record<string, unknown>> | undefined,
+  fields: Record<string, unknown>
+): string | undefined {
+  if (template === undefined) return undefined
+  if (typeof template === "function") return template(fields)
+  // Unknown placeholders stay as written.
+  return template.replaceAll(PLACEHOLDER_PATTERN, (placeholder, key: string) =>
+    Object.hasOwn(fields, key) ? formatPlaceholder(fields[key]) : placeholder
+  )
+}
+
+function validateFields(
+  ctor: unknown,
+  tag: string,
+  input: Record<string, unknown>
+): Record<string, unknown> {
+  const entry = getFieldSchema(ctor)
+  if (!entry) return input
+
+  const result = validateFieldSchema(entry.schema, input)
+  if ("issues" in result) {
+    throw new FieldValidationError({ issues: result.issues, tag })
+  }
+
+  const output = (result.value ?? {}) as Record<string, unknown>
+  // An inherited schema only knows the parent's fields; the child's own pass through.
+  return entry.tag === tag ? output : { ...input, ...output }
+}
+
+// Runs before `super()` so a templated message is part of the captured stack.
+function resolveFields(
+  ctor: unknown,
+  tag: string,
+  args: readonly unknown[],
+  isReserved: (key: string) => boolean
+): ResolvedFields {
+  const fields = validateFields(ctor, tag, (args[0] ?? {}) as Record<string, unknown>)
+
+  for (const key of Object.keys(fields)) {
+    if (isReserved(key)) {
+      throw new ReservedFieldError({ field: key })
+    }
+  }
+
+  return {
+    details: renderTemplate(findTemplate(ctor, "details"), fields),
+    fields,
+    message: renderTemplate(findTemplate(ctor, "message"), fields),
+  }
+}
+
+function assignFields(fault: Fault, resolved: ResolvedFields): void {
+  const target = fault
+  Object.assign(target, resolved.fields)
+  if (resolved.details !== undefined) target.details = resolved.details
+}
+
+// Children reuse their parent's constructor, which reads the nearest declared
+// tag from `new.target`; declaring `_tag` is all a child class needs.
+function extend(this: AnyFaultClass, tag: string, options?: TaggedOptions) {
+  const parent = this as unknown as abstract new (...args: unknown[]) => Fault
+
+  return function (templates?: TaggedTemplates<never>) {
+    abstract class ExtendedFault extends parent {
+      static readonly _tag: string = tag
+    }
+
+    if (options?.sensitive) setSensitiveFields(ExtendedFault, options.sensitive)
+    if (options?.traits) setClassTraits(ExtendedFault, options.traits)
+    setTemplates(ExtendedFault, options, templates)
+
+    return ExtendedFault
+  }
+}
+
+export function Tagged<const Tag extends string, S extends FieldSchema>(
+  tag: Tag,
+  options: TaggedSchemaOptions<S>
+): SchemaTaggedFactory<Tag, S>
+export function Tagged<const Tag extends string>(
+  tag: Tag,
+  options?: TaggedOptions
+): TaggedFactory<Tag>
+export function Tagged<const Tag extends string>(
+  tag: Tag,
+  options?: TaggedOptions & { schema?: FieldSchema }
+): TaggedFactory<Tag> {
   // Interface-declared fields need an explicit index signature; use a type alias or inline type.
-  return function <
-    Fields extends Record<string, SerializableValue> = Record<never, never>,
-  >(): TaggedClass<Tag, Fields> {
+  function define<Fields extends Record<string, FieldValue> = Record<never, never>>(
+    templates?: TaggedTemplates<Fields>
+  ): TaggedClass<Tag, Fields> {
     abstract class TaggedFault extends Fault {
       static readonly _tag: Tag = tag
+      static readonly extend = extend
 
       // Recommended convention: keep class name equal to `_tag` for readability.
       // This is not enforced at runtime.
 
       constructor(...args: TaggedArgs<Fields>) {
-        super(tag)
+        const faultTag = tagOfClass(new.target) ?? tag
+        const resolved = resolveFields(new.target, faultTag, args, isReservedKey)
+        super(faultTag, resolved.message)
+        assignFields(this, resolved)
+      }
+    }
 
-        const fields = (args[0] ?? {}) as Record<string, SerializableValue>
+    if (options?.sensitive) setSensitiveFields(TaggedFault, options.sensitive)
+    if (options?.traits) setClassTraits(TaggedFault, options.traits)
+    if (options?.schema) setFieldSchema(TaggedFault, tag, options.schema)
+    setTemplates(TaggedFault, options, templates)
 
-        for (const key of Object.keys(fields)) {
-          if (isReservedKey(key)) {
-            throw new ReservedFieldError({ field: key })
-          }
-        }
+    return TaggedFault as unknown as TaggedClass<Tag, Fields>
+  }
+
+  // Same constructor shape as `define`, so registries create aggregates like any
+  // other fault; child errors are attached with `withErrors`.
+  function aggregate<Fields extends Record<string, FieldValue> = Record<never, never>>(
+    templates?: TaggedTemplates<Fields>
+  ): TaggedAggregateClass<Tag, Fields> {
+    abstract class TaggedAggregateFault extends AggregateFault {
+      static readonly _tag: Tag = tag
+      static readonly extend = extend
 
-        Object.assign(this, fields)
+      constructor(...args: TaggedArgs<Fields>) {
+        const faultTag = tagOfClass(new.target) ?? tag
+        const resolved = resolveFields(new.target, faultTag, args, isReservedAggregateKey)
+        super(faultTag, resolved.message)
+        assignFields(this, resolved)
       }
     }
 
-    return TaggedFault as unknown as TaggedClass<Tag, Fields>
+    if (options?.sensitive) setSensitiveFields(TaggedAggregateFault, options.sensitive)
+    if (options?.traits) setClassTraits(TaggedAggregateFault, options.traits)
+    if (options?.schema) setFieldSchema(TaggedAggregateFault, tag, options.schema)
+    setTemplates(TaggedAggregateFault, options, templates)
+
+    return TaggedAggregateFault as unknown as TaggedAggregateClass<Tag, Fields>
   }
+
+  return Object.assign(define, { aggregate })
 }
@@ -0,0 +1,168 @@
+// Assertions for test suites: `expect.extend`-compatible matchers and the
+// `expectFault` helper. Failure messages render the received cause chain with
+// `format()`, so a report shows which layer did not match.
+import type { CauseOfTag } from "./match"
+import type { FaultRegistry } from "./registry"
+import type { AnyFaultCtor } from "./registry-state"
+import { FaultAssertionError } from "./errors"
+import { causeChain, Fault, formatFault, hasTagInLineage } from "./fault"
+
+/** The part of a Jest-style matcher context the fault matchers use. */
+export type MatcherContext = {
+  equals(a: unknown, b: unknown): boolean
+}
+
+export type MatcherResult = {
+  pass: boolean
+  message: () => string
+}
+
+/**
+ * Matcher signatures for `expect` type augmentation. `R` is the matcher
+ * return type of the test framework (`void` for bun:test, `T` for Vitest).
+ */
+export type FaultMatchers<R = unknown> = {
+  /** A Fault, optionally carrying `tag` as its own or a parent tag. */
+  toBeFault(tag?: string): R
+  /** A Fault whose own `_tag` is exactly `tag`. */
+  toHaveFaultTag(tag: string): R
+  /** A value whose cause chain, head included, holds a Fault tagged exactly `tag`. */
+  toHaveCauseTag(tag: string): R
+  /** A Fault whose merged `getContext()` contains every entry of `partial`. */
+  toHaveMeta(partial: Record<string, unknown>): R
+  /** A Fault that the registry revives as the same class and serializes identically. */
+  toRoundTripThroughWire<M extends Record<string, AnyFaultCtor>>(registry: FaultRegistry<M>): R
+}
+
+export type FaultExpectation = {
+  /** `fn` throws synchronously a Fault tagged exactly `tag`, which is returned. */
+  throws: { withTag<const T extends string>(tag: T): CauseOfTag<T> }
+  /** `fn` throws or rejects with a Fault tagged exactly `tag`, which resolves. */
+  rejects: { withTag<const T extends string>(tag: T): Promise<CauseOfTag<T>> }
+}
+
+const RENDER_OPTIONS = { stack: false } as const
+
+function render(value: unknown): string {
+  if (value instanceof Fault) return formatFault(value, RENDER_OPTIONS)
+  if (value instanceof Error) return `${value.name}: ${value.message}`
+
+  try {
+    return JSON.stringify(value) ?? typeof value
+  } catch {
+    return Object.prototype.toString.call(value)
+  }
+}
+
+function result(pass: boolean, expectation: string, received: unknown): MatcherResult {
+  return {
+    message: () => `Expected ${pass ? "not " : ""}${expectation}, received:\n\n${render(received)}`,
+    pass,
+  }
+}
+
+function toBeFault(received: unknown, tag?: string): MatcherResult {
+  const pass = received instanceof Fault && (tag === undefined || hasTagInLineage(received, tag))
+  return result(pass, tag === undefined ? "a fault" : `a fault tagged '${tag}'`, received)
+}
+
+function toHaveFaultTag(received: unknown, tag: string): MatcherResult {
+  const pass = received instanceof Fault && received._tag === tag
+  return result(pass, `a fault with the tag '${tag}'`, received)
+}
+
+function toHaveCauseTag(received: unknown, tag: string): MatcherResult {
+  const pass = causeChain(received).some((link) => link instanceof Fault && link._tag === tag)
+  return result(pass, `a cause chain containing '${tag}'`, received)
+}
+
+function toHaveMeta(
+  this: MatcherContext,
+  received: unknown,
+  partial: Record<string, unknown>
+): MatcherResult {
+  const context = received instanceof Fault ? received.getContext() : undefined
+  const pass =
+    context !== undefined &&
+    Object.entries(partial).every(
+      ([key, value]) => Object.hasOwn(context, key) && this.equals(context[key], value)
+    )
+  return result(pass, `a fault with meta ${JSON.stringify(partial)}`, received)
+}
+
+function toRoundTripThroughWire<M extends Record<string, AnyFaultCtor>>(
+  this: MatcherContext,
+  received: unknown,
+  registry: FaultRegistry<M>
+): MatcherResult {
+  if (!(received instanceof Fault)) {
+    return result(false, "a fault that round-trips through the wire", received)
+  }
+
+  const sent = registry.toSerializable(received)
+  // oxlint-disable-next-line unicorn/prefer-structured-clone -- JSON text is what crosses the wire.
+  const revived = registry.fromSerializable(JSON.parse(JSON.stringify(sent)) as typeof sent)
+  const pass =
+    Object.getPrototypeOf(revived) === Object.getPrototypeOf(received) &&
+    this.equals(registry.toSerializable(revived), sent)
+
+  return {
+    message: () =>
+      `Expected fault ${pass ? "not " : ""}to round-trip through the wire.\n\nSent:\n\n${render(received)}\n\nRevived:\n\n${render(revived)}`,
+    pass,
+  }
+}
+
+/** Pass to `expect.extend()` in bun:test, Vitest, or Jest. */
+export const faultMatchers = {
+  toBeFault,
+  toHaveCauseTag,
+  toHaveFaultTag,
+  toHaveMeta,
+  toRoundTripThroughWire,
+}
+
+const NOTHING_THROWN = Symbol("nothing thrown")
+
+function assertTag<const T extends string>(thrown: unknown, tag: T): CauseOfTag<T> {
+  if (thrown instanceof Fault && thrown._tag === tag) return thrown as CauseOfTag<T>
+
+  const received =
+    thrown === NOTHING_THROWN ? "nothing; the function did not throw" : render(thrown)
+  const error = new FaultAssertionError({ expectedTag: tag, received })
+  throw thrown === NOTHING_THROWN ? error : error.withCause(thrown)
+}
+
+function capture(fn: () => unknown): unknown {
+  try {
+    const value = fn()
+    if (value instanceof Promise) {
+      // The assertion fails either way; keep the rejection from going unhandled.
+      value.catch(() => null)
+      return new TypeError("The function returned a promise; use expectFault(fn).rejects")
+    }
+  } catch (error) {
+    return error
+  }
+  return NOTHING_THROWN
+}
+
+async function captureAsync(fn: () => unknown): Promise<unknown> {
+  try {
+    await fn()
+  } catch (error) {
+    return error
+  }
+  return NOTHING_THROWN
+}
+
+export function expectFault(fn: () => unknown): FaultExpectation {
+  return {
+    rejects: {
+      withTag: async (tag) => assertTag(await captureAsync(fn), tag),
+    },
+    throws: {
+      withTag: (tag) => assertTag(capture(fn), tag),
+    },
+  }
+}
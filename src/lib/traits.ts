@@ -0,0 +1,87 @@
+// Fault traits: severity, retryability, exposure, and category. Classes
+// declare them through `Tagged(tag, { traits })`; instances may override them
+// with `withSeverity`/`withRetryable`, and both travel in `__traits`.
+import type { SerializableTraits } from "./wire"
+
+export type FaultSeverity = "debug" | "info" | "warning" | "error" | "fatal"
+
+/** `"user"` and `"system"` are conventional; any string is accepted. */
+// oxlint-disable-next-line typescript/ban-types -- `string & {}` keeps the literal suggestions.
+export type FaultCategory = "user" | "system" | (string & {})
+
+/** A fault's resolved traits. Undeclared traits fall back to the defaults. */
+export type FaultTraits = {
+  /** Log level. Defaults to `"error"`. */
+  readonly severity: FaultSeverity
+  /** Whether retrying the failed operation may succeed. Defaults to false. */
+  readonly retryable: boolean
+  /** Whether the message is safe to show to end users. Defaults to false. */
+  readonly expose: boolean
+  /** Free-form classification, such as `"user"` or `"system"`. No default. */
+  readonly category?: FaultCategory
+}
+
+export type DeclaredTraits = Partial<FaultTraits>
+
+/** Traits to match exactly, or a predicate over a fault's resolved traits. */
+export type TraitFilter = DeclaredTraits | ((traits: FaultTraits) => boolean)
+
+const DEFAULT_TRAITS: FaultTraits = { expose: false, retryable: false, severity: "error" }
+
+const SEVERITIES: ReadonlySet<string> = new Set(["debug", "info", "warning", "error", "fatal"])
+
+const TRAIT_KEYS: ReadonlyArray<keyof FaultTraits> = ["severity", "retryable", "expose", "category"]
+
+const classTraits = new WeakMap<object, DeclaredTraits>()
+const instanceTraits = new WeakMap<object, DeclaredTraits>()
+
+export function setClassTraits(ctor: object, traits: DeclaredTraits): void {
+  classTraits.set(ctor, traits)
+}
+
+// Each trait comes from the nearest class declaring it, so a child can change
+// its parent's severity and still inherit its retryability.
+export function declaredClassTraits(ctor: unknown): DeclaredTraits {
+  const chain: DeclaredTraits[] = []
+  let current = ctor
+
+  while (typeof current === "function") {
+    const traits = classTraits.get(current)
+    if (traits) chain.unshift(traits)
+    current = Object.getPrototypeOf(current)
+  }
+
+  return Object.assign({}, ...chain) as DeclaredTraits
+}
+
+export function overrideTraits(fault: object, traits: DeclaredTraits): void {
+  instanceTraits.set(fault, { ...instanceTraits.get(fault), ...traits })
+}
+
+/** Class and instance traits without defaults: what the wire carries. */
+export function declaredTraits(fault: object): DeclaredTraits {
+  return { ...declaredClassTraits(fault.constructor), ...instanceTraits.get(fault) }
+}
+
+export function resolveTraits(declared: DeclaredTraits): FaultTraits {
+  return { ...DEFAULT_TRAITS, ...declared }
+}
+
+export function matchesTraits(traits: FaultTraits, filter: TraitFilter): boolean {
+  if (typeof filter === "function") return filter(traits)
+  return TRAIT_KEYS.every((key) => !Object.hasOwn(filter, key) || filter[key] === traits[key])
+}
+
+// Wire values are untrusted; only known traits with valid types are restored.
+export function parseWireTraits(value: SerializableTraits): DeclaredTraits {
+  const traits: { -readonly [K in keyof FaultTraits]?: FaultTraits[K] } = {}
+
+  if (typeof value.severity === "string" && SEVERITIES.has(value.severity)) {
+    traits.severity = value.severity as FaultSeverity
+  }
+  if (typeof value.retryable === "boolean") traits.retryable = value.retryable
+  if (typeof value.expose === "boolean") traits.expose = value.expose
+  if (typeof value.category === "string") traits.category = value.category
+
+  return traits
+}
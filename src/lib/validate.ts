@@ -0,0 +1,327 @@
+// Wire payload checks for strict and lenient deserialization. A check walks
+// the payload once, reports every problem with a JSON Pointer path, and
+// returns a copy repaired just enough for the reviver to accept: malformed
+// envelope members are dropped, and malformed causes become thrown values.
+// Codec envelopes their codec rejects need no repair; the reviver keeps them
+// as data. Permissive deserialization skips all of this.
+import { type Codec, findDecodeFailure } from "./codec"
+import { InvalidWirePayloadError } from "./errors"
+import { type Fault, setDiagnostics } from "./fault"
+import {
+  MAX_CAUSE_DEPTH,
+  RESERVED_FAULT_KEYS,
+  type SerializableCause,
+  type SerializableFault,
+  type SerializableValue,
+  type WireDiagnostic,
+} from "./wire"
+
+/**
+ * `"permissive"` revives any payload with the right envelope (the default),
+ * `"lenient"` also revives malformed ones and records their problems, read
+ * through `fault.getDiagnostics()`, and `"strict"` throws `InvalidWirePayloadError` for
+ * any problem, including tags the registry cannot resolve.
+ */
+export type DeserializeMode = "strict" | "lenient" | "permissive"
+
+export type DeserializeOptions = {
+  mode?: DeserializeMode
+}
+
+export type CheckedPayload = {
+  /** `undefined` when the payload is not a fault at all. */
+  readonly payload: SerializableFault | undefined
+  readonly diagnostics: WireDiagnostic[]
+}
+
+// Envelope keys whose value must be a string when present.
+const STRING_KEYS = ["name", "message", "details", "stack"] as const
+
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replaceAll("~", "~0").replaceAll("/", "~1")}`
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) return String(value)
+  if (Array.isArray(value)) return "an array"
+  if (typeof value === "object") {
+    const prototype: unknown = Object.getPrototypeOf(value)
+    const name = (prototype as { constructor?: { name?: unknown } }).constructor?.name
+    return typeof name === "string" && name !== "" ? `a ${name}` : "an object"
+  }
+  return typeof value === "number" ? String(value) : `a ${typeof value}`
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : describe(error)
+}
+
+class Checker {
+  readonly diagnostics: WireDiagnostic[] = []
+
+  constructor(readonly codecs: readonly Codec[]) {}
+
+  report(path: string, message: string): void {
+    this.diagnostics.push({ message, path })
+  }
+
+  // JSON-safe values only: finite numbers, plain objects and arrays, no cycles.
+  // Values the reviver decodes (`decoded`) must also hold decodable envelopes.
+  value(value: unknown, path: string, decoded = false, ancestors: object[] = []): void {
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) this.report(path, `expected a finite number, got ${value}`)
+      return
+    }
+    if (typeof value !== "object" || value === null) {
+      if (["bigint", "function", "symbol"].includes(typeof value)) {
+        this.report(path, `expected a JSON-safe value, got ${describe(value)}`)
+      }
+      return
+    }
+    if (ancestors.includes(value)) {
+      this.report(path, "expected a JSON-safe value, got a circular reference")
+      return
+    }
+
+    const prototype: unknown = Object.getPrototypeOf(value)
+    if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+      this.report(path, `expected a plain object, got ${describe(value)}`)
+      return
+    }
+
+    const failure = decoded ? findDecodeFailure(value, this.codecs) : undefined
+    if (failure) {
+      this.report(path, `invalid ${failure.type} value: ${describeError(failure.error)}`)
+    }
+
+    const nested = [...ancestors, value]
+    for (const [key, entry] of Object.entries(value)) {
+      this.value(entry, pointer(path, Array.isArray(value) ? Number(key) : key), decoded, nested)
+    }
+  }
+
+  cause(cause: unknown, path: string, depth: number): SerializableCause {
+    // The reviver stops here too; deeper links are never read.
+    if (depth >= MAX_CAUSE_DEPTH) return cause as SerializableCause
+
+    if (!isObject(cause)) {
+      this.report(path, `expected a cause object, got ${describe(cause)}`)
+      return { kind: "thrown", value: cause as SerializableValue }
+    }
+
+    const { kind } = cause
+    if (kind === "fault") {
+      const value = this.fault(cause["value"], pointer(path, "value"), depth + 1)
+      return value
+        ? { kind: "fault", value }
+        : { kind: "thrown", value: cause["value"] as SerializableValue }
+    }
+
+    if (kind === "thrown") {
+      this.value(cause["value"], pointer(path, "value"), true)
+      return cause as SerializableCause
+    }
+
+    if (kind === "error" || kind === "aggregate") return this.nativeCause(cause, path, depth)
+
+    const name = typeof kind === "string" ? `"${kind}"` : describe(kind)
+    this.report(pointer(path, "kind"), `unknown cause kind ${name}`)
+    return { kind: "thrown", value: cause as SerializableValue }
+  }
+
+  nativeCause(cause: Record<string, unknown>, path: string, depth: number): SerializableCause {
+    // Required strings fall back to what `new Error()` would have.
+    const checked = { ...cause }
+    for (const [key, fallback] of [
+      ["name", "Error"],
+      ["message", ""],
+    ] as const) {
+      if (typeof cause[key] !== "string") {
+        this.report(pointer(path, key), `expected a string, got ${describe(cause[key])}`)
+        checked[key] = fallback
+      }
+    }
+    if (cause["stack"] !== undefined && typeof cause["stack"] !== "string") {
+      this.report(pointer(path, "stack"), `expected a string, got ${describe(cause["stack"])}`)
+      checked["stack"] = undefined
+    }
+    if (cause["cause"] !== undefined) {
+      checked["cause"] = this.cause(cause["cause"], pointer(path, "cause"), depth + 1)
+    }
+    if (cause["kind"] === "aggregate") {
+      checked["errors"] = this.causes(cause["errors"], pointer(path, "errors"), depth + 1)
+    }
+    return checked as SerializableCause
+  }
+
+  causes(errors: unknown, path: string, depth: number): SerializableCause[] {
+    if (!Array.isArray(errors)) {
+      this.report(path, `expected an array, got ${describe(errors)}`)
+      return []
+    }
+    return errors.map((child, index) => this.cause(child, pointer(path, index), depth))
+  }
+
+  fault(value: unknown, path: string, depth: number): SerializableFault | undefined {
+    if (!isObject(value)) {
+      this.report(path, `expected a Faultier payload, got ${describe(value)}`)
+      return undefined
+    }
+    if (value["__faultier"] !== true) {
+      this.report(pointer(path, "__faultier"), "expected true")
+      return undefined
+    }
+    if (typeof value["_tag"] !== "string") {
+      this.report(pointer(path, "_tag"), `expected a string, got ${describe(value["_tag"])}`)
+      return undefined
+    }
+
+    // Malformed envelope members are cleared to undefined, which the reviver
+    // treats as absent.
+    const checked: Record<string, unknown> = { ...value }
+    const drop = (key: string, message: string) => {
+      this.report(pointer(path, key), message)
+      checked[key] = undefined
+    }
+
+    for (const key of STRING_KEYS) {
+      if (value[key] !== undefined && typeof value[key] !== "string") {
+        drop(key, `expected a string, got ${describe(value[key])}`)
+      }
+    }
+
+    const version = value["__v"]
+    if (
+      version !== undefined &&
+      (typeof version !== "number" || !Number.isInteger(version) || version < 0)
+    ) {
+      drop("__v", `expected a non-negative integer, got ${describe(version)}`)
+    }
+
+    if (value["meta"] !== undefined) {
+      if (isObject(value["meta"])) {
+        this.value(value["meta"], pointer(path, "meta"))
+      } else {
+        drop("meta", `expected an object, got ${describe(value["meta"])}`)
+      }
+    }
+
+    const ancestors = value["_ancestors"]
+    if (ancestors !== undefined) {
+      const invalid = Array.isArray(ancestors)
+        ? ancestors.findIndex((tag) => typeof tag !== "string")
+        : undefined
+      if (invalid === undefined) {
+        drop("_ancestors", `expected an array of strings, got ${describe(ancestors)}`)
+      } else if (invalid !== -1) {
+        this.report(
+          pointer(pointer(path, "_ancestors"), invalid),
+          `expected a string, got ${describe((ancestors as unknown[])[invalid])}`
+        )
+        checked["_ancestors"] = undefined
+      }
+    }
+
+    if (value["__frames"] !== undefined && !Array.isArray(value["__frames"])) {
+      drop("__frames", `expected an array, got ${describe(value["__frames"])}`)
+    }
+    if (value["__traits"] !== undefined && !isObject(value["__traits"])) {
+      drop("__traits", `expected an object, got ${describe(value["__traits"])}`)
+    }
+
+    if (value["cause"] !== undefined) {
+      checked["cause"] = this.cause(value["cause"], pointer(path, "cause"), depth)
+    }
+    if (value["__errors"] !== undefined) {
+      if (Array.isArray(value["__errors"])) {
+        checked["__errors"] = this.causes(value["__errors"], pointer(path, "__errors"), depth)
+      } else {
+        drop("__errors", `expected an array, got ${describe(value["__errors"])}`)
+      }
+    }
+
+    for (const [key, field] of Object.entries(value)) {
+      if (!RESERVED_FAULT_KEYS.has(key)) this.value(field, pointer(path, key), true)
+    }
+
+    return checked as SerializableFault
+  }
+}
+
+export function checkWirePayload(json: unknown, codecs: readonly Codec[]): CheckedPayload {
+  const checker = new Checker(codecs)
+  const payload = checker.fault(json, "", 0)
+  return { diagnostics: checker.diagnostics, payload }
+}
+
+function collectUnresolved(
+  json: SerializableFault,
+  path: string,
+  depth: number,
+  isResolved: (tag: string, ancestors: readonly string[]) => boolean,
+  diagnostics: WireDiagnostic[]
+): void {
+  if (!isResolved(json._tag, json._ancestors ?? [])) {
+    diagnostics.push({ message: `unregistered tag "${json._tag}"`, path: pointer(path, "_tag") })
+  }
+
+  const visit = (cause: SerializableCause, causePath: string, causeDepth: number): void => {
+    if (causeDepth >= MAX_CAUSE_DEPTH) return
+    if (cause.kind === "fault") {
+      collectUnresolved(
+        cause.value,
+        pointer(causePath, "value"),
+        causeDepth + 1,
+        isResolved,
+        diagnostics
+      )
+      return
+    }
+    if (cause.kind === "thrown") return
+    if (cause.cause !== undefined) visit(cause.cause, pointer(causePath, "cause"), causeDepth + 1)
+    if (cause.kind === "aggregate") {
+      for (const [index, child] of cause.errors.entries()) {
+        visit(child, pointer(pointer(causePath, "errors"), index), causeDepth + 1)
+      }
+    }
+  }
+
+  if (json.cause !== undefined) visit(json.cause, pointer(path, "cause"), depth)
+  for (const [index, child] of (json.__errors ?? []).entries()) {
+    visit(child, pointer(pointer(path, "__errors"), index), depth)
+  }
+}
+
+/** Diagnostics for every fault in the payload whose tag and parent tags are all unresolved. */
+export function findUnresolvedTags(
+  json: SerializableFault,
+  isResolved: (tag: string, ancestors: readonly string[]) => boolean
+): WireDiagnostic[] {
+  const diagnostics: WireDiagnostic[] = []
+  collectUnresolved(json, "", 0, isResolved, diagnostics)
+  return diagnostics
+}
+
+/**
+ * Finishes a strict or lenient deserialization: throws when the payload is
+ * not a fault or, in strict mode, has any problem; otherwise revives it and
+ * records the problems on the head fault.
+ */
+export function reviveChecked<F extends Fault>(
+  payload: SerializableFault | undefined,
+  diagnostics: readonly WireDiagnostic[],
+  mode: Exclude<DeserializeMode, "permissive">,
+  revive: (payload: SerializableFault) => F
+): F {
+  if (payload === undefined || (mode === "strict" && diagnostics.length > 0)) {
+    throw new InvalidWirePayloadError({ diagnostics })
+  }
+
+  const fault = revive(payload)
+  if (diagnostics.length > 0) setDiagnostics(fault, diagnostics)
+  return fault
+}
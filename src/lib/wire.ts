@@ -11,21 +11,65 @@ export type SerializableValue =
   | readonly SerializableValue[]
   | { readonly [key: string]: SerializableValue }
 
+/** A parsed stack frame. Missing parts are omitted rather than guessed. */
+export type StackFrame = {
+  fn?: string
+  file?: string
+  line?: number
+  column?: number
+  /** Runtime-provided frames without a source location (`native`, `[native code]`). */
+  isNative: boolean
+  /** Runtime internals: `node:`, `internal/`, and `bun:` locations. */
+  isInternal: boolean
+}
+
+/** Declared traits of a fault. Defaults are omitted. */
+export type SerializableTraits = {
+  severity?: string
+  retryable?: boolean
+  expose?: boolean
+  category?: string
+}
+
 export type SerializableCause =
   | { kind: "fault"; value: SerializableFault }
-  | { kind: "error"; name: string; message: string; stack?: string }
+  | { kind: "error"; name: string; message: string; stack?: string; cause?: SerializableCause }
+  | {
+      kind: "aggregate"
+      name: string
+      message: string
+      stack?: string
+      errors: SerializableCause[]
+      cause?: SerializableCause
+    }
   | { kind: "thrown"; value: SerializableValue }
 
 export type SerializableFault = {
   __faultier: true
   _tag: string
+  /** Wire version of a versioned registry's payloads. */
+  __v?: number
+  /** Parent tags of an extended tag, nearest first. */
+  _ancestors?: string[]
   name: string
   message?: string
   details?: string
   meta?: Record<string, SerializableValue>
   stack?: string
+  /** Parsed head frames, written when serializing with `stackFormat` `"frames"` or `"both"`. */
+  __frames?: StackFrame[]
+  /** Class-declared and per-instance traits, written when any are declared. */
+  __traits?: SerializableTraits
   cause?: SerializableCause
-  [key: string]: SerializableValue | SerializableCause | undefined
+  /** Child errors of an `AggregateFault`. */
+  __errors?: SerializableCause[]
+  [key: string]: SerializableValue | SerializableCause | SerializableCause[] | undefined
+}
+
+/** One problem found in a wire payload. `path` is a JSON Pointer (RFC 6901) into the payload. */
+export type WireDiagnostic = {
+  readonly path: string
+  readonly message: string
 }
 
 function stringifyFallback(value: object): string {
@@ -77,7 +121,12 @@ export const MAX_CAUSE_DEPTH = 100
 // prototype, so isReservedKey (fault.ts) covers them via a prototype check.
 export const RESERVED_FAULT_KEYS: ReadonlySet<string> = new Set<string>([
   "__faultier",
+  "__errors",
+  "__frames",
+  "__traits",
   "_tag",
+  "_ancestors",
+  "__v",
   "cause",
   "name",
   "message",
@@ -0,0 +1,64 @@
+/**
+ * Creates a successful Result.
+ *
+ * @example
+ * ```ts
+ * import * as Result from "faultier/result"
+ *
+ * const result = Result.ok(42)
+ * ```
+ */
+export { ok } from "./lib/result"
+
+/**
+ * Creates a failed Result. The error side is constrained to Fault unions.
+ */
+export { err } from "./lib/result"
+
+/**
+ * Type guard for successful Results.
+ */
+export { isOk } from "./lib/result"
+
+/**
+ * Type guard for failed Results.
+ */
+export { isErr } from "./lib/result"
+
+/**
+ * Transforms the success value, passing failures through unchanged.
+ */
+export { map } from "./lib/result"
+
+/**
+ * Transforms the fault, passing successes through unchanged.
+ */
+export { mapErr } from "./lib/result"
+
+/**
+ * Chains a Result-returning function, widening the error union.
+ */
+export { andThen } from "./lib/result"
+
+/**
+ * Folds a Result into a single value.
+ *
+ * The `err` handler receives the fault union, so tag dispatch composes with `matchTags`.
+ *
+ * @example
+ * ```ts
+ * import * as Faultier from "faultier"
+ * import * as Result from "faultier/result"
+ *
+ * const status = Result.match(AppFault.try(() => loadUser(id), "DatabaseError"), {
+ *   ok: () => 200,
+ *   err: (fault) => Faultier.matchTags(fault, { DatabaseError: () => 503 }),
+ * })
+ * ```
+ */
+export { match } from "./lib/result"
+
+/**
+ * Returns the success value, or the fallback for failures.
+ */
+export { unwrapOr } from "./lib/result"
@@ -0,0 +1,26 @@
+/**
+ * Calls `fn` until it succeeds, retrying only failures that are classified as retryable.
+ *
+ * A failure is retried when the thrown value or any link of its cause chain matches
+ * `retryOn`: registered tags (parent tags cover extended ones), or a predicate. Without
+ * `retryOn`, faults whose `retryable` trait is set are retried. With a `registry`, tags and
+ * traits only match its members. Other failures are rethrown as they are.
+ *
+ * Delays grow exponentially with full jitter by default. Once `maxAttempts` (default 3)
+ * is reached, a `RetryExhaustedError` from `faultier/errors` is thrown, carrying the
+ * attempt count and an `AggregateError` of every attempt's error as its cause. Aborting
+ * `signal` stops further attempts and throws the signal's reason.
+ *
+ * @example
+ * ```ts
+ * import * as FaultierRetry from "faultier/retry"
+ *
+ * const user = await FaultierRetry.retry(() => fetchUser(id), {
+ *   registry: AppFault,
+ *   retryOn: ["TimeoutError"],
+ *   backoff: { initial: 200, max: 5000 },
+ *   signal: AbortSignal.timeout(30_000),
+ * })
+ * ```
+ */
+export { retry } from "./lib/retry"
@@ -0,0 +1,22 @@
+/**
+ * Creates a source mapper that rewrites the stacks and structured frames of a
+ * `SerializableFault`, including every cause and aggregate child, to original positions.
+ *
+ * The loader receives each generated file named in a frame and returns its source map
+ * (an object or JSON text), or `undefined` to leave that file's frames alone. Parsed maps
+ * are cached per mapper until `clear()`; nothing is fetched over the network. Remapped
+ * stack lines are written in V8 format, and `"Caused by:"` blocks are remapped too.
+ *
+ * @example
+ * ```ts
+ * import { readFile } from "node:fs/promises"
+ * import * as FaultierSourcemap from "faultier/sourcemap"
+ *
+ * const mapper = FaultierSourcemap.createSourceMapper((file) =>
+ *   readFile(`${file}.map`, "utf8").catch(() => undefined)
+ * )
+ *
+ * const original = await mapper.remap(json)
+ * ```
+ */
+export { createSourceMapper } from "./lib/sourcemap"
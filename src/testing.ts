@@ -0,0 +1,44 @@
+/**
+ * Fault matchers for `expect.extend()` in bun:test, Vitest, or Jest.
+ *
+ * `toBeFault(tag?)` accepts parent tags, while `toHaveFaultTag` and `toHaveCauseTag`
+ * compare exact tags. `toHaveMeta` checks the merged `getContext()`, and
+ * `toRoundTripThroughWire(registry)` serializes, revives, and compares a fault. Failure
+ * messages render the received cause chain with `format()`. Declare the matcher types
+ * with `FaultMatchers` from `faultier/types`.
+ *
+ * @example
+ * ```ts
+ * import { expect } from "bun:test"
+ * import * as FaultierTesting from "faultier/testing"
+ * import type { FaultMatchers } from "faultier/types"
+ *
+ * expect.extend(FaultierTesting.faultMatchers)
+ *
+ * declare module "bun:test" {
+ *   interface Matchers<T> extends FaultMatchers<void> {}
+ * }
+ *
+ * expect(err).toHaveCauseTag("DatabaseError")
+ * ```
+ */
+export { faultMatchers } from "./lib/testing"
+
+/**
+ * Asserts that a function throws a fault tagged exactly `tag` and returns it, narrowed to
+ * the tag.
+ *
+ * `throws.withTag` is for synchronous code; `rejects.withTag` accepts a synchronous throw
+ * or a rejected promise. Any other outcome throws a `FaultAssertionError` from
+ * `faultier/errors` whose message renders the received cause chain.
+ *
+ * @example
+ * ```ts
+ * import * as FaultierTesting from "faultier/testing"
+ *
+ * const fault = await FaultierTesting.expectFault(() => loadUser("42")).rejects.withTag(
+ *   "NotFoundError"
+ * )
+ * ```
+ */
+export { expectFault } from "./lib/testing"
@@ -1,7 +1,73 @@
 /**
  * Public type contracts for Faultier.
  */
-export type { FlattenField, FlattenOptions } from "./lib/fault"
-export type { ByTag, TagOf } from "./lib/match"
+export type { BuiltinCodecTypes, Codec, CodecTypes, FieldValue } from "./lib/codec"
+export type {
+  CauseTree,
+  ContextEntry,
+  ContextOptions,
+  ContextStrategy,
+  FlattenField,
+  FlattenOptions,
+  FlattenTreeOptions,
+} from "./lib/fault"
+export type { FingerprintOptions } from "./lib/fingerprint"
+export type { FormatOptions } from "./lib/format"
+export type { FrameExclusion, FramesOptions, StackFormat } from "./lib/frames"
+export type { ToResponseOptions } from "./lib/http"
+export type {
+  CompleteMessageCatalog,
+  CompleteMessageCatalogs,
+  LocalizedMessage,
+  MessageCatalog,
+  MessageCatalogs,
+} from "./lib/i18n"
+export type {
+  AncestorTagOf,
+  ByTag,
+  ByTagOrAncestor,
+  CauseOfTag,
+  FaultClass,
+  Matcher,
+  TagOf,
+  UnhandledTags,
+} from "./lib/match"
+export type { FieldUpgrader, WireMigration } from "./lib/migrate"
+export type { HttpMetadata, ProblemDetails, ProblemDetailsOptions } from "./lib/problem"
+export type {
+  RedactionPolicy,
+  RedactionProfile,
+  RedactionProfiles,
+  SerializeOptions,
+} from "./lib/redact"
 export type { FaultRegistry } from "./lib/registry"
-export type { SerializableCause, SerializableFault, SerializableValue } from "./lib/wire"
+export type { RegistryOptions } from "./lib/registry-state"
+export type { Err, Ok, Result, ResultHandlers } from "./lib/result"
+export type {
+  BackoffOptions,
+  RetryClock,
+  RetryContext,
+  RetryOptions,
+  RetryPredicate,
+} from "./lib/retry"
+export type { FieldIssue } from "./lib/schema"
+export type { RawSourceMap, SourceMapLoader, SourceMapper } from "./lib/sourcemap"
+export type { FaultExpectation, FaultMatchers } from "./lib/testing"
+export type { FaultCategory, FaultSeverity, FaultTraits, TraitFilter } from "./lib/traits"
+export type {
+  FieldSchema,
+  FieldTemplate,
+  SchemaTaggedFactory,
+  TaggedFactory,
+  TaggedOptions,
+  TaggedSchemaOptions,
+  TaggedTemplates,
+} from "./lib/tagged"
+export type { DeserializeMode, DeserializeOptions } from "./lib/validate"
+export type {
+  SerializableCause,
+  SerializableFault,
+  SerializableValue,
+  StackFrame,
+  WireDiagnostic,
+} from "./lib/wire"